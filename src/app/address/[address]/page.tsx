@@ -0,0 +1,251 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import {
+  DEFAULT_NETWORK,
+  NETWORK_LABELS,
+  parseNetwork,
+  type SuiNetwork,
+} from "@/lib/sui/networks";
+import type { TimelineDirection } from "@/lib/explain/timeline";
+import { api } from "@/lib/api/client";
+import type { TimelinePageResponse } from "@/lib/api/schema";
+import { AddressLabelsProvider } from "@/components/address-labels";
+import { AddressNamesProvider } from "@/components/address-names";
+import { CopyableAddress } from "@/components/copyable-address";
+import { formatMistToSui } from "@/components/format";
+import { buildAddressPath, buildSharePath } from "@/components/paths";
+
+const DIRECTION_LABELS: Record<TimelineDirection, string> = {
+  all: "All",
+  from: "Sent",
+  to: "Received",
+};
+
+function formatTimestamp(timestamp: string | null): string {
+  if (!timestamp) return "Unknown time";
+  return new Date(timestamp).toLocaleString();
+}
+
+type TimelineListProps = {
+  entries: TimelinePageResponse["entries"];
+  network: SuiNetwork;
+};
+
+function TimelineList({ entries, network }: TimelineListProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="rounded-xl border border-slate-800/50 bg-slate-900/30 p-4 text-center text-xs text-slate-400 sm:text-sm">
+        No transactions found for this address on {NETWORK_LABELS[network]}.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2 sm:space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.digest}>
+          <Link
+            href={buildSharePath(entry.digest, network)}
+            className="group flex flex-col gap-2 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-3 shadow-lg transition-all duration-200 hover:border-indigo-500/30 sm:flex-row sm:items-center sm:gap-4 sm:p-4"
+          >
+            <span
+              className={`inline-flex w-fit shrink-0 items-center gap-1.5 rounded-full px-2 py-0.5 text-[10px] font-semibold sm:text-xs ${
+                entry.direction === "sent"
+                  ? "bg-blue-500/15 text-blue-300 border border-blue-500/30"
+                  : "bg-purple-500/15 text-purple-300 border border-purple-500/30"
+              }`}
+            >
+              {entry.direction === "sent" ? "↑ Sent" : "↓ Received"}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="text-xs leading-relaxed text-slate-200 group-hover:text-slate-50 sm:text-sm">
+                {entry.summary}
+              </p>
+              <p className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-slate-500 sm:text-xs">
+                <span>{formatTimestamp(entry.timestamp)}</span>
+                <span>Gas {formatMistToSui(entry.gasUsed)}</span>
+                <code className="font-mono">{entry.digest.slice(0, 10)}...</code>
+              </p>
+            </div>
+            <span
+              className={`inline-flex w-fit shrink-0 items-center gap-1.5 rounded-full px-2 py-0.5 text-[10px] font-semibold sm:text-xs ${
+                entry.status === "success"
+                  ? "bg-emerald-500/15 text-emerald-300 border border-emerald-500/30"
+                  : entry.status === "reverted"
+                    ? "bg-red-500/15 text-red-300 border border-red-500/30"
+                    : "bg-slate-500/15 text-slate-300 border border-slate-500/30"
+              }`}
+            >
+              {entry.status.toUpperCase()}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function AddressContent() {
+  const params = useParams<{ address: string }>();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  // A hex address or a SuiNS name; the API resolves names
+  const address = decodeURIComponent(params.address);
+  const network = parseNetwork(searchParams.get("network")) ?? DEFAULT_NETWORK;
+
+  const [direction, setDirection] = useState<TimelineDirection>("all");
+  const [entries, setEntries] = useState<TimelinePageResponse["entries"]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resolved, setResolved] = useState<Pick<TimelinePageResponse, "address" | "name"> | null>(null);
+  const [lookup, setLookup] = useState("");
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setError(null);
+    setLoading(true);
+    try {
+      const page = await api.addressTransactions(address, { network, direction, cursor });
+      setResolved({ address: page.address, name: page.name });
+      setEntries((current) => (cursor ? [...current, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unexpected error while loading history.");
+    } finally {
+      setLoading(false);
+    }
+  }, [address, network, direction]);
+
+  // Reload from the newest transaction whenever the address, network or direction changes
+  useEffect(() => {
+    setResolved(null);
+    setEntries([]);
+    setNextCursor(null);
+    loadPage(null);
+  }, [loadPage]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = lookup.trim();
+    if (target) router.push(buildAddressPath(target, network));
+  };
+
+  return (
+    <AddressLabelsProvider network={network}>
+      <div className="relative flex min-h-screen items-start justify-center overflow-x-hidden bg-gradient-to-br from-slate-950 via-indigo-950 to-slate-950 px-3 py-6 font-sans sm:px-4 sm:py-12">
+        <div className="pointer-events-none fixed inset-0 z-0">
+          <div className="absolute inset-x-0 top-0 h-96 bg-gradient-to-b from-indigo-500/20 via-purple-500/10 to-transparent" />
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(99,102,241,0.1),transparent_70%)]" />
+        </div>
+
+        <main className="relative z-10 flex w-full max-w-5xl flex-col gap-6 overflow-x-hidden rounded-2xl border border-slate-800/50 bg-slate-900/40 p-4 shadow-2xl backdrop-blur-2xl sm:rounded-3xl sm:gap-8 sm:p-8 lg:p-10">
+          <header className="space-y-3 sm:space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <Link
+                href={network === DEFAULT_NETWORK ? "/" : `/?network=${network}`}
+                className="text-xs text-slate-400 transition-colors hover:text-indigo-300 sm:text-sm"
+              >
+                ← Explain a transaction
+              </Link>
+              <span className="inline-flex items-center gap-2 rounded-full border border-indigo-500/30 bg-gradient-to-r from-indigo-500/10 to-purple-500/10 px-3 py-1 text-xs font-medium text-indigo-200 shadow-lg sm:px-4 sm:py-1.5">
+                {NETWORK_LABELS[network]}
+              </span>
+            </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <h1 className="bg-gradient-to-r from-slate-50 via-indigo-100 to-slate-50 bg-clip-text text-2xl font-bold tracking-tight text-transparent sm:text-4xl">
+                Address Activity
+              </h1>
+              {resolved ? (
+                <AddressNamesProvider names={resolved.name ? { [resolved.address]: resolved.name } : {}}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <CopyableAddress address={resolved.address} linkToHistory={false} />
+                    {resolved.name && (
+                      <code className="font-mono text-[10px] text-slate-500 sm:text-xs">{resolved.address}</code>
+                    )}
+                  </div>
+                </AddressNamesProvider>
+              ) : (
+                <p className="font-mono text-xs text-slate-400 sm:text-sm">{address}</p>
+              )}
+            </div>
+            <form onSubmit={handleLookup} className="flex gap-2">
+              <input
+                className="flex-1 rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 font-mono text-xs text-slate-100 placeholder:text-slate-500 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+                placeholder="Look up another address or SuiNS name (e.g. example.sui)"
+                value={lookup}
+                onChange={(e) => setLookup(e.target.value)}
+                aria-label="Address or SuiNS name"
+              />
+              <button
+                type="submit"
+                disabled={!lookup.trim()}
+                className="rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2 text-xs font-semibold text-white shadow-lg transition-all duration-200 hover:from-indigo-500 hover:to-purple-500 disabled:cursor-not-allowed disabled:opacity-50 sm:text-sm"
+              >
+                Go
+              </button>
+            </form>
+          </header>
+
+          <div className="flex gap-1 self-start rounded-xl border border-slate-700/50 bg-slate-900/50 p-1" role="tablist">
+            {(Object.keys(DIRECTION_LABELS) as TimelineDirection[]).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                role="tab"
+                aria-selected={direction === tab}
+                onClick={() => setDirection(tab)}
+                disabled={loading}
+                className={`rounded-lg px-3 py-1 text-xs font-medium transition-all duration-200 sm:text-sm ${
+                  direction === tab ? "bg-indigo-500/20 text-indigo-200" : "text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {DIRECTION_LABELS[tab]}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="rounded-xl border border-red-500/30 bg-gradient-to-br from-red-950/40 to-red-900/20 p-4 text-xs text-red-200 shadow-lg sm:rounded-2xl sm:p-5 sm:text-sm">
+              <p className="break-words font-medium text-red-100">{error}</p>
+            </div>
+          )}
+
+          {(entries.length > 0 || !loading) && !error && (
+            <TimelineList entries={entries} network={network} />
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <div className="h-6 w-6 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+            </div>
+          )}
+
+          {nextCursor && !loading && (
+            <button
+              type="button"
+              onClick={() => loadPage(nextCursor)}
+              className="self-center rounded-xl border border-slate-700/50 bg-slate-900/50 px-4 py-2 text-xs font-medium text-slate-200 transition-all duration-200 hover:border-indigo-500/50 hover:bg-indigo-500/10 sm:text-sm"
+            >
+              Load older transactions
+            </button>
+          )}
+        </main>
+      </div>
+    </AddressLabelsProvider>
+  );
+}
+
+export default function AddressPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent" />
+      </div>
+    }>
+      <AddressContent />
+    </Suspense>
+  );
+}
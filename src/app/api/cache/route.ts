@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getCacheStats } from "@/lib/cache/explanations";
+
+// Explanation cache hit/miss counters for this server instance
+export async function GET() {
+  return NextResponse.json(await getCacheStats(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,4 @@
+import { listLabels } from "@/lib/api/labels";
+import { apiRoute } from "@/lib/api/route";
+
+export const GET = apiRoute("legacy", "Failed to load labels", listLabels);
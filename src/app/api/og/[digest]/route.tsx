@@ -0,0 +1,133 @@
+import { ImageResponse } from "next/og";
+import { isFinalized } from "@/lib/cache/explanations";
+import { findExplanation } from "@/lib/explain/lookup";
+import { buildExplanationPreview, type ExplanationPreview } from "@/lib/explain/preview";
+import { parseTransactionDigest } from "@/lib/sui/digest";
+import { DEFAULT_NETWORK, parseNetwork } from "@/lib/sui/networks";
+
+// Open Graph card of a transaction page: status, headline, amounts and gas
+
+type RouteParams = {
+  params: Promise<{
+    digest: string;
+  }>;
+};
+
+const CARD_SIZE = { width: 1200, height: 630 };
+
+// Longest headline shown before it is cut off with an ellipsis
+const MAX_HEADLINE_LENGTH = 140;
+
+const STATUS_COLORS: Record<ExplanationPreview["status"], string> = {
+  success: "#34d399",
+  reverted: "#f87171",
+  pending_or_unknown: "#94a3b8",
+};
+
+// Preview images of finalized transactions only change with the SuiNS names and labels they show
+const FINALIZED_CACHE_CONTROL = "public, max-age=600, s-maxage=600, stale-while-revalidate=86400";
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function Card({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        width: "100%",
+        height: "100%",
+        padding: 64,
+        background: "linear-gradient(135deg, #020617 0%, #1e1b4b 55%, #020617 100%)",
+        color: "#e2e8f0",
+        fontSize: 28,
+      }}
+    >
+      <div style={{ display: "flex", fontSize: 26, color: "#a5b4fc", letterSpacing: 1 }}>Sui Transaction Explainer</div>
+      {children}
+    </div>
+  );
+}
+
+function PreviewCard({ preview }: { preview: ExplanationPreview }) {
+  return (
+    <Card>
+      <div style={{ display: "flex", alignItems: "center", gap: 16, marginTop: 36 }}>
+        <div
+          style={{
+            display: "flex",
+            padding: "6px 18px",
+            borderRadius: 999,
+            border: `2px solid ${STATUS_COLORS[preview.status]}`,
+            color: STATUS_COLORS[preview.status],
+            fontSize: 24,
+          }}
+        >
+          {preview.statusLabel}
+        </div>
+        <div style={{ display: "flex", color: "#94a3b8", fontSize: 24 }}>{preview.network}</div>
+      </div>
+      <div style={{ display: "flex", marginTop: 28, fontSize: 44, lineHeight: 1.25, color: "#f8fafc" }}>
+        {truncate(preview.headline, MAX_HEADLINE_LENGTH)}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: 10, marginTop: 28, color: "#c7d2fe" }}>
+        {preview.amounts.map((amount, i) => (
+          <div key={i} style={{ display: "flex" }}>
+            {amount}
+          </div>
+        ))}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginTop: "auto",
+          paddingTop: 24,
+          borderTop: "1px solid #334155",
+          color: "#94a3b8",
+          fontSize: 24,
+        }}
+      >
+        <div style={{ display: "flex" }}>Gas {preview.gas}</div>
+        <div style={{ display: "flex" }}>{preview.digest}</div>
+      </div>
+    </Card>
+  );
+}
+
+function NotFoundCard() {
+  return (
+    <Card>
+      <div style={{ display: "flex", marginTop: 120, fontSize: 48, color: "#f8fafc" }}>Transaction not found</div>
+    </Card>
+  );
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { digest: rawDigest } = await params;
+  const rawNetwork = new URL(request.url).searchParams.get("network");
+  const network = parseNetwork(rawNetwork) ?? DEFAULT_NETWORK;
+  const digest = parseTransactionDigest(rawDigest);
+
+  try {
+    const { entry } = digest ? await findExplanation(network, digest, { previousOwners: false }) : { entry: null };
+    if (entry) {
+      return new ImageResponse(<PreviewCard preview={buildExplanationPreview(entry.explanation)} />, {
+        ...CARD_SIZE,
+        headers: {
+          "Cache-Control": isFinalized(entry.explanation) ? FINALIZED_CACHE_CONTROL : "no-store",
+        },
+      });
+    }
+  } catch (error) {
+    console.error("Error rendering transaction preview:", error);
+  }
+
+  return new ImageResponse(<NotFoundCard />, {
+    ...CARD_SIZE,
+    status: 404,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
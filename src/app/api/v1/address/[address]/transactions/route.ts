@@ -0,0 +1,12 @@
+import { getAddressTransactions } from "@/lib/api/address";
+import { apiRoute } from "@/lib/api/route";
+
+type RouteParams = {
+  params: Promise<{
+    address: string;
+  }>;
+};
+
+export const GET = apiRoute("v1", "Failed to fetch address history", async (request, { params }: RouteParams) =>
+  getAddressTransactions(request, (await params).address),
+);
@@ -0,0 +1,12 @@
+import { explainTransaction } from "@/lib/api/explain";
+import { apiRoute } from "@/lib/api/route";
+
+type RouteParams = {
+  params: Promise<{
+    digest: string;
+  }>;
+};
+
+export const GET = apiRoute("v1", "Failed to explain transaction", async (request, { params }: RouteParams) =>
+  explainTransaction(request, (await params).digest),
+);
@@ -0,0 +1,4 @@
+import { explainTransactions } from "@/lib/api/explain";
+import { apiRoute } from "@/lib/api/route";
+
+export const POST = apiRoute("v1", "Failed to explain transactions", explainTransactions);
@@ -0,0 +1,4 @@
+import { dryRunTransaction } from "@/lib/api/explain";
+import { apiRoute } from "@/lib/api/route";
+
+export const POST = apiRoute("v1", "Failed to dry-run transaction", dryRunTransaction);
@@ -0,0 +1,7 @@
+import { streamFeed } from "@/lib/api/feed";
+import { apiRoute } from "@/lib/api/route";
+
+// Live feed of newly executed transactions as Server-Sent Events
+export const dynamic = "force-dynamic";
+
+export const GET = apiRoute("v1", "Failed to stream feed", streamFeed);
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+// The OpenAPI description of the v1 API, generated from the response schemas
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  DEFAULT_NETWORK,
+  NETWORK_LABELS,
+  SUI_NETWORKS,
+  parseNetwork,
+  type SuiNetwork,
+} from "@/lib/sui/networks";
+import { ACTION_TYPES, type ActionType } from "@/lib/explain/action-types";
+import type { FeedCheckpointResponse, FeedItemResponse } from "@/lib/api/schema";
+import { AddressLabelsProvider } from "@/components/address-labels";
+import { AddressNamesProvider } from "@/components/address-names";
+import { CopyableAddress } from "@/components/copyable-address";
+import { ActionList } from "@/components/explainer";
+import { buildFeedPath, buildSharePath } from "@/components/paths";
+
+// Option label of every action type the feed can filter on
+const ACTION_TYPE_LABELS: Record<ActionType, string> = {
+  COIN_TRANSFER: "Coin transfer",
+  NFT_TRANSFER: "NFT transfer",
+  SWAP: "Swap",
+  STAKING: "Staking",
+  UNSTAKING: "Unstaking",
+  MOVE_CALL: "Move call",
+  CONTRACT_CALL: "Contract call",
+  SPLIT_COINS: "Split coins",
+  MERGE_COINS: "Merge coins",
+  TRANSFER_OBJECTS: "Transfer objects",
+  MAKE_MOVE_VEC: "Make Move vector",
+  PUBLISH: "Publish",
+  UPGRADE: "Upgrade",
+  OBJECT_CREATED: "Object created",
+  OBJECT_MUTATED: "Object mutated",
+  OBJECT_DELETED: "Object deleted",
+  OBJECT_WRAPPED: "Object wrapped",
+  OBJECT_UNWRAPPED: "Object unwrapped",
+  PACKAGE_PUBLISHED: "Package published",
+};
+
+// Filters of the feed API, by query parameter name
+const ADDRESS_FILTERS = [
+  { param: "sender", label: "Sender", placeholder: "0x… sent by" },
+  { param: "recipient", label: "Recipient", placeholder: "0x… received by" },
+  { param: "package", label: "Package", placeholder: "0x… package called" },
+] as const;
+
+type FeedFilters = Record<(typeof ADDRESS_FILTERS)[number]["param"] | "actionType", string>;
+
+const EMPTY_FILTERS: FeedFilters = { sender: "", recipient: "", package: "", actionType: "" };
+
+// Items kept on the page; older ones drop off the bottom
+const MAX_FEED_ITEMS = 50;
+
+function isValidFilterAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{1,64}$/.test(value) && isValidSuiAddress(normalizeSuiAddress(value));
+}
+
+function formatTime(timestampMs: string | null): string {
+  return timestampMs ? new Date(Number(timestampMs)).toLocaleTimeString() : "Unknown time";
+}
+
+function FeedEntry({ item }: { item: FeedItemResponse }) {
+  return (
+    <li className="space-y-3 rounded-xl border border-slate-800/50 bg-slate-900/30 p-3 shadow-lg animate-in fade-in slide-in-from-top-2 sm:rounded-2xl sm:p-4">
+      <AddressNamesProvider names={item.names}>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 text-[10px] text-slate-500 sm:text-xs">
+          <span
+            className={`inline-flex items-center rounded-full px-2 py-0.5 font-semibold ${
+              item.status === "success"
+                ? "bg-emerald-500/15 text-emerald-300 border border-emerald-500/30"
+                : item.status === "reverted"
+                  ? "bg-red-500/15 text-red-300 border border-red-500/30"
+                  : "bg-slate-500/15 text-slate-300 border border-slate-500/30"
+            }`}
+          >
+            {item.status.toUpperCase()}
+          </span>
+          <span>{formatTime(item.timestampMs)}</span>
+          <span className="flex items-center gap-1">
+            by <CopyableAddress address={item.sender} variant="from" />
+          </span>
+          <Link
+            href={buildSharePath(item.digest, item.network)}
+            className="ml-auto font-mono text-indigo-300 transition-colors hover:text-indigo-200"
+          >
+            {item.digest.slice(0, 10)}... →
+          </Link>
+        </div>
+        <ActionList
+          title={null}
+          explanations={item.actionExplanations}
+          actions={item.actions}
+          displayNames={{
+            ...item.names,
+            ...Object.fromEntries(Object.entries(item.labels).map(([address, label]) => [address, label.label])),
+          }}
+        />
+        {item.actions.length === 0 && (
+          <Link
+            href={buildSharePath(item.digest, item.network)}
+            className="block text-xs text-slate-300 hover:text-slate-100 sm:text-sm"
+          >
+            {item.headline}
+          </Link>
+        )}
+      </AddressNamesProvider>
+    </li>
+  );
+}
+
+function FeedContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const network = parseNetwork(searchParams.get("network")) ?? DEFAULT_NETWORK;
+
+  const [filters, setFilters] = useState<FeedFilters>(EMPTY_FILTERS);
+  const [items, setItems] = useState<FeedItemResponse[]>([]);
+  const [checkpoint, setCheckpoint] = useState<FeedCheckpointResponse | null>(null);
+  // Checkpoints jumped over since the feed started, to catch up with the chain
+  const [skippedCheckpoints, setSkippedCheckpoints] = useState(0);
+  const [live, setLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const source = useRef<EventSource | null>(null);
+
+  const stop = useCallback(() => {
+    source.current?.close();
+    source.current = null;
+    setLive(false);
+  }, []);
+
+  // Following stops when the page is left or the network changes
+  useEffect(() => stop, [stop, network]);
+
+  const start = (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = ADDRESS_FILTERS.find(({ param }) => filters[param].trim() && !isValidFilterAddress(filters[param].trim()));
+    if (invalid) {
+      setError(`${invalid.label} must be a 0x-prefixed hex Sui address.`);
+      return;
+    }
+
+    stop();
+    setError(null);
+    setItems([]);
+    setCheckpoint(null);
+    setSkippedCheckpoints(0);
+
+    const query = new URLSearchParams({ network });
+    for (const [param, value] of Object.entries(filters)) {
+      if (value.trim()) query.set(param, value.trim());
+    }
+    const events = new EventSource(`/api/v1/feed?${query.toString()}`);
+    events.addEventListener("checkpoint", (event) => {
+      const next: FeedCheckpointResponse = JSON.parse((event as MessageEvent<string>).data);
+      setCheckpoint(next);
+      setSkippedCheckpoints((total) => total + next.skippedCheckpoints);
+    });
+    events.addEventListener("transaction", (event) => {
+      const item: FeedItemResponse = JSON.parse((event as MessageEvent<string>).data);
+      setItems((current) => [item, ...current].slice(0, MAX_FEED_ITEMS));
+    });
+    // EventSource reconnects by itself; this only reports that the connection dropped
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        setError("The feed connection was closed.");
+        stop();
+      }
+    };
+    source.current = events;
+    setLive(true);
+  };
+
+  return (
+    <AddressLabelsProvider network={network}>
+      <div className="relative flex min-h-screen items-start justify-center overflow-x-hidden bg-gradient-to-br from-slate-950 via-indigo-950 to-slate-950 px-3 py-6 font-sans sm:px-4 sm:py-12">
+        <div className="pointer-events-none fixed inset-0 z-0">
+          <div className="absolute inset-x-0 top-0 h-96 bg-gradient-to-b from-indigo-500/20 via-purple-500/10 to-transparent" />
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(99,102,241,0.1),transparent_70%)]" />
+        </div>
+
+        <main className="relative z-10 flex w-full max-w-5xl flex-col gap-6 overflow-x-hidden rounded-2xl border border-slate-800/50 bg-slate-900/40 p-4 shadow-2xl backdrop-blur-2xl sm:rounded-3xl sm:gap-8 sm:p-8 lg:p-10">
+          <header className="space-y-3 sm:space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <Link
+                href={network === DEFAULT_NETWORK ? "/" : `/?network=${network}`}
+                className="text-xs text-slate-400 transition-colors hover:text-indigo-300 sm:text-sm"
+              >
+                ← Explain a transaction
+              </Link>
+              <span className="inline-flex items-center gap-2 rounded-full border border-indigo-500/30 bg-gradient-to-r from-indigo-500/10 to-purple-500/10 px-3 py-1 text-xs font-medium text-indigo-200 shadow-lg sm:px-4 sm:py-1.5">
+                {live && (
+                  <span className="relative flex h-2 w-2">
+                    <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400 opacity-75" />
+                    <span className="relative inline-flex h-2 w-2 rounded-full bg-emerald-400" />
+                  </span>
+                )}
+                {NETWORK_LABELS[network]}
+              </span>
+            </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <h1 className="bg-gradient-to-r from-slate-50 via-indigo-100 to-slate-50 bg-clip-text text-2xl font-bold tracking-tight text-transparent sm:text-4xl">
+                Live Transactions
+              </h1>
+              <p className="text-xs leading-relaxed text-slate-400 sm:text-sm">
+                Transactions explained as their checkpoints are finalized, newest first.
+              </p>
+            </div>
+          </header>
+
+          <form onSubmit={start} className="space-y-3">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <select
+                value={network}
+                onChange={(e) => router.replace(buildFeedPath(e.target.value as SuiNetwork))}
+                aria-label="Network"
+                className="rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 text-xs text-slate-100 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+              >
+                {SUI_NETWORKS.map((option) => (
+                  <option key={option} value={option}>
+                    {NETWORK_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={filters.actionType}
+                onChange={(e) => setFilters({ ...filters, actionType: e.target.value })}
+                aria-label="Action type"
+                className="rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 text-xs text-slate-100 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+              >
+                <option value="">Any action</option>
+                {ACTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {ACTION_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {ADDRESS_FILTERS.map(({ param, label, placeholder }) => (
+                <input
+                  key={param}
+                  value={filters[param]}
+                  onChange={(e) => setFilters({ ...filters, [param]: e.target.value })}
+                  placeholder={placeholder}
+                  aria-label={label}
+                  className="rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 font-mono text-xs text-slate-100 placeholder:text-slate-500 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="submit"
+                className="rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2 text-xs font-semibold text-white shadow-lg transition-all duration-200 hover:from-indigo-500 hover:to-purple-500 sm:text-sm"
+              >
+                {live ? "Restart" : "Start"}
+              </button>
+              {live && (
+                <button
+                  type="button"
+                  onClick={stop}
+                  className="rounded-xl border border-slate-700/50 bg-slate-900/50 px-4 py-2 text-xs font-medium text-slate-200 transition-all duration-200 hover:border-indigo-500/50 hover:bg-indigo-500/10 sm:text-sm"
+                >
+                  Stop
+                </button>
+              )}
+              {checkpoint && (
+                <span className="text-[10px] text-slate-500 sm:text-xs">
+                  Checkpoint {checkpoint.sequenceNumber} · {checkpoint.transactions} transactions
+                  {checkpoint.skippedTransactions > 0 && ` (${checkpoint.skippedTransactions} not explained)`}
+                  {skippedCheckpoints > 0 && ` · ${skippedCheckpoints} checkpoints skipped to catch up`}
+                </span>
+              )}
+            </div>
+          </form>
+
+          {error && (
+            <div className="rounded-xl border border-red-500/30 bg-gradient-to-br from-red-950/40 to-red-900/20 p-4 text-xs text-red-200 shadow-lg sm:rounded-2xl sm:p-5 sm:text-sm">
+              <p className="break-words font-medium text-red-100">{error}</p>
+            </div>
+          )}
+
+          {live && items.length === 0 && (
+            <p className="rounded-xl border border-slate-800/50 bg-slate-900/30 p-4 text-center text-xs text-slate-400 sm:text-sm">
+              Waiting for matching transactions on {NETWORK_LABELS[network]}...
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <ol className="space-y-3 sm:space-y-4">
+              {items.map((item) => (
+                <FeedEntry key={item.digest} item={item} />
+              ))}
+            </ol>
+          )}
+        </main>
+      </div>
+    </AddressLabelsProvider>
+  );
+}
+
+export default function FeedPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent" />
+      </div>
+    }>
+      <FeedContent />
+    </Suspense>
+  );
+}
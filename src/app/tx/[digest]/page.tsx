@@ -0,0 +1,113 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { Explainer, type ExplainerInitialState } from "@/components/explainer";
+import { buildSharePath } from "@/components/paths";
+import { findExplanation } from "@/lib/explain/lookup";
+import { buildExplanationPreview } from "@/lib/explain/preview";
+import { parseTransactionDigest } from "@/lib/sui/digest";
+import { DEFAULT_NETWORK, NETWORK_LABELS, parseNetwork, type SuiNetwork } from "@/lib/sui/networks";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+
+// Server-rendered page of one transaction, so shared links carry the explanation in their
+// HTML and in their preview card (see /api/og/[digest]).
+
+type TxPageProps = {
+  params: Promise<{ digest: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+type TxPageQuery = {
+  rawDigest: string;
+  network: SuiNetwork;
+  searchAll: boolean;
+};
+
+async function readQuery({ params, searchParams }: TxPageProps): Promise<TxPageQuery> {
+  const [{ digest }, query] = await Promise.all([params, searchParams]);
+  const network = typeof query.network === "string" ? parseNetwork(query.network) : null;
+  return {
+    rawDigest: digest,
+    network: network ?? DEFAULT_NETWORK,
+    searchAll: query.searchAll === "true",
+  };
+}
+
+// React's cache explains the transaction once per request for each caller. The metadata only
+// needs the preview, so it skips the earlier owners of objects and takes any cached analysis.
+const loadTransaction = cache(
+  async (rawDigest: string, network: SuiNetwork, searchAll: boolean, previousOwners: boolean) => {
+    const digest = parseTransactionDigest(rawDigest);
+    if (!digest) {
+      return { digest: null, explanation: null, error: "Invalid transaction digest format." };
+    }
+    try {
+      const { entry, error } = await findExplanation(network, digest, { searchAll, previousOwners });
+      if (error instanceof RpcUnavailableError) {
+        return { digest, explanation: null, error: `${error.message}. Please try again shortly.` };
+      }
+      if (!entry) {
+        const where = searchAll ? "any Sui network" : NETWORK_LABELS[network];
+        return { digest, explanation: null, error: `Transaction not found on ${where}.${error ? ` ${error.message}` : ""}` };
+      }
+      return { digest, explanation: entry.explanation, error: null };
+    } catch (error) {
+      console.error("Error explaining transaction:", error);
+      return { digest, explanation: null, error: "Failed to explain transaction." };
+    }
+  },
+);
+
+export async function generateMetadata(props: TxPageProps): Promise<Metadata> {
+  const { rawDigest, network, searchAll } = await readQuery(props);
+  const { digest, explanation } = await loadTransaction(rawDigest, network, searchAll, false);
+  if (!digest || !explanation) {
+    return { title: "Transaction not found · Sui Transaction Explainer" };
+  }
+
+  const preview = buildExplanationPreview(explanation);
+  const image = {
+    url: `/api/og/${digest}?network=${explanation.network}`,
+    width: 1200,
+    height: 630,
+    alt: preview.headline,
+  };
+  return {
+    title: `${preview.title} · Sui Transaction Explainer`,
+    description: preview.description,
+    alternates: { canonical: buildSharePath(digest, explanation.network) },
+    openGraph: {
+      type: "website",
+      title: preview.title,
+      description: preview.description,
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: preview.title,
+      description: preview.description,
+      images: [image],
+    },
+  };
+}
+
+export default async function TransactionPage(props: TxPageProps) {
+  const { rawDigest, network, searchAll } = await readQuery(props);
+  const { digest, explanation, error } = await loadTransaction(rawDigest, network, searchAll, true);
+
+  // A digest found by searching the other networks lives at its own network's address
+  if (digest && explanation && (searchAll || explanation.network !== network)) {
+    redirect(buildSharePath(digest, explanation.network));
+  }
+
+  // The raw transaction block is not shown and would only bloat the page
+  const initial: ExplainerInitialState = {
+    digest: digest ?? rawDigest,
+    network,
+    result: explanation ? { ...explanation, raw: undefined } : null,
+    error,
+  };
+
+  // Remount for every transaction, so navigating between them starts from fresh state
+  return <Explainer key={`${network}:${initial.digest}`} initial={initial} />;
+}
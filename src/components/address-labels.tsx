@@ -0,0 +1,185 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  labelKey,
+  parseLabel,
+  parseLabelSet,
+  serializeLabelSet,
+  type AddressLabel,
+  type LabelCategory,
+} from "@/lib/labels/labels";
+import { api } from "@/lib/api/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+
+// Address book: the server's label registry (fetched per network) merged with the
+// user's own labels, which live in localStorage and take precedence.
+
+const STORAGE_KEY = "sui-tx-explainer:labels";
+
+export type ResolvedLabel = AddressLabel & { source: "user" | "server" };
+
+type AddressLabelsContextValue = {
+  serverLabels: Record<string, AddressLabel>;
+  userLabels: Record<string, AddressLabel>;
+  // Passing an empty label removes the user's label for the address
+  setUserLabel: (address: string, label: string, category?: LabelCategory) => void;
+  // Merges a label set into the user's labels; returns how many were imported, or null if invalid
+  importLabels: (json: string) => number | null;
+  exportLabels: () => string;
+};
+
+const AddressLabelsContext = createContext<AddressLabelsContextValue>({
+  serverLabels: {},
+  userLabels: {},
+  setUserLabel: () => {},
+  importLabels: () => null,
+  exportLabels: () => serializeLabelSet([]),
+});
+
+// localStorage as an external store: "storage" events cover other tabs, listeners this one
+const NO_LABELS: Record<string, AddressLabel> = {};
+const listeners = new Set<() => void>();
+let snapshot: { stored: string | null; labels: Record<string, AddressLabel> } = {
+  stored: null,
+  labels: NO_LABELS,
+};
+
+function subscribeUserLabels(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+// Parsed once per stored value, so the snapshot stays referentially stable
+function readUserLabels(): Record<string, AddressLabel> {
+  let stored: string | null = null;
+  try {
+    stored = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled; behave as if empty
+  }
+  if (stored !== snapshot.stored) {
+    let labels: AddressLabel[] | null = null;
+    try {
+      labels = stored ? parseLabelSet(JSON.parse(stored)) : null;
+    } catch {
+      // Corrupt entry; ignore it
+    }
+    snapshot = { stored, labels: Object.fromEntries((labels ?? []).map((label) => [label.address, label])) };
+  }
+  return snapshot.labels;
+}
+
+function writeUserLabels(labels: Record<string, AddressLabel>): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeLabelSet(Object.values(labels)));
+  } catch (err) {
+    console.error("Failed to save labels:", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function AddressLabelsProvider({
+  network,
+  children,
+}: {
+  network: SuiNetwork;
+  children: React.ReactNode;
+}) {
+  const [serverLabels, setServerLabels] = useState<Record<string, AddressLabel>>({});
+  // localStorage is not available during server rendering
+  const userLabels = useSyncExternalStore(subscribeUserLabels, readUserLabels, () => NO_LABELS);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .labels({ network })
+      .then(({ labels }) => {
+        if (cancelled) return;
+        setServerLabels(Object.fromEntries(labels.map((label) => [label.address, label])));
+      })
+      .catch((err) => console.error("Failed to load labels:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+
+  const updateUserLabels = useCallback(
+    (update: (current: Record<string, AddressLabel>) => Record<string, AddressLabel>) => {
+      writeUserLabels(update(readUserLabels()));
+    },
+    [],
+  );
+
+  const setUserLabel = useCallback(
+    (address: string, label: string, category: LabelCategory = "personal") => {
+      const key = labelKey(address);
+      if (!key) return;
+      const parsed = parseLabel({ address: key, label, category });
+      updateUserLabels((current) => {
+        const next = { ...current };
+        if (parsed) {
+          next[key] = parsed;
+        } else {
+          delete next[key];
+        }
+        return next;
+      });
+    },
+    [updateUserLabels],
+  );
+
+  const importLabels = useCallback(
+    (json: string) => {
+      let labels: AddressLabel[] | null;
+      try {
+        labels = parseLabelSet(JSON.parse(json));
+      } catch {
+        return null;
+      }
+      if (!labels) return null;
+      const imported = labels;
+      updateUserLabels((current) => ({
+        ...current,
+        ...Object.fromEntries(imported.map((label) => [label.address, label])),
+      }));
+      return imported.length;
+    },
+    [updateUserLabels],
+  );
+
+  const exportLabels = useCallback(() => serializeLabelSet(Object.values(userLabels)), [userLabels]);
+
+  const value = useMemo(
+    () => ({ serverLabels, userLabels, setUserLabel, importLabels, exportLabels }),
+    [serverLabels, userLabels, setUserLabel, importLabels, exportLabels],
+  );
+
+  return <AddressLabelsContext.Provider value={value}>{children}</AddressLabelsContext.Provider>;
+}
+
+export function useAddressLabels(): AddressLabelsContextValue {
+  return useContext(AddressLabelsContext);
+}
+
+// The user's label for the address, else the server's, else null
+export function useAddressLabel(address: string | null | undefined): ResolvedLabel | null {
+  const { serverLabels, userLabels } = useContext(AddressLabelsContext);
+  const key = labelKey(address);
+  if (!key) return null;
+  if (userLabels[key]) return { ...userLabels[key], source: "user" };
+  if (serverLabels[key]) return { ...serverLabels[key], source: "server" };
+  return null;
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// SuiNS names returned with an explanation, keyed by normalized address, so any
+// CopyableAddress inside the provider can show the name instead of the hex address
+const AddressNamesContext = createContext<Record<string, string>>({});
+
+export function AddressNamesProvider({
+  names,
+  children,
+}: {
+  names: Record<string, string> | undefined;
+  children: React.ReactNode;
+}) {
+  return (
+    <AddressNamesContext.Provider value={names ?? {}}>
+      {children}
+    </AddressNamesContext.Provider>
+  );
+}
+
+export function useAddressName(address: string | null | undefined): string | null {
+  const names = useContext(AddressNamesContext);
+  if (!address || !/^0x[0-9a-fA-F]{1,64}$/.test(address)) return null;
+  return names[normalizeSuiAddress(address)] ?? null;
+}
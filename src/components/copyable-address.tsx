@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { MAX_LABEL_LENGTH } from "@/lib/labels/labels";
+import { DEFAULT_NETWORK, parseNetwork } from "@/lib/sui/networks";
+import { useAddressLabel, useAddressLabels } from "./address-labels";
+import { useAddressName } from "./address-names";
+import { shortenAddress } from "./format";
+import { buildAddressPath } from "./paths";
+
+// Copyable Address Component
+type CopyableAddressProps = {
+  address: string | null | undefined;
+  variant?: "from" | "to" | "default";
+  className?: string;
+  // Hide the link to the address history (e.g. on that address's own page)
+  linkToHistory?: boolean;
+  // Allow labelling the address inline
+  editableLabel?: boolean;
+};
+
+export function CopyableAddress({
+  address,
+  variant = "default",
+  className = "",
+  linkToHistory = true,
+  editableLabel = true,
+}: CopyableAddressProps) {
+  const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  // Addresses link to their history on the network currently being viewed
+  const network = parseNetwork(useSearchParams().get("network")) ?? DEFAULT_NETWORK;
+  const name = useAddressName(address);
+  const label = useAddressLabel(address);
+  const { setUserLabel } = useAddressLabels();
+
+  if (!address) {
+    return <span className={className}>unknown</span>;
+  }
+
+  // A label (the user's own, then the server's) wins over the SuiNS name
+  const displayAddress = label?.label ?? name ?? shortenAddress(address);
+  const isAddress = /^0x[0-9a-fA-F]{1,64}$/.test(address);
+  const titleName = [label?.label, name].filter(Boolean).join(" / ");
+
+  // Color variants
+  const colorClasses = {
+    from: "text-blue-600 dark:text-blue-400 font-medium",
+    to: "text-purple-600 dark:text-purple-400 font-medium",
+    default: "text-indigo-600 dark:text-indigo-400 font-medium",
+  };
+
+  const handleCopy = async () => {
+    if (typeof window === "undefined") return;
+    try {
+      await navigator.clipboard.writeText(address);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(label?.source === "user" ? label.label : "");
+    setEditing(true);
+  };
+
+  // An empty label removes the user's label, falling back to the server label or name
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setUserLabel(address, draft);
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="inline-flex items-center gap-1">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setEditing(false);
+          }}
+          onBlur={() => setEditing(false)}
+          placeholder={name ?? shortenAddress(address)}
+          maxLength={MAX_LABEL_LENGTH}
+          aria-label={`Label for ${address}`}
+          className="w-32 rounded-lg border border-indigo-500/50 bg-slate-900/80 px-2 py-0.5 text-[10px] text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500/20 sm:w-40 sm:text-sm"
+        />
+        <button
+          type="submit"
+          onMouseDown={(e) => e.preventDefault()}
+          className="rounded-md px-1 text-[10px] text-emerald-400 hover:bg-emerald-500/10 sm:text-xs"
+          aria-label="Save label"
+        >
+          ✓
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <button
+        onClick={handleCopy}
+        className={`group inline-flex items-center gap-1.5 rounded-lg border border-slate-700/50 bg-slate-900/50 px-2 py-0.5 font-mono text-[10px] transition-all hover:border-indigo-500/50 hover:bg-indigo-500/10 sm:gap-2 sm:px-2.5 sm:py-1 sm:text-sm ${colorClasses[variant]} ${className}`}
+        title={titleName ? `${titleName} — click to copy: ${address}` : `Click to copy: ${address}`}
+      >
+        <span className="truncate max-w-[100px] sm:max-w-none">{displayAddress}</span>
+        {copied ? (
+          <span className="text-[10px] text-emerald-400 shrink-0 sm:text-xs">✓</span>
+        ) : (
+          <span className="text-[10px] text-slate-500 opacity-0 transition-opacity group-hover:opacity-100 shrink-0 sm:text-xs">📋</span>
+        )}
+      </button>
+      {editableLabel && isAddress && (
+        <button
+          type="button"
+          onClick={startEditing}
+          className="rounded-md px-1 text-[10px] text-slate-500 transition-colors hover:bg-indigo-500/10 hover:text-indigo-300 sm:text-xs"
+          title={label?.source === "user" ? "Edit your label" : "Label this address"}
+          aria-label={`Label ${address}`}
+        >
+          ✎
+        </button>
+      )}
+      {linkToHistory && isAddress && (
+        <Link
+          href={buildAddressPath(address, network)}
+          className="rounded-md px-1 text-[10px] text-slate-500 transition-colors hover:bg-indigo-500/10 hover:text-indigo-300 sm:text-xs"
+          title="View explained history of this address"
+          aria-label={`View history of ${address}`}
+        >
+          ↗
+        </Link>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,1731 @@
+"use client";
+
+import { Suspense, useCallback, useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { isValidSuiNSName } from "@mysten/sui/utils";
+import {
+  DEFAULT_NETWORK,
+  NETWORK_LABELS,
+  SUI_NETWORKS,
+  parseNetwork,
+  type SuiNetwork,
+} from "@/lib/sui/networks";
+import { api } from "@/lib/api/client";
+import type { ActionResponse, BatchResponse, ExplanationResponse } from "@/lib/api/schema";
+import type { CoinInfo } from "@/lib/sui/coin-metadata";
+import type { NftInfo } from "@/lib/sui/nft";
+import type { PackageInfo } from "@/lib/sui/packages";
+import type { FiatValue } from "@/lib/explain/fiat";
+import type { MoveCallArgument } from "@/lib/explain/move-args";
+import type { ObjectChange, ObjectOwnerInfo } from "@/lib/explain/objects";
+import { labelKey, type LabelCategory } from "@/lib/labels/labels";
+import { AddressLabelsProvider, useAddressLabel } from "@/components/address-labels";
+import { AddressNamesProvider } from "@/components/address-names";
+import { CopyableAddress } from "@/components/copyable-address";
+import { formatFiat, formatMistToSui, formatNumber, shortenAddress } from "@/components/format";
+import { LabelManager } from "@/components/label-manager";
+import { buildAddressPath, buildExportPath, buildFeedPath, buildSharePath } from "@/components/paths";
+
+// ---- Types of the API response (see src/lib/api/schema.ts) ----
+
+type Summary = ExplanationResponse["summary"];
+type Action = ActionResponse;
+type BalanceDelta = ExplanationResponse["transfers"]["balanceChanges"][number];
+type Failure = NonNullable<ExplanationResponse["failure"]>;
+
+type InputMode = "digest" | "batch" | "bytes";
+
+// ---- Utility helpers (client-side) ----
+
+function formatLargeNumber(num: string): string {
+  try {
+    const n = BigInt(num);
+    if (n === BigInt(0)) return "0";
+    
+    // Format with commas
+    return formatNumber(n.toString(10));
+  } catch {
+    return num;
+  }
+}
+
+function formatCoinAmount(
+  coin: CoinInfo | undefined,
+  rawAmount: string | undefined,
+): { amount: string; symbol: string } {
+  const symbol = coin?.symbol ?? "coins";
+  if (!rawAmount) {
+    return { amount: "0", symbol };
+  }
+
+  // Amounts without metadata are shown in base units
+  const decimals = coin?.decimals ?? 0;
+
+  try {
+    const raw = BigInt(rawAmount);
+    const base = BigInt("1" + "0".repeat(decimals));
+    const whole = raw / base;
+    const frac = raw % base;
+
+    if (frac === BigInt(0)) {
+      return { amount: formatNumber(whole.toString(10)), symbol };
+    }
+
+    const fracStr = frac.toString(10).padStart(decimals, "0").replace(/0+$/, "");
+    return { amount: `${formatNumber(whole.toString(10))}.${fracStr}`, symbol };
+  } catch {
+    return { amount: formatNumber(rawAmount), symbol };
+  }
+}
+
+function extractTxDigest(input: string): string | null {
+  if (!input || typeof input !== "string") return null;
+  
+  // Sui transaction digests can be in two formats:
+  // 1. Base58 encoded (e.g., "GX67hXSgrpKY3u9YoTkRbMG6Zvov4zJzeWdqAhPGnEbo")
+  // 2. Hex format: 64 hex characters (with or without 0x prefix)
+  
+  const trimmed = input.trim();
+  
+  // First, try to find a 64-character hex string (with optional 0x prefix)
+  const hexMatch = trimmed.match(/(?:0x)?([0-9a-fA-F]{64})/i);
+  if (hexMatch) {
+    return hexMatch[1];
+  }
+  
+  // Try to extract hex from URL paths
+  const urlHexMatch = trimmed.match(/[\/=]([0-9a-fA-F]{64})/i);
+  if (urlHexMatch) {
+    return urlHexMatch[1];
+  }
+  
+  // Check for base58 encoded digest (Sui format)
+  // Base58 uses: 123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz (no 0, O, I, l)
+  // Sui base58 digests are typically 32-44 characters
+  const base58Pattern = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  if (base58Pattern.test(trimmed)) {
+    return trimmed;
+  }
+  
+  // Try to extract base58 from URL paths
+  const urlBase58Match = trimmed.match(/[\/=]([1-9A-HJ-NP-Za-km-z]{32,44})/);
+  if (urlBase58Match) {
+    return urlBase58Match[1];
+  }
+  
+  // If input is exactly 64 hex chars (no 0x), return it
+  if (/^[0-9a-fA-F]{64}$/i.test(trimmed)) {
+    return trimmed;
+  }
+  
+  // If input is 66 chars starting with 0x, return the hex part
+  if (/^0x[0-9a-fA-F]{64}$/i.test(trimmed)) {
+    return trimmed.slice(2);
+  }
+  
+  return null;
+}
+
+// Token icon helper
+function getTokenIcon(actionType?: string): string {
+  if (actionType === "ERC721_TRANSFER") return "🖼️";
+  if (actionType === "ERC1155_TRANSFER") return "🖼️";
+  if (actionType === "ERC20_TRANSFER") return "🪙";
+  if (actionType === "CONTRACT_CALL") return "⚙️";
+  if (actionType === "MOVE_CALL") return "⚙️";
+  if (actionType === "SWAP") return "🔄";
+  if (actionType === "NFT_TRANSFER") return "🖼️";
+  if (actionType === "STAKING") return "🔒";
+  if (actionType === "UNSTAKING") return "🔓";
+  if (actionType === "SPLIT_COINS") return "✂️";
+  if (actionType === "MERGE_COINS") return "🧲";
+  if (actionType === "TRANSFER_OBJECTS") return "📦";
+  if (actionType === "MAKE_MOVE_VEC") return "🧩";
+  if (actionType === "PUBLISH") return "🚀";
+  if (actionType === "UPGRADE") return "⬆️";
+  return "📋"; // Default icon
+}
+
+// Coin icon from on-chain metadata, with an emoji fallback
+function CoinIcon({ coin, className = "h-4 w-4" }: { coin?: CoinInfo; className?: string }) {
+  if (!coin?.iconUrl) {
+    return <span className="text-xs">🪙</span>;
+  }
+  return (
+    // Icons are hosted on arbitrary domains, so next/image would need every host allow-listed
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={coin.iconUrl}
+      alt={coin.symbol}
+      title={coin.name}
+      className={`inline-block shrink-0 rounded-full ${className}`}
+    />
+  );
+}
+
+// NFT thumbnail from Display metadata, with an emoji fallback
+function NftThumbnail({ nft, className = "h-10 w-10" }: { nft?: NftInfo; className?: string }) {
+  if (!nft?.imageUrl) {
+    return (
+      <span className={`inline-flex shrink-0 items-center justify-center rounded-lg bg-slate-800 ${className}`}>
+        🖼️
+      </span>
+    );
+  }
+  return (
+    // NFT images are hosted on arbitrary domains and IPFS gateways
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={nft.imageUrl}
+      alt={nft.name ?? "NFT"}
+      className={`shrink-0 rounded-lg border border-slate-700/50 object-cover ${className}`}
+    />
+  );
+}
+
+// Known package a Move call went into, linking to the protocol's website
+function PackageBadge({ pkg }: { pkg: PackageInfo }) {
+  const upgraded = pkg.packageId !== pkg.originalId;
+  const content = (
+    <>
+      {pkg.logoUrl ? (
+        // Logos are hosted on the protocols' own domains
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={pkg.logoUrl} alt="" className="h-4 w-4 shrink-0 rounded-full" />
+      ) : (
+        <span className="flex h-4 w-4 shrink-0 items-center justify-center rounded-full bg-indigo-500/20 text-[9px] font-bold text-indigo-200">
+          {pkg.name.charAt(0)}
+        </span>
+      )}
+      <span className="font-medium text-indigo-200">{pkg.name}</span>
+      {upgraded && <span className="text-slate-500">(upgraded version)</span>}
+    </>
+  );
+
+  return (
+    <div
+      className="inline-flex items-center gap-1.5 rounded-lg border border-indigo-500/20 bg-indigo-500/5 px-2 py-1 text-[10px] sm:text-xs"
+      title={upgraded ? `Package ${pkg.packageId}, upgraded from ${pkg.originalId}` : `Package ${pkg.packageId}`}
+    >
+      {pkg.website ? (
+        <a href={pkg.website} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1.5 hover:underline">
+          {content}
+        </a>
+      ) : (
+        content
+      )}
+    </div>
+  );
+}
+
+// Expandable table of a Move call's arguments with their parameter types
+function MoveCallArguments({ args }: { args: MoveCallArgument[] }) {
+  return (
+    <details className="text-[10px] text-slate-400 sm:text-xs">
+      <summary className="cursor-pointer select-none hover:text-slate-300">
+        {args.length} argument{args.length === 1 ? "" : "s"}
+      </summary>
+      <div className="mt-2 overflow-x-auto rounded-lg border border-slate-700/30">
+        <table className="w-full text-left">
+          <thead className="bg-slate-900/50 text-slate-500">
+            <tr>
+              <th className="px-2 py-1.5 font-medium">Name</th>
+              <th className="px-2 py-1.5 font-medium">Type</th>
+              <th className="px-2 py-1.5 font-medium">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {args.map((arg) => (
+              <tr key={arg.name} className="align-top">
+                <td className="px-2 py-1.5 font-mono text-slate-400">{arg.name}</td>
+                <td className="max-w-[12rem] break-all px-2 py-1.5 font-mono text-indigo-300">
+                  {arg.type ?? <span className="text-slate-500">unknown</span>}
+                </td>
+                <td className="break-all px-2 py-1.5 font-mono text-slate-200">
+                  {arg.kind === "object" ? (
+                    <span title={arg.objectId ?? undefined}>
+                      {arg.value}
+                      {arg.objectType && arg.objectType !== arg.type?.replace(/^&(mut )?/, "") && (
+                        <span className="ml-1.5 text-slate-500">{arg.objectType}</span>
+                      )}
+                    </span>
+                  ) : (
+                    arg.value
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
+
+function NftCard({ nft }: { nft: NftInfo }) {
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-purple-500/20 bg-purple-500/5 p-2.5 text-[10px] text-slate-300 sm:text-xs">
+      <NftThumbnail nft={nft} className="h-14 w-14 sm:h-16 sm:w-16" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="truncate text-xs font-semibold text-purple-200 sm:text-sm">
+          {nft.link ? (
+            <a href={nft.link} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {nft.name ?? "Unnamed NFT"}
+            </a>
+          ) : (
+            (nft.name ?? "Unnamed NFT")
+          )}
+        </p>
+        {nft.collection && <p className="text-slate-400">{nft.collection}</p>}
+        {nft.description && <p className="line-clamp-2 text-slate-500">{nft.description}</p>}
+        <CopyableAddress address={nft.objectId} />
+      </div>
+    </div>
+  );
+}
+
+// ---- Components ----
+
+type TxInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (txHashOrUrl: string) => void;
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  txBytes: string;
+  onTxBytesChange: (txBytes: string) => void;
+  sender: string;
+  onSenderChange: (sender: string) => void;
+  onDryRun: (txBytes: string, sender: string) => void;
+  batchInput: string;
+  onBatchInputChange: (batchInput: string) => void;
+  onBatchSubmit: (batchInput: string) => void;
+  loading: boolean;
+  network: SuiNetwork;
+  onNetworkChange: (network: SuiNetwork) => void;
+  searchAll: boolean;
+  onSearchAllChange: (searchAll: boolean) => void;
+};
+
+function TxInput({
+  value,
+  onChange,
+  onSubmit,
+  mode,
+  onModeChange,
+  txBytes,
+  onTxBytesChange,
+  sender,
+  onSenderChange,
+  onDryRun,
+  batchInput,
+  onBatchInputChange,
+  onBatchSubmit,
+  loading,
+  network,
+  onNetworkChange,
+  searchAll,
+  onSearchAllChange,
+}: TxInputProps) {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "bytes") {
+      onDryRun(txBytes, sender);
+    } else if (mode === "batch") {
+      onBatchSubmit(batchInput);
+    } else {
+      onSubmit(value);
+    }
+  };
+
+  const modeInput = { digest: value, batch: batchInput, bytes: txBytes }[mode];
+
+  const inputClassName =
+    "w-full rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2.5 text-xs text-slate-100 placeholder:text-slate-500 shadow-inner outline-none ring-0 transition-all duration-200 focus:border-indigo-500/50 focus:bg-slate-900/70 focus:ring-2 focus:ring-indigo-500/20 sm:px-4 sm:py-3.5 sm:text-sm";
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Transaction Input
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <form
+        onSubmit={handleSubmit}
+        className="group relative flex flex-col gap-3 rounded-2xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm transition-all duration-300 hover:border-indigo-500/30 hover:shadow-2xl sm:gap-4 sm:p-6"
+      >
+        <div className="flex gap-1 self-start rounded-xl border border-slate-700/50 bg-slate-900/50 p-1" role="tablist">
+          {([
+            ["digest", "Digest"],
+            ["batch", "Multiple digests"],
+            ["bytes", "Transaction bytes"],
+          ] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              type="button"
+              role="tab"
+              aria-selected={mode === tab}
+              onClick={() => onModeChange(tab)}
+              disabled={loading}
+              className={`rounded-lg px-3 py-1 text-xs font-medium transition-all duration-200 sm:text-sm ${
+                mode === tab
+                  ? "bg-indigo-500/20 text-indigo-200"
+                  : "text-slate-400 hover:text-slate-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="text-xs font-medium text-slate-300 sm:text-sm">
+          {mode === "bytes"
+            ? "Paste unsigned transaction bytes (base64) to preview them before signing"
+            : mode === "batch"
+              ? "Paste several transaction digests or Sui Explorer links, one per line"
+              : "Paste a Sui transaction digest or Sui Explorer link, or a SuiNS name to see its history"}
+        </label>
+        <div className="relative">
+          {mode === "bytes" ? (
+            <textarea
+              className={`${inputClassName} min-h-24 font-mono`}
+              placeholder="AAACAAgA6HZIFwAAAAAg..."
+              value={txBytes}
+              onChange={(e) => onTxBytesChange(e.target.value)}
+              disabled={loading}
+            />
+          ) : mode === "batch" ? (
+            <textarea
+              className={`${inputClassName} min-h-32 font-mono`}
+              placeholder={"GX67hXSgrpKY3u9YoTkRbMG6Zvov4zJzeWdqAhPGnEbo\n..."}
+              value={batchInput}
+              onChange={(e) => onBatchInputChange(e.target.value)}
+              disabled={loading}
+            />
+          ) : (
+            <input
+              className={inputClassName}
+              placeholder="GX67hXSgrpKY3u9YoTkRbMG6Zvov4zJzeWdqAhPGnEbo"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={loading}
+            />
+          )}
+          {loading && (
+            <div className="absolute right-3 top-1/2 -translate-y-1/2">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent sm:h-5 sm:w-5" />
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-4">
+          <select
+            className="rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 text-xs text-slate-100 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+            value={network}
+            onChange={(e) => onNetworkChange(e.target.value as SuiNetwork)}
+            disabled={loading}
+            aria-label="Network"
+          >
+            {SUI_NETWORKS.map((n) => (
+              <option key={n} value={n}>
+                {NETWORK_LABELS[n]}
+              </option>
+            ))}
+          </select>
+          {mode === "bytes" ? (
+            <input
+              className="flex-1 rounded-xl border border-slate-700/50 bg-slate-900/50 px-3 py-2 font-mono text-xs text-slate-100 placeholder:text-slate-500 outline-none transition-all duration-200 focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 sm:text-sm"
+              placeholder="Sender address (required for transaction-kind bytes)"
+              value={sender}
+              onChange={(e) => onSenderChange(e.target.value)}
+              disabled={loading}
+              aria-label="Sender"
+            />
+          ) : mode === "digest" ? (
+            <label className="inline-flex items-center gap-2 text-xs text-slate-400 sm:text-sm">
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-900 accent-indigo-500"
+                checked={searchAll}
+                onChange={(e) => onSearchAllChange(e.target.checked)}
+                disabled={loading}
+              />
+              Search all networks if not found
+            </label>
+          ) : null}
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <button
+            type="submit"
+            disabled={loading || !modeInput.trim()}
+            className="group/btn relative inline-flex w-full items-center justify-center gap-2 overflow-hidden rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2.5 text-xs font-semibold text-white shadow-lg transition-all duration-200 hover:from-indigo-500 hover:to-purple-500 hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:shadow-lg sm:w-auto sm:px-6 sm:py-3 sm:text-sm"
+          >
+            <span className="relative z-10 flex items-center gap-2">
+              {loading ? (
+                <>
+                  <div className="h-3 w-3 animate-spin rounded-full border-2 border-white border-t-transparent sm:h-4 sm:w-4" />
+                  <span>Analyzing...</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm sm:text-base">🔍</span>
+                  <span className="hidden sm:inline">
+                    {mode === "bytes"
+                      ? "Simulate Transaction"
+                      : mode === "batch"
+                        ? "Explain Transactions"
+                        : "Explain Transaction"}
+                  </span>
+                  <span className="sm:hidden">{mode === "bytes" ? "Simulate" : "Explain"}</span>
+                </>
+              )}
+            </span>
+            <div className="absolute inset-0 bg-gradient-to-r from-indigo-400 to-purple-400 opacity-0 transition-opacity duration-200 group-hover/btn:opacity-100" />
+          </button>
+          <p className="hidden text-xs text-slate-500 sm:block">
+            Secure • Read-only • No keys required
+          </p>
+          <p className="text-center text-[10px] text-slate-500 sm:hidden">
+            Secure & Read-only
+          </p>
+        </div>
+      </form>
+    </section>
+  );
+}
+
+type ExplanationSummaryProps = {
+  data: ExplanationResponse | null;
+};
+
+function ExplanationSummary({ data }: ExplanationSummaryProps) {
+  const [txDigestCopied, setTxDigestCopied] = useState(false);
+
+  if (!data) return null;
+
+  const { txDigest, status, summary } = data;
+
+  const handleCopyTxDigest = async () => {
+    if (typeof window === "undefined") return;
+    try {
+      await navigator.clipboard.writeText(txDigest);
+      setTxDigestCopied(true);
+      setTimeout(() => setTxDigestCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Summary
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <div className="space-y-3 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:space-y-4 sm:rounded-2xl sm:p-6">
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+          <span
+            className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-[10px] font-semibold shadow-lg sm:gap-2 sm:px-3 sm:py-1.5 sm:text-xs ${
+              status === "success"
+                ? "bg-gradient-to-r from-emerald-500/20 to-green-500/20 text-emerald-300 border border-emerald-500/30"
+                : status === "reverted"
+                  ? "bg-gradient-to-r from-red-500/20 to-rose-500/20 text-red-300 border border-red-500/30"
+                  : "bg-gradient-to-r from-slate-500/20 to-slate-600/20 text-slate-300 border border-slate-500/30"
+            }`}
+          >
+            <span className={`h-1 w-1 rounded-full sm:h-1.5 sm:w-1.5 ${
+              status === "success" ? "bg-emerald-400" : status === "reverted" ? "bg-red-400" : "bg-slate-400"
+            }`} />
+            {status.toUpperCase()}
+          </span>
+          <button
+            onClick={handleCopyTxDigest}
+            className="group inline-flex items-center gap-1.5 rounded-lg border border-slate-700/50 bg-slate-900/50 px-2 py-1 font-mono text-[10px] text-slate-300 transition-all hover:border-indigo-500/50 hover:bg-indigo-500/10 sm:gap-2 sm:px-3 sm:py-1.5 sm:text-xs"
+            title={`Click to copy: ${txDigest}`}
+          >
+            <code className="truncate max-w-[80px] sm:max-w-none">{shortenAddress(txDigest)}</code>
+            {txDigestCopied ? (
+              <span className="text-emerald-400 text-[10px] sm:text-xs">✓</span>
+            ) : (
+              <span className="text-slate-500 text-[10px] group-hover:text-indigo-400 sm:text-xs">📋</span>
+            )}
+          </button>
+        </div>
+        <div className="rounded-lg bg-slate-900/30 p-3 sm:p-4">
+          <p className="text-xs leading-relaxed text-slate-300 sm:text-sm">
+            {data.simulated ? "Transaction would be executed by" : "Transaction executed by"}{" "}
+            <CopyableAddress address={summary.from} variant="from" />.
+            {summary.objectsCreated !== undefined && summary.objectsCreated > 0 && (
+              <span className="ml-1.5 mt-1.5 inline-flex items-center gap-1 rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] font-medium text-emerald-300 border border-emerald-500/30 sm:ml-2 sm:mt-0 sm:gap-1.5 sm:px-2.5 sm:py-1 sm:text-xs">
+                <span>✨</span>
+                <span>{summary.objectsCreated} object{summary.objectsCreated !== 1 ? "s" : ""} created</span>
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+type FailurePanelProps = {
+  failure: Failure | null | undefined;
+};
+
+function FailurePanel({ failure }: FailurePanelProps) {
+  if (!failure) return null;
+
+  const { abort, failedCommand } = failure;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-red-800 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-red-400">
+          Why It Failed
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-red-800 to-transparent" />
+      </div>
+      <div className="space-y-3 rounded-xl border border-red-500/30 bg-gradient-to-br from-red-950/40 to-red-900/20 p-4 shadow-xl backdrop-blur-sm sm:space-y-4 sm:rounded-2xl sm:p-6">
+        <p className="text-xs font-medium leading-relaxed text-red-100 sm:text-sm">
+          {failedCommand
+            ? `Command ${failedCommand.index + 1} (${failedCommand.description}) failed: `
+            : "The transaction failed: "}
+          {failure.cause}.
+        </p>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3 sm:gap-4">
+          <div className="rounded-lg border border-red-500/20 bg-slate-900/30 p-3 sm:rounded-xl">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:text-xs">Error</p>
+            <p className="text-xs font-semibold text-red-200 sm:text-sm">{failure.kind}</p>
+          </div>
+          {abort && (
+            <>
+              <div className="rounded-lg border border-red-500/20 bg-slate-900/30 p-3 sm:rounded-xl">
+                <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:text-xs">Location</p>
+                <p className="break-all font-mono text-[10px] text-slate-300 sm:text-xs">
+                  {shortenAddress(abort.packageId)}::{abort.module}
+                  {abort.function ? `::${abort.function}` : ""}
+                </p>
+              </div>
+              <div className="rounded-lg border border-red-500/20 bg-slate-900/30 p-3 sm:rounded-xl">
+                <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:text-xs">Abort Code</p>
+                <p className="text-xs font-semibold text-slate-200 sm:text-sm">
+                  {abort.code}
+                  {abort.codeName && <span className="ml-1.5 font-mono text-slate-400">{abort.codeName}</span>}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+        <details className="text-[10px] text-slate-400 sm:text-xs">
+          <summary className="cursor-pointer select-none hover:text-slate-300">Raw error</summary>
+          <pre className="mt-2 whitespace-pre-wrap break-all rounded-lg bg-slate-950/50 p-3 font-mono">{failure.error}</pre>
+        </details>
+      </div>
+    </section>
+  );
+}
+
+const PARTY_ICONS: Partial<Record<LabelCategory, string>> = {
+  exchange: "🏦",
+  bridge: "🌉",
+  validator: "🛡️",
+  protocol: "🧩",
+  system: "⚙️",
+};
+
+// Icon for a party to the transaction, by the category of its label
+function PartyIcon({ address }: { address: string }) {
+  const label = useAddressLabel(address);
+  return (
+    <span className="text-xs" title={label ? `${label.label} (${label.category})` : undefined}>
+      {(label && PARTY_ICONS[label.category]) ?? "👤"}
+    </span>
+  );
+}
+
+type TransactionFlowProps = {
+  data: ExplanationResponse | null;
+};
+
+function TransactionFlow({ data }: TransactionFlowProps) {
+  if (!data || !data.actions || data.actions.length === 0) return null;
+
+  // Extract unique transfer flows (from → to)
+  const flows: Array<{
+    from: string;
+    to: string;
+    type: string;
+    label: string;
+    coin?: CoinInfo;
+    fiat?: FiatValue | null;
+    nft?: NftInfo;
+  }> = [];
+  
+  for (const action of data.actions) {
+    if (action.from && action.to && (action.type === "COIN_TRANSFER" || action.type === "NFT_TRANSFER")) {
+      // Check if this flow already exists
+      // NFTs are listed individually so each keeps its thumbnail
+      const exists = action.type !== "NFT_TRANSFER" && flows.some(
+        f => f.from === action.from && f.to === action.to && f.type === action.type
+      );
+      
+      if (!exists) {
+        let label = "";
+        if (action.type === "COIN_TRANSFER") {
+          const { amount, symbol } = formatCoinAmount(action.coin, action.amount);
+          label = `${amount} ${symbol}`;
+        } else if (action.type === "NFT_TRANSFER") {
+          label = action.nft?.name ?? (action.objectId ? `NFT #${action.objectId.slice(0, 8)}` : "NFT");
+        }
+        
+        flows.push({
+          from: action.from,
+          to: action.to,
+          type: action.type,
+          label,
+          coin: action.type === "COIN_TRANSFER" ? action.coin : undefined,
+          fiat: action.type === "COIN_TRANSFER" ? action.fiat : undefined,
+          nft: action.type === "NFT_TRANSFER" ? action.nft : undefined,
+        });
+      }
+    }
+  }
+
+  if (flows.length === 0) return null;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Transaction Flow
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <div className="space-y-4 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:rounded-2xl sm:p-6">
+        {flows.map((flow, idx) => (
+          <div key={idx} className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-4">
+            {/* Mobile: Vertical layout */}
+            <div className="flex flex-col gap-3 sm:hidden">
+              <div className="flex items-center gap-3">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full border-2 border-indigo-500/50 bg-gradient-to-br from-indigo-500/20 to-purple-500/20">
+                  <PartyIcon address={flow.from} />
+                </div>
+                <CopyableAddress address={flow.from} variant="from" className="text-xs" />
+              </div>
+              <div className="flex items-center justify-center gap-2 rounded-lg border border-indigo-500/30 bg-indigo-500/10 px-3 py-2">
+                <span className="text-base">↓</span>
+                {flow.coin && <CoinIcon coin={flow.coin} />}
+                {flow.type === "NFT_TRANSFER" && <NftThumbnail nft={flow.nft} className="h-8 w-8" />}
+                <span className="text-xs font-medium text-indigo-300">{flow.label}</span>
+                <FiatAmount fiat={flow.fiat} />
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full border-2 border-purple-500/50 bg-gradient-to-br from-purple-500/20 to-pink-500/20">
+                  <PartyIcon address={flow.to} />
+                </div>
+                <CopyableAddress address={flow.to} variant="to" className="text-xs" />
+              </div>
+            </div>
+            
+            {/* Desktop: Horizontal layout */}
+            <div className="hidden flex-1 items-center gap-3 sm:flex">
+              <div className="flex flex-col items-center gap-1">
+                <div className="h-10 w-10 rounded-full border-2 border-indigo-500/50 bg-gradient-to-br from-indigo-500/20 to-purple-500/20 flex items-center justify-center">
+                  <PartyIcon address={flow.from} />
+                </div>
+                <CopyableAddress address={flow.from} variant="from" className="text-xs" />
+              </div>
+              
+              <div className="flex-1 flex items-center gap-2">
+                <div className="h-px flex-1 bg-gradient-to-r from-indigo-500/50 to-purple-500/50" />
+                <div className="flex items-center gap-2 rounded-lg border border-indigo-500/30 bg-indigo-500/10 px-3 py-1.5">
+                  <span className="text-lg">→</span>
+                  {flow.coin && <CoinIcon coin={flow.coin} />}
+                  {flow.type === "NFT_TRANSFER" && <NftThumbnail nft={flow.nft} className="h-8 w-8" />}
+                  <span className="text-xs font-medium text-indigo-300">{flow.label}</span>
+                  <FiatAmount fiat={flow.fiat} />
+                </div>
+                <div className="h-px flex-1 bg-gradient-to-r from-purple-500/50 to-indigo-500/50" />
+              </div>
+              
+              <div className="flex flex-col items-center gap-1">
+                <div className="h-10 w-10 rounded-full border-2 border-purple-500/50 bg-gradient-to-br from-purple-500/20 to-pink-500/20 flex items-center justify-center">
+                  <PartyIcon address={flow.to} />
+                </div>
+                <CopyableAddress address={flow.to} variant="to" className="text-xs" />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+type TransactionMetadataProps = {
+  data: ExplanationResponse | null;
+};
+
+function TransactionMetadata({ data }: TransactionMetadataProps) {
+  if (!data) return null;
+
+  const formatDate = (timestamp: string | null | undefined): string => {
+    if (!timestamp) return "N/A";
+    try {
+      const date = new Date(timestamp);
+      return date.toLocaleString("en-US", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        timeZone: "UTC",
+        timeZoneName: "short",
+      });
+    } catch {
+      return timestamp;
+    }
+  };
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Transaction Details
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <div className="grid grid-cols-1 gap-3 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:grid-cols-2 sm:gap-4 sm:rounded-2xl sm:p-6">
+        <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+          <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">
+            Transaction Type
+          </p>
+          <p className="text-xs font-semibold text-slate-200 break-words sm:text-sm">
+            {data.transactionType || "Unknown"}
+          </p>
+        </div>
+        <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+          <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">Digest</p>
+          <p className="font-mono text-[10px] text-slate-300 break-all sm:text-xs">
+            {shortenAddress(data.txDigest)}
+          </p>
+        </div>
+        {data.checkpointSeq && (
+          <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">
+              Checkpoint Seq. Number
+            </p>
+            <p className="text-xs font-semibold text-slate-200 break-words sm:text-sm">
+              {formatLargeNumber(data.checkpointSeq)}
+            </p>
+          </div>
+        )}
+        {data.timestamp && (
+          <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">Timestamp</p>
+            <p className="text-xs font-semibold text-slate-200 break-words sm:text-sm">
+              {formatDate(data.timestamp)}
+            </p>
+          </div>
+        )}
+        <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:col-span-2 sm:rounded-xl sm:p-4">
+          <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">Sender</p>
+          <div className="mt-1">
+            <CopyableAddress address={data.summary.from} variant="from" />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// Fiat value of an amount at the transaction's time; the tooltip names the price and its source
+function FiatAmount({ fiat, className = "" }: { fiat: FiatValue | null | undefined; className?: string }) {
+  if (!fiat) return null;
+  const pricedAt = fiat.priceTimestampMs ? ` at ${new Date(Number(fiat.priceTimestampMs)).toISOString()}` : "";
+  return (
+    <span
+      className={`font-normal text-slate-500 ${className}`}
+      title={`1 coin = ${formatFiat(fiat.price, fiat.currency)} (${fiat.source}${pricedAt})`}
+    >
+      ≈ {formatFiat(fiat.value, fiat.currency)}
+    </span>
+  );
+}
+
+function SwapDetails({ swap }: { swap: NonNullable<Action["swap"]> }) {
+  const amountIn = formatCoinAmount(swap.coinInInfo, swap.amountIn);
+  const amountOut = formatCoinAmount(swap.coinOutInfo, swap.amountOut);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-indigo-500/20 bg-indigo-500/5 px-3 py-2 text-[10px] text-slate-300 sm:text-xs">
+      <span className="rounded-full bg-indigo-500/20 px-2 py-0.5 font-semibold text-indigo-200">
+        {swap.protocolName}
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <CoinIcon coin={swap.coinInInfo} />
+        {amountIn.amount} {amountIn.symbol}
+        <FiatAmount fiat={swap.fiatIn} />
+      </span>
+      <span className="text-slate-500">→</span>
+      <span className="inline-flex items-center gap-1">
+        <CoinIcon coin={swap.coinOutInfo} />
+        {amountOut.amount} {amountOut.symbol}
+        <FiatAmount fiat={swap.fiatOut} />
+      </span>
+      {swap.effectivePrice && (
+        <span className="text-slate-400">
+          1 {amountIn.symbol} ≈ {swap.effectivePrice} {amountOut.symbol}
+        </span>
+      )}
+      {swap.pool && (
+        <span className="inline-flex items-center gap-1 text-slate-400">
+          pool <CopyableAddress address={swap.pool} />
+        </span>
+      )}
+    </div>
+  );
+}
+
+function StakingDetails({
+  staking,
+  coin,
+}: {
+  staking: NonNullable<Action["staking"]>;
+  coin?: CoinInfo;
+}) {
+  const reward = staking.reward ? formatCoinAmount(coin, staking.reward) : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-emerald-500/20 bg-emerald-500/5 px-3 py-2 text-[10px] text-slate-300 sm:text-xs">
+      {staking.validatorImageUrl && (
+        // Validator images are hosted on arbitrary domains
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={staking.validatorImageUrl}
+          alt={staking.validatorName ?? "validator"}
+          className="h-4 w-4 rounded-full"
+        />
+      )}
+      <span className="font-semibold text-emerald-200">
+        {staking.validatorName ?? "Unknown validator"}
+      </span>
+      {staking.validatorAddress && <CopyableAddress address={staking.validatorAddress} />}
+      {reward && (
+        <span className="text-emerald-300">
+          +{reward.amount} {reward.symbol} reward <FiatAmount fiat={staking.rewardFiat} />
+        </span>
+      )}
+      {staking.stakedSuiId && (
+        <span className="inline-flex items-center gap-1 text-slate-400">
+          StakedSui <CopyableAddress address={staking.stakedSuiId} />
+        </span>
+      )}
+    </div>
+  );
+}
+
+type ActionListProps = {
+  explanations: string[] | null;
+  actions: Action[] | null;
+  // Label or SuiNS name the server used for each normalized address in the explanations
+  displayNames: Record<string, string>;
+  // Section heading; null leaves it out, e.g. for the items of the live feed
+  title?: string | null;
+};
+
+export function ActionList({ explanations, actions, displayNames, title = "Actions" }: ActionListProps) {
+  // Object changes are listed in the Objects section instead
+  const rows = (explanations ?? [])
+    .map((line, idx) => ({ line, action: actions?.[idx] }))
+    .filter(({ action }) => !action || !OBJECT_ACTION_TYPES.has(action.type));
+  if (rows.length === 0) return null;
+
+  const displayName = (address: string) => displayNames[labelKey(address) ?? ""] ?? shortenAddress(address);
+
+  // Helper to render explanation with copyable addresses
+  const renderExplanation = (line: string, action: Action | undefined) => {
+    if (!action) return <span>{line}</span>;
+
+    // Build a map of displayed names (labels, SuiNS names or shortened addresses) to full addresses
+    const addressMap = new Map<string, { address: string; variant: "from" | "to" }>();
+    
+    if (action.from) {
+      addressMap.set(displayName(action.from), {
+        address: action.from,
+        variant: "from",
+      });
+    }
+    if (action.to) {
+      addressMap.set(displayName(action.to), {
+        address: action.to,
+        variant: "to",
+      });
+    }
+
+    // Try to find and replace addresses; names are matched literally, longest first
+    const names = Array.from(addressMap.keys())
+      .filter((key) => !/^0x[a-fA-F0-9]{4}\.\.\.[a-fA-F0-9]{4}$/.test(key))
+      .sort((a, b) => b.length - a.length)
+      .map((key) => key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const addressPattern = new RegExp([...names, "0x[a-fA-F0-9]{4}\\.\\.\\.[a-fA-F0-9]{4}"].join("|"), "g");
+    const parts: (string | React.ReactElement)[] = [];
+    let lastIndex = 0;
+    let match;
+    let matchIndex = 0;
+
+    while ((match = addressPattern.exec(line)) !== null) {
+      // Add text before the address
+      if (match.index > lastIndex) {
+        parts.push(line.slice(lastIndex, match.index));
+      }
+
+      const shortenedAddr = match[0];
+      const addressInfo = addressMap.get(shortenedAddr);
+
+      if (addressInfo) {
+        // Add the copyable address component
+        parts.push(
+          <CopyableAddress
+            key={`addr-${matchIndex}`}
+            address={addressInfo.address}
+            variant={addressInfo.variant}
+          />,
+        );
+      } else {
+        // Fallback: just show the text
+        parts.push(shortenedAddr);
+      }
+
+      lastIndex = match.index + match[0].length;
+      matchIndex++;
+    }
+
+    // Add remaining text
+    if (lastIndex < line.length) {
+      parts.push(line.slice(lastIndex));
+    }
+
+    return parts.length > 0 ? <>{parts}</> : <span>{line}</span>;
+  };
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      {title !== null && (
+        <div className="flex items-center gap-2">
+          <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+            {title}
+          </h2>
+          <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        </div>
+      )}
+      <ol className="space-y-2 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:space-y-3 sm:rounded-2xl sm:p-6">
+        {rows.map(({ line, action }, idx) => {
+          const icon = getTokenIcon(action?.type);
+
+          return (
+            <li
+              key={idx}
+              className="group flex items-start gap-2.5 rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 text-xs text-slate-300 transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:gap-4 sm:rounded-xl sm:p-4 sm:text-sm"
+            >
+              <div className="flex h-6 w-6 shrink-0 items-center justify-center rounded-md bg-gradient-to-br from-indigo-500/20 to-purple-500/20 text-[10px] font-bold text-indigo-300 shadow-lg sm:h-7 sm:w-7 sm:rounded-lg sm:text-xs">
+                {idx + 1}
+              </div>
+              <div className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center text-sm sm:mt-0 sm:h-6 sm:w-6 sm:text-lg">
+                {action?.coin?.iconUrl ? <CoinIcon coin={action.coin} className="h-5 w-5 sm:h-6 sm:w-6" /> : icon}
+              </div>
+              <div className="flex-1 space-y-2">
+                <span className="break-words leading-relaxed">{renderExplanation(line, action)}</span>
+                {action?.fiat && <FiatAmount fiat={action.fiat} className="ml-2" />}
+                {action?.swap && <SwapDetails swap={action.swap} />}
+                {action?.nft && <NftCard nft={action.nft} />}
+                {action?.package && <PackageBadge pkg={action.package} />}
+                {action?.arguments && action.arguments.length > 0 && <MoveCallArguments args={action.arguments} />}
+                {action?.staking && <StakingDetails staking={action.staking} coin={action.coin} />}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
+
+// Export formats of the explain API, with the file extension each is saved under
+const EXPORT_OPTIONS = [
+  { format: "markdown", label: "Markdown", extension: "md" },
+  { format: "json", label: "JSON", extension: "json" },
+  { format: "csv", label: "CSV", extension: "csv" },
+];
+
+function ExportLinks({ digest, network }: { digest: string; network: SuiNetwork }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[10px] sm:text-xs">
+      <span className="text-slate-400">Export</span>
+      {EXPORT_OPTIONS.map(({ format, label, extension }) => (
+        <a
+          key={format}
+          href={buildExportPath(digest, network, format)}
+          download={`sui-tx-${digest}.${extension}`}
+          className="rounded-lg border border-slate-700/50 bg-slate-900/50 px-2.5 py-1 font-medium text-slate-300 transition-colors hover:border-indigo-500/50 hover:text-indigo-200"
+        >
+          {label}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// Action types listed in the Objects section, mirroring the API's object-change actions
+const OBJECT_ACTION_TYPES = new Set([
+  "OBJECT_CREATED",
+  "OBJECT_MUTATED",
+  "OBJECT_DELETED",
+  "OBJECT_WRAPPED",
+  "OBJECT_UNWRAPPED",
+  "PACKAGE_PUBLISHED",
+]);
+
+const OBJECT_GROUPS: Array<{ kind: ObjectChange["kind"]; title: string; className: string }> = [
+  { kind: "created", title: "Created", className: "text-emerald-300" },
+  { kind: "mutated", title: "Mutated", className: "text-indigo-300" },
+  { kind: "unwrapped", title: "Unwrapped", className: "text-cyan-300" },
+  { kind: "wrapped", title: "Wrapped", className: "text-amber-300" },
+  { kind: "deleted", title: "Deleted", className: "text-red-300" },
+];
+
+function ObjectOwner({ owner }: { owner: ObjectOwnerInfo | null }) {
+  if (!owner) return <span className="text-slate-600">—</span>;
+  switch (owner.kind) {
+    case "address":
+    case "consensus":
+      return <CopyableAddress address={owner.address} className="text-[10px] sm:text-xs" />;
+    case "object":
+      return (
+        <span className="font-mono text-slate-400" title={owner.address ?? undefined}>
+          object {shortenAddress(owner.address)}
+        </span>
+      );
+    default:
+      return <span className="text-slate-400">{owner.kind}</span>;
+  }
+}
+
+function ObjectChanges({ actions }: { actions: Action[] | null }) {
+  const changes = (actions ?? []).flatMap((action) => (action.object ? [action.object] : []));
+  const published = (actions ?? []).flatMap((action) => (action.published ? [action.published] : []));
+  if (changes.length === 0 && published.length === 0) return null;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Objects
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <div className="space-y-4 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 text-[10px] text-slate-300 shadow-xl backdrop-blur-sm sm:rounded-2xl sm:p-6 sm:text-xs">
+        {published.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-purple-300">Published ({published.length})</h3>
+            {published.map((pkg) => (
+              <div key={pkg.packageId} className="rounded-lg border border-slate-700/30 bg-slate-900/30 p-3">
+                <p className="break-all font-mono text-slate-200">{pkg.packageId}</p>
+                <p className="mt-1 text-slate-400">
+                  {pkg.modules.length} module{pkg.modules.length === 1 ? "" : "s"}:{" "}
+                  <span className="font-mono text-slate-300">{pkg.modules.join(", ")}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        {OBJECT_GROUPS.map(({ kind, title, className }) => {
+          const group = changes.filter((change) => change.kind === kind);
+          if (group.length === 0) return null;
+          return (
+            <details key={kind} open={kind !== "mutated"} className="space-y-2">
+              <summary className={`cursor-pointer select-none font-semibold ${className}`}>
+                {title} ({group.length})
+              </summary>
+              <div className="mt-2 overflow-x-auto rounded-lg border border-slate-700/30">
+                <table className="w-full text-left">
+                  <thead className="bg-slate-900/50 text-slate-500">
+                    <tr>
+                      <th className="px-2 py-1.5 font-medium">Object</th>
+                      <th className="px-2 py-1.5 font-medium">Type</th>
+                      <th className="px-2 py-1.5 font-medium">Owner before</th>
+                      <th className="px-2 py-1.5 font-medium">Owner after</th>
+                      <th className="px-2 py-1.5 font-medium">Version</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50">
+                    {group.map((change) => (
+                      <tr key={change.objectId} className="align-top">
+                        <td className="px-2 py-1.5 font-mono text-slate-200" title={change.objectId}>
+                          {shortenAddress(change.objectId)}
+                        </td>
+                        <td className="max-w-[16rem] break-all px-2 py-1.5 font-mono text-slate-400">
+                          {change.objectType ?? "unknown"}
+                        </td>
+                        <td className="px-2 py-1.5"><ObjectOwner owner={change.ownerBefore} /></td>
+                        <td className="px-2 py-1.5"><ObjectOwner owner={change.ownerAfter} /></td>
+                        <td className="whitespace-nowrap px-2 py-1.5 font-mono text-slate-400">
+                          {change.previousVersion ? `${change.previousVersion} → ${change.version}` : change.version}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+type BalanceChangesProps = {
+  deltas: BalanceDelta[] | null;
+};
+
+function BalanceChanges({ deltas }: BalanceChangesProps) {
+  if (!deltas || deltas.length === 0) return null;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Balance Changes
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <ul className="space-y-2 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:space-y-3 sm:rounded-2xl sm:p-6">
+        {deltas.map((delta, idx) => {
+          const negative = delta.amount.startsWith("-");
+          const { amount, symbol } = formatCoinAmount(
+            delta.coin,
+            negative ? delta.amount.slice(1) : delta.amount,
+          );
+
+          return (
+            <li
+              key={idx}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 text-xs text-slate-300 sm:rounded-xl sm:p-4 sm:text-sm"
+            >
+              <CopyableAddress address={delta.owner} />
+              <span className={`inline-flex items-center gap-1.5 font-semibold ${negative ? "text-red-300" : "text-emerald-300"}`}>
+                <CoinIcon coin={delta.coin} />
+                {negative ? "-" : "+"}
+                {amount} {symbol}
+                <FiatAmount fiat={delta.fiat} />
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+type BatchResultsProps = {
+  data: BatchResponse | null;
+};
+
+function BatchResults({ data }: BatchResultsProps) {
+  if (!data) return null;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Batch Results
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <p className="text-xs text-slate-400 sm:text-sm">
+        {data.succeeded} of {data.total} explained
+        {data.failed > 0 && <span className="text-red-300"> • {data.failed} failed</span>}
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-slate-800/50 bg-slate-900/30 sm:rounded-2xl">
+        <table className="w-full text-left text-[10px] sm:text-xs">
+          <thead className="border-b border-slate-800/50 text-slate-400">
+            <tr>
+              <th className="px-3 py-2 font-semibold">Digest</th>
+              <th className="px-3 py-2 font-semibold">Status</th>
+              <th className="px-3 py-2 font-semibold">Explanation</th>
+              <th className="px-3 py-2 text-right font-semibold">Gas</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {data.results.map((result, i) => (
+              <tr key={`${result.digest}-${i}`} className="align-top">
+                <td className="px-3 py-2 font-mono">
+                  {result.ok ? (
+                    <a
+                      href={buildSharePath(result.digest, data.network)}
+                      className="text-indigo-300 hover:text-indigo-200"
+                      title={result.digest}
+                    >
+                      {result.digest.slice(0, 10)}...
+                    </a>
+                  ) : (
+                    <span className="text-slate-400" title={result.digest}>
+                      {result.digest.slice(0, 10)}...
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  {result.ok ? (
+                    <span
+                      className={
+                        result.explanation.status === "success"
+                          ? "text-emerald-300"
+                          : result.explanation.status === "reverted"
+                            ? "text-red-300"
+                            : "text-slate-300"
+                      }
+                    >
+                      {result.explanation.status.toUpperCase()}
+                    </span>
+                  ) : (
+                    <span className="text-red-300">ERROR</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-slate-200">
+                  {result.ok ? result.headline : <span className="text-red-200">{result.error}</span>}
+                </td>
+                <td className="whitespace-nowrap px-3 py-2 text-right font-mono text-slate-300">
+                  {result.ok ? formatMistToSui(result.explanation.summary.gasUsed?.total) : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+type GasBreakdownProps = {
+  summary: Summary | null;
+  gas: ExplanationResponse["gas"] | null;
+};
+
+function GasDetail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-3 py-1.5">
+      <dt className="shrink-0 text-slate-500">{label}</dt>
+      <dd className="min-w-0 text-right text-slate-200">{children}</dd>
+    </div>
+  );
+}
+
+function GasBreakdown({ summary, gas }: GasBreakdownProps) {
+  if (!summary) return null;
+
+  const totalSui = formatMistToSui(summary.gasUsed.total);
+  const computationCost = formatMistToSui(summary.gasUsed.computationCost);
+  const storageCost = formatMistToSui(summary.gasUsed.storageCost);
+  const storageRebate = formatMistToSui(summary.gasUsed.storageRebate);
+  const budgetUsed = gas?.budgetUsedPercent ?? null;
+
+  return (
+    <section className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-2">
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Gas Breakdown
+        </h2>
+        <div className="h-px flex-1 bg-gradient-to-r from-transparent via-slate-700 to-transparent" />
+      </div>
+      <div className="space-y-3 rounded-xl border border-slate-800/50 bg-gradient-to-br from-slate-800/40 to-slate-900/40 p-4 shadow-xl backdrop-blur-sm sm:space-y-4 sm:rounded-2xl sm:p-6">
+        {gas?.sponsored && gas.sponsor && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border border-amber-500/20 bg-amber-500/5 p-3 text-xs text-amber-200 sm:rounded-xl sm:text-sm">
+            <span className="rounded bg-amber-500/20 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wider">
+              Sponsored
+            </span>
+            <span>Gas paid by sponsor</span>
+            <CopyableAddress address={gas.sponsor} className="text-xs sm:text-sm" />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between rounded-lg border border-indigo-500/20 bg-gradient-to-r from-indigo-500/10 to-purple-500/10 p-3 sm:rounded-xl sm:p-4">
+          <span className="text-xs font-medium text-slate-300 sm:text-sm">
+            Total Gas Cost
+          </span>
+          <span className="text-right">
+            <span className="block text-base font-bold text-indigo-300 sm:text-lg">{totalSui}</span>
+            <FiatAmount fiat={gas?.fiat} />
+          </span>
+        </div>
+        
+        <div className="grid grid-cols-1 gap-3 border-t border-slate-700/50 pt-3 sm:grid-cols-3 sm:gap-4 sm:pt-4">
+          <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 text-center transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">
+              Computation
+            </p>
+            <p className="text-xs font-semibold text-slate-200 sm:text-sm">
+              {computationCost}
+            </p>
+          </div>
+          <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 text-center transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">
+              Storage
+            </p>
+            <p className="text-xs font-semibold text-slate-200 sm:text-sm">
+              {storageCost}
+            </p>
+          </div>
+          <div className="group rounded-lg border border-slate-700/30 bg-slate-900/30 p-3 text-center transition-all hover:border-indigo-500/30 hover:bg-slate-900/50 sm:rounded-xl sm:p-4">
+            <p className="mb-1.5 text-[10px] font-medium uppercase tracking-wider text-slate-500 sm:mb-2 sm:text-xs">
+              Storage Rebate
+            </p>
+            <p className="text-xs font-semibold text-emerald-300 sm:text-sm">
+              -{storageRebate}
+            </p>
+          </div>
+        </div>
+
+        {gas && (
+          <dl className="divide-y divide-slate-800/60 border-t border-slate-700/50 pt-2 text-[10px] sm:text-xs">
+            <GasDetail label="Budget">
+              {formatMistToSui(gas.budget)}
+              {budgetUsed !== null && (
+                <span className="ml-2 text-slate-500">({budgetUsed}% used)</span>
+              )}
+            </GasDetail>
+            {budgetUsed !== null && (
+              <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+                <div
+                  className={`h-full rounded-full ${budgetUsed > 90 ? "bg-amber-400" : "bg-indigo-400"}`}
+                  style={{ width: `${Math.min(budgetUsed, 100)}%` }}
+                />
+              </div>
+            )}
+            <GasDetail label="Gas price">
+              {formatLargeNumber(gas.price)} MIST per unit
+              {gas.referenceGasPrice !== null && (
+                <span className="ml-2 text-slate-500">
+                  (reference {formatLargeNumber(gas.referenceGasPrice)}
+                  {gas.priceMultiplier !== null && gas.priceMultiplier !== 1 && `, ${gas.priceMultiplier}×`})
+                </span>
+              )}
+            </GasDetail>
+            <GasDetail label="Non-refundable storage fee">
+              {formatMistToSui(gas.nonRefundableStorageFee)}
+            </GasDetail>
+            <GasDetail label="Gas owner">
+              <CopyableAddress address={gas.owner} className="text-[10px] sm:text-xs" />
+            </GasDetail>
+            <GasDetail label={`Payment coin${gas.payment.length === 1 ? "" : "s"}`}>
+              <span className="flex flex-col items-end gap-1">
+                {gas.payment.map((coin) => (
+                  <span key={coin.objectId} className="font-mono text-slate-400" title={coin.objectId}>
+                    {shortenAddress(coin.objectId)}
+                    <span className="ml-1 text-slate-600">v{coin.version}</span>
+                  </span>
+                ))}
+                {gas.payment.length === 0 && <span className="text-slate-600">—</span>}
+              </span>
+            </GasDetail>
+          </dl>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// ---- Page ----
+
+// A transaction explained on the server, for pages rendered at /tx/<digest>
+export type ExplainerInitialState = {
+  digest: string;
+  network: SuiNetwork;
+  result: ExplanationResponse | null;
+  error: string | null;
+};
+
+function HomeContent({ initial }: { initial?: ExplainerInitialState }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [input, setInput] = useState(initial?.digest ?? "");
+  const [loading, setLoading] = useState(false);
+  // Explaining a digest navigates to its server-rendered page
+  const [navigating, startNavigation] = useTransition();
+  const [error, setError] = useState<string | null>(initial?.error ?? null);
+  const [result, setResult] = useState<ExplanationResponse | null>(initial?.result ?? null);
+  const [copied, setCopied] = useState(false);
+  const [network, setNetwork] = useState<SuiNetwork>(
+    () => initial?.network ?? parseNetwork(searchParams.get("network")) ?? DEFAULT_NETWORK,
+  );
+  const [searchAll, setSearchAll] = useState(false);
+  const [mode, setMode] = useState<InputMode>("digest");
+  const [txBytes, setTxBytes] = useState("");
+  const [sender, setSender] = useState("");
+  const [batchInput, setBatchInput] = useState("");
+  const [batchResult, setBatchResult] = useState<BatchResponse | null>(null);
+
+  const handleExplain = useCallback((raw: string, selectedNetwork: SuiNetwork = network) => {
+    setError(null);
+    setResult(null);
+    setBatchResult(null);
+
+    const digest = extractTxDigest(raw.trim());
+    // A SuiNS name opens that account's history instead
+    if (!digest && isValidSuiNSName(raw.trim())) {
+      router.push(buildAddressPath(raw.trim(), selectedNetwork));
+      return;
+    }
+    if (!digest) {
+      setError(
+        `Invalid transaction digest format. Please paste a Sui transaction digest (base58 or hex format) or a Sui Explorer link.\n\nExamples:\n- Base58: GX67hXSgrpKY3u9YoTkRbMG6Zvov4zJzeWdqAhPGnEbo\n- Hex: 0x... (64 hex chars)\n- URL: https://suiexplorer.com/txblock/...`
+      );
+      return;
+    }
+
+    // The transaction page explains it on the server, trying the other networks if asked to
+    startNavigation(() => {
+      router.push(buildSharePath(digest, selectedNetwork, searchAll), { scroll: false });
+    });
+  }, [router, network, searchAll]);
+
+  const handleDryRun = useCallback(async (rawBytes: string, rawSender: string) => {
+    setError(null);
+    setResult(null);
+    setBatchResult(null);
+    setLoading(true);
+    try {
+      setResult(
+        await api.dryRun(
+          { txBytes: rawBytes.trim(), sender: rawSender.trim() || undefined },
+          { network },
+        ),
+      );
+    } catch (e) {
+      setError(
+        e instanceof Error ? e.message : "Unexpected error while simulating transaction.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [network]);
+
+  const handleBatch = useCallback(async (raw: string) => {
+    setError(null);
+    setResult(null);
+    setBatchResult(null);
+
+    // Anything that is not a digest is still sent, so the API reports it on its row
+    const digests = raw
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((entry) => extractTxDigest(entry) ?? entry);
+    if (digests.length === 0) return;
+
+    setLoading(true);
+    try {
+      setBatchResult(await api.explainBatch(digests, { network }));
+    } catch (e) {
+      setError(
+        e instanceof Error ? e.message : "Unexpected error while explaining transactions.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [network]);
+
+  const handleShare = useCallback(() => {
+    if (!result?.txDigest || typeof window === "undefined") return;
+
+    const url = `${window.location.origin}${buildSharePath(result.txDigest, result.network)}`;
+    navigator.clipboard.writeText(url).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  }, [result]);
+
+  return (
+    <AddressLabelsProvider network={network}>
+      <div className="relative flex min-h-screen items-start justify-center overflow-x-hidden bg-gradient-to-br from-slate-950 via-indigo-950 to-slate-950 px-3 py-6 font-sans sm:px-4 sm:py-12">
+        {/* Animated background gradients */}
+        <div className="pointer-events-none fixed inset-0 z-0">
+          <div className="absolute inset-x-0 top-0 h-96 bg-gradient-to-b from-indigo-500/20 via-purple-500/10 to-transparent" />
+          <div className="absolute inset-x-0 top-1/4 h-96 bg-gradient-to-b from-cyan-500/10 via-blue-500/5 to-transparent" />
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(99,102,241,0.1),transparent_70%)]" />
+        </div>
+      
+        <main className="relative z-10 flex w-full max-w-5xl flex-col gap-6 overflow-x-hidden rounded-2xl border border-slate-800/50 bg-slate-900/40 p-4 shadow-2xl backdrop-blur-2xl transition-all duration-300 hover:border-slate-700/50 sm:rounded-3xl sm:gap-8 sm:p-8 lg:p-10">
+          <header className="space-y-3 sm:space-y-4">
+            <div className="inline-flex items-center gap-2 rounded-full border border-indigo-500/30 bg-gradient-to-r from-indigo-500/10 to-purple-500/10 px-3 py-1 text-xs font-medium text-indigo-200 shadow-lg backdrop-blur-sm sm:px-4 sm:py-1.5">
+              <span className="relative flex h-2 w-2">
+                <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400 opacity-75" />
+                <span className="relative inline-flex h-2 w-2 rounded-full bg-emerald-400" />
+              </span>
+              <span>{NETWORK_LABELS[network]}</span>
+            </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <h1 className="bg-gradient-to-r from-slate-50 via-indigo-100 to-slate-50 bg-clip-text text-2xl font-bold tracking-tight text-transparent sm:text-4xl lg:text-5xl">
+                Sui Transaction Explainer
+              </h1>
+              <p className="text-xs leading-relaxed text-slate-400 sm:text-sm sm:max-w-2xl">
+                Decode Sui transactions with human-readable explanations. 
+                Understand coin transfers, object movements, and gas costs at a glance.
+              </p>
+              <Link
+                href={buildFeedPath(network)}
+                className="inline-block text-xs text-indigo-300 transition-colors hover:text-indigo-200 sm:text-sm"
+              >
+                Watch live transactions →
+              </Link>
+            </div>
+          </header>
+
+          <TxInput
+            value={input}
+            onChange={setInput}
+            onSubmit={handleExplain}
+            mode={mode}
+            onModeChange={setMode}
+            txBytes={txBytes}
+            onTxBytesChange={setTxBytes}
+            sender={sender}
+            onSenderChange={setSender}
+            onDryRun={handleDryRun}
+            batchInput={batchInput}
+            onBatchInputChange={setBatchInput}
+            onBatchSubmit={handleBatch}
+            loading={loading || navigating}
+            network={network}
+            onNetworkChange={setNetwork}
+            searchAll={searchAll}
+            onSearchAllChange={setSearchAll}
+          />
+
+          {error && (
+            <div className="animate-in fade-in slide-in-from-top-2 rounded-xl border border-red-500/30 bg-gradient-to-br from-red-950/40 to-red-900/20 p-4 text-xs text-red-200 shadow-lg backdrop-blur-sm sm:rounded-2xl sm:p-5 sm:text-sm">
+              <div className="flex items-start gap-2 sm:gap-3">
+                <div className="mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded-full bg-red-500/20 sm:h-5 sm:w-5">
+                  <span className="text-sm text-red-400 sm:text-base">⚠</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="break-words font-medium text-red-100">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {result?.simulated && (
+            <div className="animate-in fade-in slide-in-from-top-2 rounded-xl border border-amber-500/30 bg-gradient-to-br from-amber-950/40 to-amber-900/20 p-4 text-xs text-amber-200 shadow-lg backdrop-blur-sm sm:rounded-2xl sm:p-5 sm:text-sm">
+              <p className="font-medium text-amber-100">Simulated — not executed on chain</p>
+              <p className="mt-1 text-amber-200/80">
+                This is a dry run of unsigned transaction bytes against the current state of{" "}
+                {NETWORK_LABELS[result.network]}. The outcome can change if that state changes before
+                the transaction is signed and submitted.
+              </p>
+            </div>
+          )}
+
+          {result && !result.simulated && (
+            <div className="animate-in fade-in slide-in-from-bottom-2 flex flex-col gap-3 rounded-xl border border-indigo-500/20 bg-gradient-to-br from-indigo-950/30 to-purple-950/20 p-4 shadow-xl backdrop-blur-sm sm:flex-row sm:items-center sm:justify-between sm:gap-4 sm:rounded-2xl sm:p-5">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-indigo-500/20 sm:h-10 sm:w-10 sm:rounded-xl">
+                  <span className="text-base sm:text-xl">🔗</span>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-[10px] font-medium text-slate-400 sm:text-xs">Share this explanation</p>
+                  <code className="mt-1 block truncate rounded-lg bg-slate-900/50 px-2 py-1 text-[10px] font-mono text-slate-300 sm:px-3 sm:py-1.5 sm:text-xs">
+                    /tx/{result.txDigest.slice(0, 12)}...
+                    {result.network !== DEFAULT_NETWORK && `?network=${result.network}`}
+                  </code>
+                  <div className="mt-2">
+                    <ExportLinks digest={result.txDigest} network={result.network} />
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={handleShare}
+                className="group relative inline-flex w-full items-center justify-center gap-2 overflow-hidden rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2 text-xs font-semibold text-white shadow-lg transition-all duration-200 hover:from-indigo-500 hover:to-purple-500 hover:shadow-xl sm:w-auto sm:px-5 sm:py-2.5 sm:text-sm"
+              >
+                <span className="relative z-10 flex items-center gap-2">
+                  {copied ? (
+                    <>
+                      <span className="text-sm sm:text-base">✓</span>
+                      <span>Copied!</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-sm sm:text-base">📋</span>
+                      <span>Copy Link</span>
+                    </>
+                  )}
+                </span>
+              </button>
+            </div>
+          )}
+
+          <BatchResults data={batchResult} />
+          <AddressNamesProvider names={result?.names}>
+            <ExplanationSummary data={result} />
+            <FailurePanel failure={result?.failure} />
+            <TransactionFlow data={result} />
+            <TransactionMetadata data={result} />
+            <ActionList
+              explanations={result?.actionExplanations ?? null}
+              actions={result?.actions ?? null}
+              displayNames={{
+                ...result?.names,
+                ...Object.fromEntries(
+                  Object.entries(result?.labels ?? {}).map(([address, label]) => [address, label.label]),
+                ),
+              }}
+            />
+            <ObjectChanges actions={result?.actions ?? null} />
+            <BalanceChanges deltas={result?.transfers.balanceChanges ?? null} />
+            <GasBreakdown summary={result?.summary ?? null} gas={result?.gas ?? null} />
+          </AddressNamesProvider>
+
+          <LabelManager />
+
+          <footer className="mt-6 flex flex-col items-center justify-between gap-3 border-t border-slate-800/50 pt-4 text-[10px] text-slate-500 sm:mt-8 sm:flex-row sm:gap-4 sm:pt-6 sm:text-xs">
+            <span className="text-center text-xs sm:text-left sm:text-xs">
+              Explain another transaction by pasting a new digest above.
+            </span>
+            <span className="flex items-center gap-1.5 sm:gap-2">
+              <span className="relative flex h-1.5 w-1.5 sm:h-2 sm:w-2">
+                <span className="absolute inline-flex h-full w-full animate-pulse rounded-full bg-indigo-400 opacity-75" />
+                <span className="relative inline-flex h-full w-full rounded-full bg-indigo-400" />
+              </span>
+              <span className="font-medium">Optimized for Sui</span>
+            </span>
+          </footer>
+        </main>
+      </div>
+    </AddressLabelsProvider>
+  );
+}
+
+// The explainer UI; transaction pages pass the explanation they rendered on the server
+export function Explainer({ initial }: { initial?: ExplainerInitialState }) {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent" />
+      </div>
+    }>
+      <HomeContent initial={initial} />
+    </Suspense>
+  );
+}
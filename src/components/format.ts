@@ -0,0 +1,59 @@
+// Formatting helpers shared by the client pages
+
+export function shortenAddress(addr?: string | null): string {
+  if (!addr) return "unknown";
+  const a = addr.toLowerCase();
+  return `${a.slice(0, 6)}...${a.slice(-4)}`;
+}
+
+export function formatNumber(num: string | number): string {
+  const str = typeof num === "string" ? num : num.toString();
+  if (str.includes(".")) {
+    const [whole, decimal] = str.split(".");
+    return `${formatInteger(whole)}.${decimal}`;
+  }
+  return formatInteger(str);
+}
+
+function formatInteger(num: string): string {
+  return num.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+export function formatMistToSui(mist: string | undefined): string {
+  if (!mist) return "0 SUI";
+  try {
+    const raw = BigInt(mist);
+    const base = BigInt("1000000000"); // SUI has 9 decimals
+    const whole = raw / base;
+    const frac = raw % base;
+    
+    if (frac === BigInt(0)) {
+      return `${formatNumber(whole.toString(10))} SUI`;
+    }
+    
+    const fracStr = frac
+      .toString(10)
+      .padStart(9, "0")
+      .replace(/0+$/, "");
+    
+    const wholeFormatted = formatNumber(whole.toString(10));
+    return `${wholeFormatted}.${fracStr} SUI`;
+  } catch {
+    return `${formatNumber(mist)} mist`;
+  }
+}
+
+// Fiat amount in its currency, e.g. "$1,234.56"; non-zero amounts under a cent show as "<$0.01"
+export function formatFiat(value: number, currency: string): string {
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+    } catch {
+      // Not an ISO 4217 currency code
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  };
+  const magnitude = Math.abs(value);
+  if (magnitude > 0 && magnitude < 0.01) return `${value < 0 ? "-" : ""}<${format(0.01)}`;
+  return format(value);
+}
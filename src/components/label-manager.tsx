@@ -0,0 +1,86 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useAddressLabels } from "./address-labels";
+import { shortenAddress } from "./format";
+
+// Import/export of the user's address book as a JSON label set ({ "labels": [...] })
+export function LabelManager() {
+  const { userLabels, setUserLabel, importLabels, exportLabels } = useAddressLabels();
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const labels = Object.values(userLabels).sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportLabels()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "sui-address-labels.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const count = importLabels(await file.text());
+    setMessage(
+      count === null
+        ? "Not a label file: expected JSON with a labels array."
+        : `Imported ${count} label${count === 1 ? "" : "s"}.`,
+    );
+  };
+
+  return (
+    <details className="rounded-xl border border-slate-800/50 bg-slate-900/30 p-3 text-xs text-slate-400 sm:p-4 sm:text-sm">
+      <summary className="cursor-pointer select-none hover:text-slate-300">
+        Address book ({labels.length} label{labels.length === 1 ? "" : "s"})
+      </summary>
+      <div className="mt-3 space-y-3">
+        <p className="text-[10px] text-slate-500 sm:text-xs">
+          Label any address with ✎ next to it. Labels are stored in this browser and override the built-in ones.
+        </p>
+        {labels.length > 0 && (
+          <ul className="max-h-48 space-y-1 overflow-y-auto">
+            {labels.map((label) => (
+              <li key={label.address} className="flex items-center justify-between gap-2">
+                <span className="truncate text-slate-200">{label.label}</span>
+                <span className="flex shrink-0 items-center gap-2">
+                  <code className="font-mono text-[10px] text-slate-500 sm:text-xs">{shortenAddress(label.address)}</code>
+                  <button
+                    type="button"
+                    onClick={() => setUserLabel(label.address, "")}
+                    className="rounded-md px-1 text-slate-500 hover:bg-red-500/10 hover:text-red-300"
+                    aria-label={`Remove label ${label.label}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={labels.length === 0}
+            className="rounded-lg border border-slate-700/50 bg-slate-900/50 px-3 py-1 text-xs font-medium text-slate-200 transition-all hover:border-indigo-500/50 hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            className="rounded-lg border border-slate-700/50 bg-slate-900/50 px-3 py-1 text-xs font-medium text-slate-200 transition-all hover:border-indigo-500/50 hover:bg-indigo-500/10"
+          >
+            Import
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          {message && <span className="text-[10px] text-slate-400 sm:text-xs">{message}</span>}
+        </div>
+      </div>
+    </details>
+  );
+}
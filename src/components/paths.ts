@@ -0,0 +1,28 @@
+import { DEFAULT_NETWORK, type SuiNetwork } from "@/lib/sui/networks";
+
+// Shareable path of a transaction's page; the network is omitted for the default network.
+// With searchAll, the page looks the digest up on the other networks if it is not on this one.
+export function buildSharePath(digest: string, network: SuiNetwork, searchAll = false): string {
+  const query = new URLSearchParams();
+  if (network !== DEFAULT_NETWORK) query.set("network", network);
+  if (searchAll) query.set("searchAll", "true");
+  const search = query.toString();
+  return search ? `/tx/${digest}?${search}` : `/tx/${digest}`;
+}
+
+// Path of the explained history page for an address; the network is omitted for the default network
+export function buildAddressPath(address: string, network: SuiNetwork): string {
+  return network === DEFAULT_NETWORK
+    ? `/address/${address}`
+    : `/address/${address}?network=${network}`;
+}
+
+// API path that renders an explanation as a downloadable export (json, markdown or csv)
+export function buildExportPath(digest: string, network: SuiNetwork, format: string): string {
+  return `/api/explain/${digest}?network=${network}&format=${format}`;
+}
+
+// Path of the live transaction feed page; the network is omitted for the default network
+export function buildFeedPath(network: SuiNetwork): string {
+  return network === DEFAULT_NETWORK ? "/feed" : `/feed?network=${network}`;
+}
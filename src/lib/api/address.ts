@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { isValidSuiAddress, isValidSuiNSName, normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  MAX_TIMELINE_LIMIT,
+  getAddressTimeline,
+  parseTimelineCursor,
+  type TimelineDirection,
+} from "@/lib/explain/timeline";
+import { NETWORK_LABELS } from "@/lib/sui/networks";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { resolveNameToAddress } from "@/lib/sui/suins";
+import { ApiError } from "./errors";
+import { requireNetwork } from "./route";
+import type { TimelinePageResponse } from "./schema";
+
+// Handler of the address history endpoint, shared by /api/v1/address/... and /api/address/...
+
+const DEFAULT_LIMIT = 10;
+const DIRECTIONS: TimelineDirection[] = ["all", "from", "to"];
+
+export async function getAddressTransactions(request: Request, rawAddress: string): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const network = requireNetwork(searchParams);
+
+  // The address may also be given as a SuiNS name ("example.sui" or "@example")
+  let input = rawAddress.trim();
+  try {
+    input = decodeURIComponent(input);
+  } catch {
+    // Not percent-encoded; use as is
+  }
+  let address: string | null = null;
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(input) && isValidSuiAddress(normalizeSuiAddress(input))) {
+    address = input;
+  } else if (isValidSuiNSName(input)) {
+    try {
+      address = await resolveNameToAddress(network, input);
+    } catch (error) {
+      console.error(`Error resolving SuiNS name ${input}:`, error);
+      // An unreachable fullnode says nothing about whether the name is registered
+      if (error instanceof RpcUnavailableError) throw error;
+    }
+    if (!address) {
+      throw new ApiError(
+        "NOT_FOUND",
+        "Name not found",
+        `${input} is not a registered SuiNS name on ${NETWORK_LABELS[network]}.`,
+        { received: rawAddress, network },
+      );
+    }
+  }
+
+  if (!address) {
+    throw new ApiError(
+      "INVALID_ADDRESS",
+      "Invalid address",
+      "Address must be a 0x-prefixed hex Sui address or a SuiNS name.",
+      { received: rawAddress },
+    );
+  }
+
+  // "from": sent by the address, "to": affecting the address, "all": both, merged
+  const direction = (searchParams.get("direction") ?? "all") as TimelineDirection;
+  if (!DIRECTIONS.includes(direction)) {
+    throw new ApiError("INVALID_PARAMETER", "Invalid direction", `Direction must be one of: ${DIRECTIONS.join(", ")}.`, {
+      received: searchParams.get("direction"),
+    });
+  }
+
+  const rawLimit = searchParams.get("limit");
+  const limit = rawLimit === null ? DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TIMELINE_LIMIT) {
+    throw new ApiError("INVALID_PARAMETER", "Invalid limit", `Limit must be an integer between 1 and ${MAX_TIMELINE_LIMIT}.`, {
+      received: rawLimit,
+    });
+  }
+
+  const rawCursor = searchParams.get("cursor");
+  const cursor = rawCursor ? parseTimelineCursor(rawCursor, direction) : null;
+  if (rawCursor && !cursor) {
+    throw new ApiError(
+      "INVALID_PARAMETER",
+      "Invalid cursor",
+      "Use the nextCursor returned by a previous page with the same direction.",
+      { received: rawCursor },
+    );
+  }
+
+  const timeline: TimelinePageResponse = await getAddressTimeline(network, address, { direction, cursor, limit });
+  return NextResponse.json(timeline);
+}
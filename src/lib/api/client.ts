@@ -0,0 +1,135 @@
+import { z } from "zod";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import {
+  ApiErrorBodySchema,
+  BatchResponseSchema,
+  ExplanationSchema,
+  LabelsResponseSchema,
+  TimelinePageSchema,
+  type ApiErrorCode,
+  type BatchResponse,
+  type ExplanationResponse,
+  type LabelsResponse,
+  type TimelinePageResponse,
+} from "./schema";
+
+// Typed client of the v1 API, used by the pages. Every response is validated against its schema,
+// so a server that drifts from schema.ts fails loudly instead of rendering half-empty data.
+
+export class ApiClientError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details: string;
+
+  constructor(code: ApiErrorCode, status: number, message: string, details: string) {
+    super(details ? `${message}: ${details}` : message);
+    this.name = "ApiClientError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+type ApiClientOptions = {
+  // Defaults to the app's own /api/v1
+  baseUrl?: string;
+  fetch?: typeof fetch;
+};
+
+type RequestOptions = {
+  network: SuiNetwork;
+  signal?: AbortSignal;
+};
+
+type ExplainOptions = RequestOptions & {
+  searchAll?: boolean;
+  bypassCache?: boolean;
+};
+
+type AddressTransactionsOptions = RequestOptions & {
+  direction?: "all" | "from" | "to";
+  limit?: number;
+  cursor?: string | null;
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+export function createApiClient({ baseUrl = "/api/v1", fetch: fetchFn = fetch }: ApiClientOptions = {}) {
+  async function request<T>(
+    schema: z.ZodType<T>,
+    path: string,
+    query: Record<string, string | undefined>,
+    init: RequestInit & { signal?: AbortSignal },
+  ): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, value);
+    }
+    const res = await fetchFn(`${baseUrl}${path}?${params.toString()}`, init);
+    const json: unknown = await res.json().catch(() => null);
+
+    if (!res.ok) {
+      const parsed = ApiErrorBodySchema.safeParse(json);
+      if (!parsed.success) {
+        throw new ApiClientError("INTERNAL_ERROR", res.status, "Request failed", `The API answered with HTTP ${res.status}.`);
+      }
+      const { code, message, details } = parsed.data.error;
+      throw new ApiClientError(code, res.status, message, details);
+    }
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) {
+      throw new ApiClientError("INTERNAL_ERROR", res.status, "Unexpected response", z.prettifyError(parsed.error));
+    }
+    return parsed.data;
+  }
+
+  const postJson = (body: unknown, signal?: AbortSignal) => ({
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return {
+    explain(digest: string, { network, signal, searchAll, bypassCache }: ExplainOptions): Promise<ExplanationResponse> {
+      return request(
+        ExplanationSchema,
+        `/explain/${encodeURIComponent(digest)}`,
+        { network, searchAll: searchAll ? "true" : undefined, cache: bypassCache ? "bypass" : undefined },
+        { signal },
+      );
+    },
+
+    explainBatch(digests: string[], { network, signal }: RequestOptions): Promise<BatchResponse> {
+      return request(BatchResponseSchema, "/explain/batch", { network }, postJson({ digests }, signal));
+    },
+
+    // txBytes: base64 BCS TransactionData, or a TransactionKind together with sender
+    dryRun(
+      { txBytes, sender }: { txBytes: string; sender?: string },
+      { network, signal }: RequestOptions,
+    ): Promise<ExplanationResponse> {
+      return request(ExplanationSchema, "/explain/dry-run", { network }, postJson({ txBytes, sender }, signal));
+    },
+
+    addressTransactions(
+      address: string,
+      { network, signal, direction, limit, cursor }: AddressTransactionsOptions,
+    ): Promise<TimelinePageResponse> {
+      return request(
+        TimelinePageSchema,
+        `/address/${encodeURIComponent(address)}/transactions`,
+        { network, direction, limit: limit?.toString(), cursor: cursor ?? undefined },
+        { signal },
+      );
+    },
+
+    labels({ network, signal }: RequestOptions): Promise<LabelsResponse> {
+      return request(LabelsResponseSchema, "/labels", { network }, { signal });
+    },
+  };
+}
+
+// Client of the app's own API
+export const api = createApiClient();
@@ -0,0 +1,63 @@
+import { SuiHTTPStatusError } from "@mysten/sui/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { RPC_RETRY_AFTER_SECONDS, RpcUnavailableError } from "@/lib/sui/rpc";
+import type { ApiErrorCode } from "./schema";
+
+// Errors the API reports to its callers. Route handlers throw ApiError; apiRoute (route.ts)
+// renders it as the v1 error envelope or, for the unversioned routes, the older flat body.
+
+const STATUS_CODES: Record<ApiErrorCode, number> = {
+  INVALID_NETWORK: 400,
+  INVALID_DIGEST: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_PARAMETER: 400,
+  INVALID_BODY: 400,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  RPC_UNAVAILABLE: 503,
+};
+
+type ApiErrorOptions = {
+  received?: unknown;
+  suggestion?: string;
+  network?: SuiNetwork;
+  // Seconds the caller should wait before retrying, sent as Retry-After
+  retryAfter?: number;
+};
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details: string;
+  readonly options: ApiErrorOptions;
+
+  constructor(code: ApiErrorCode, message: string, details: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = STATUS_CODES[code];
+    this.details = details;
+    this.options = options;
+  }
+}
+
+// The ApiError for anything a handler throws: an unreachable or rate-limiting fullnode keeps
+// its meaning, anything else is an internal error reported as failureMessage
+export function toApiError(error: unknown, failureMessage = "Internal error"): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof RpcUnavailableError) {
+    const rateLimited = error.cause instanceof SuiHTTPStatusError && error.cause.status === 429;
+    return new ApiError(
+      rateLimited ? "RATE_LIMITED" : "RPC_UNAVAILABLE",
+      rateLimited ? "Sui RPC rate limited" : "Sui RPC unavailable",
+      error.message,
+      { suggestion: "Try again shortly.", network: error.network, retryAfter: RPC_RETRY_AFTER_SECONDS },
+    );
+  }
+  return new ApiError(
+    "INTERNAL_ERROR",
+    failureMessage,
+    error instanceof Error ? error.message : "Unknown error occurred",
+  );
+}
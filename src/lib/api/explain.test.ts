@@ -0,0 +1,186 @@
+import { readFileSync } from "node:fs";
+import { JsonRpcError, type SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setDataSource } from "@/lib/sui/client";
+import { FixtureNotFoundError } from "@/lib/sui/fixtures";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { dryRunTransaction, explainTransaction } from "./explain";
+import { apiRoute } from "./route";
+
+const SENDER = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+const GAS_COIN = "0x0b1a7c3f6d5a9e2c8b4f1e0d7a6c5b4a3f2e1d0c9b8a7f6e5d4c3b2a1f0e9d8c";
+
+const DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+const handler = apiRoute("v1", "Failed to dry-run transaction", dryRunTransaction);
+const explainHandler = apiRoute("v1", "Failed to explain transaction", explainTransaction);
+
+function explainDigestResponse(query = "", headers: HeadersInit = {}) {
+  return explainHandler(
+    new Request(`http://localhost/api/v1/explain/${DIGEST}?network=mainnet${query}`, { headers }),
+    DIGEST,
+  );
+}
+
+// Sends 1 MIST back to the sender
+function transferTransaction(): Transaction {
+  const tx = new Transaction();
+  const [coin] = tx.splitCoins(tx.gas, [1]);
+  tx.transferObjects([coin], SENDER);
+  return tx;
+}
+
+async function fullTransactionBytes(): Promise<string> {
+  const tx = transferTransaction();
+  tx.setSender(SENDER);
+  tx.setGasPrice(1000);
+  tx.setGasBudget(10000000);
+  tx.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi" }]);
+  return toBase64(await tx.build());
+}
+
+async function dryRun(body: Record<string, unknown>) {
+  const response = await handler(
+    new Request("http://localhost/api/v1/explain/dry-run?network=mainnet", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("dryRunTransaction", () => {
+  const methods: string[] = [];
+
+  beforeEach(() => {
+    methods.length = 0;
+    // A fullnode that rejects every dry run, as it does for bytes referring to unknown objects
+    setDataSource({
+      name: "test",
+      createTransport: () => ({
+        async request({ method }) {
+          methods.push(method);
+          throw new JsonRpcError("Error checking transaction input objects: ObjectNotFound", -32602);
+        },
+        async subscribe() {
+          throw new Error("Not supported");
+        },
+      }),
+    });
+  });
+
+  it("reports bytes the fullnode rejects as an invalid body", async () => {
+    const { status, body } = await dryRun({ txBytes: await fullTransactionBytes() });
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({ code: "INVALID_BODY", message: "Dry run rejected" });
+    expect(methods).toEqual(["sui_dryRunTransactionBlock"]);
+  });
+
+  it("rejects a sender that does not match the transaction's", async () => {
+    const { status, body } = await dryRun({ txBytes: await fullTransactionBytes(), sender: "0x2" });
+    expect(status).toBe(400);
+    expect(body.error.message).toBe("Sender mismatch");
+  });
+
+  it("requires a sender for a bare transaction kind", async () => {
+    const kind = await transferTransaction().build({ onlyTransactionKind: true });
+    const { status, body } = await dryRun({ txBytes: toBase64(kind) });
+    expect(status).toBe(400);
+    expect(body.error.message).toBe("Sender required");
+    expect(methods).toEqual([]);
+  });
+
+  it("rejects bytes that are not a transaction", async () => {
+    const { status, body } = await dryRun({ txBytes: toBase64(new Uint8Array([1, 2, 3])) });
+    expect(status).toBe(400);
+    expect(body.error.message).toBe("Invalid transaction bytes");
+  });
+});
+
+describe("explainTransaction", () => {
+  // What the fullnode throws for every call
+  let failure: Error;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setDataSource({
+      name: "test",
+      createTransport: () => ({
+        async request() {
+          throw failure;
+        },
+        async subscribe() {
+          throw new Error("Not supported");
+        },
+      }),
+    });
+  });
+
+  async function explainDigest() {
+    const response = await explainDigestResponse();
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("reports a digest the fullnode does not know as not found", async () => {
+    failure = new JsonRpcError(`Could not find the referenced transaction [TransactionDigest(${DIGEST})]`, -32602);
+    const { status, body } = await explainDigest();
+    expect(status).toBe(404);
+    expect(body.error).toMatchObject({ code: "NOT_FOUND", details: failure.message });
+  });
+
+  it("reports an unreachable fullnode as unavailable", async () => {
+    failure = new RpcUnavailableError("mainnet", new Error("fetch failed"));
+    const { status, body } = await explainDigest();
+    expect(status).toBe(503);
+    expect(body.error.code).toBe("RPC_UNAVAILABLE");
+  });
+
+  it("reports other failures, such as a missing fixture, as internal errors", async () => {
+    failure = new FixtureNotFoundError("mainnet", "sui_getTransactionBlock", [DIGEST], "missing.json");
+    const { status, body } = await explainDigest();
+    expect(status).toBe(500);
+    expect(body.error).toMatchObject({ code: "INTERNAL_ERROR", details: failure.message });
+  });
+});
+
+describe("explainTransaction conditional requests", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // The Cetus swap fixture under DIGEST; lookups for coins, names and packages are unanswered
+    const txBlock: SuiTransactionBlockResponse = {
+      ...JSON.parse(readFileSync(new URL("../explain/adapters/fixtures/cetus.json", import.meta.url), "utf8")),
+      digest: DIGEST,
+    };
+    setDataSource({
+      name: "test",
+      createTransport: () => ({
+        async request<T>({ method }: { method: string }): Promise<T> {
+          if (method === "sui_getTransactionBlock") return txBlock as T;
+          throw new JsonRpcError(`${method} is not supported`, -32601);
+        },
+        async subscribe() {
+          throw new Error("Not supported");
+        },
+      }),
+    });
+  });
+
+  it("answers 304 when any listed ETag matches, ignoring weak prefixes", async () => {
+    const etag = (await explainDigestResponse()).headers.get("ETag")!;
+    expect(etag).toMatch(/^"[^"]+"$/);
+
+    expect((await explainDigestResponse("", { "If-None-Match": `"other", W/${etag}` })).status).toBe(304);
+    expect((await explainDigestResponse("", { "If-None-Match": "*" })).status).toBe(304);
+    expect((await explainDigestResponse("", { "If-None-Match": `"other"` })).status).toBe(200);
+  });
+
+  it("matches an export's ETag only for the same format", async () => {
+    const csv = (await explainDigestResponse("&format=csv")).headers.get("ETag")!;
+    expect(csv).toMatch(/-csv"$/);
+
+    expect((await explainDigestResponse("&format=csv", { "If-None-Match": `W/${csv}` })).status).toBe(304);
+    expect((await explainDigestResponse("", { "If-None-Match": csv })).status).toBe(200);
+  });
+});
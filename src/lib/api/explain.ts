@@ -0,0 +1,288 @@
+import { NextResponse } from "next/server";
+import {
+  JsonRpcError,
+  type DryRunTransactionBlockResponse,
+  type SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  isFinalized,
+  recordBypass,
+  type CacheStatus,
+  type ExplanationEntry,
+} from "@/lib/cache/explanations";
+import { buildExplanation } from "@/lib/explain";
+import { MAX_BATCH_SIZE, explainBatch } from "@/lib/explain/batch";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_EXTENSIONS,
+  EXPORT_FORMATS,
+  parseExportFormat,
+  renderExport,
+  type ExportFormat,
+} from "@/lib/explain/export";
+import { findExplanation } from "@/lib/explain/lookup";
+import { getSuiClient } from "@/lib/sui/client";
+import { parseTransactionDigest } from "@/lib/sui/digest";
+import { NETWORK_LABELS, SUI_NETWORKS } from "@/lib/sui/networks";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { ApiError } from "./errors";
+import { readJsonBody, requireNetwork } from "./route";
+import type { BatchResponse, BatchResultResponse, ExplanationResponse } from "./schema";
+
+// Handlers of the explain endpoints, shared by /api/v1/explain/... and /api/explain/...
+
+// A finalized transaction never changes, but the SuiNS names and labels in its explanation can
+// (names are cached for 10 minutes server-side), so shared caches revalidate as often; anything
+// else must be re-fetched
+const FINALIZED_CACHE_CONTROL = "public, max-age=600, s-maxage=600, stale-while-revalidate=86400";
+
+// Whether an If-None-Match header (a comma-separated list of ETags, or "*") matches the ETag.
+// The comparison is weak, as RFC 9110 requires for If-None-Match, so a W/ prefix is ignored.
+function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    return tag === "*" || tag.replace(/^W\//, "") === etag;
+  });
+}
+
+function explanationResponse(
+  request: Request,
+  entry: ExplanationEntry,
+  cacheStatus: CacheStatus,
+  format: ExportFormat | null,
+) {
+  // Each export format is a different representation, so it gets its own ETag
+  const etag = format ? `${entry.etag.slice(0, -1)}-${format}"` : entry.etag;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": isFinalized(entry.explanation) ? FINALIZED_CACHE_CONTROL : "no-store",
+    "X-Cache": cacheStatus,
+  };
+
+  if (matchesIfNoneMatch(request.headers.get("If-None-Match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  if (!format) {
+    const body: ExplanationResponse = entry.explanation;
+    return NextResponse.json(body, { headers });
+  }
+
+  const filename = `sui-tx-${entry.explanation.txDigest}.${EXPORT_EXTENSIONS[format]}`;
+  return new NextResponse(renderExport(entry.explanation, format), {
+    headers: {
+      ...headers,
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `inline; filename="${filename}"`,
+    },
+  });
+}
+
+export async function explainTransaction(request: Request, rawDigest: string): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const network = requireNetwork(searchParams);
+
+  // format=json|markdown|csv renders an export instead of the full explanation
+  const rawFormat = searchParams.get("format");
+  const format = parseExportFormat(rawFormat);
+  if (rawFormat !== null && !format) {
+    throw new ApiError("INVALID_PARAMETER", "Invalid format", `Format must be one of: ${EXPORT_FORMATS.join(", ")}.`, {
+      received: rawFormat,
+    });
+  }
+
+  // When set, a digest missing from the requested network is looked up on the others
+  const searchAll = searchParams.get("searchAll") === "true";
+  // cache=bypass skips the explanation cache and re-fetches from the fullnode
+  const bypassCache = searchParams.get("cache") === "bypass";
+  if (bypassCache) recordBypass();
+
+  const txDigest = parseTransactionDigest(rawDigest);
+  if (!txDigest) {
+    throw new ApiError(
+      "INVALID_DIGEST",
+      "Invalid transaction digest",
+      "Transaction digest must be a 64-character hex string or base58-encoded string (32-44 characters).",
+      { received: rawDigest },
+    );
+  }
+
+  const found = await findExplanation(network, txDigest, { searchAll, bypassCache });
+
+  // The fullnode could not be reached, so whether the transaction exists is unknown
+  if (found.error instanceof RpcUnavailableError) throw found.error;
+  if (!found.entry) {
+    const label = NETWORK_LABELS[network];
+    throw new ApiError(
+      "NOT_FOUND",
+      searchAll ? "Transaction not found on any Sui network" : `Transaction not found on ${label}`,
+      found.error?.message ||
+        `The transaction could not be found on ${label}. Please verify the transaction digest is correct and that it exists on ${network}.`,
+      {
+        suggestion: searchAll
+          ? `Searched ${SUI_NETWORKS.join(", ")}. Make sure the digest is correct and, for localnet, that your local node is running.`
+          : `Make sure the transaction digest is from a ${network} transaction, or enable searching all networks.`,
+        network,
+      },
+    );
+  }
+
+  return explanationResponse(request, found.entry, found.cacheStatus, format);
+}
+
+export async function explainTransactions(request: Request): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const network = requireNetwork(searchParams);
+
+  const { digests } = await readJsonBody(request, "a digests array");
+  if (!Array.isArray(digests) || digests.length === 0 || digests.length > MAX_BATCH_SIZE) {
+    throw new ApiError(
+      "INVALID_BODY",
+      "Invalid digests",
+      `digests must be an array of 1 to ${MAX_BATCH_SIZE} transaction digests.`,
+    );
+  }
+
+  // Invalid digests are reported per entry rather than failing the batch
+  const parsed = digests.map((raw: unknown) => ({
+    raw,
+    digest: typeof raw === "string" ? parseTransactionDigest(raw) : null,
+  }));
+
+  const bypassCache = searchParams.get("cache") === "bypass";
+  if (bypassCache) recordBypass();
+  const explained = await explainBatch(
+    network,
+    parsed.flatMap((p) => (p.digest ? [p.digest] : [])),
+    { bypassCache },
+  );
+
+  let next = 0;
+  const results = parsed.map(
+    (p): BatchResultResponse =>
+      p.digest
+        ? explained[next++]
+        : {
+            digest: typeof p.raw === "string" ? p.raw : String(p.raw),
+            ok: false,
+            error: "Invalid transaction digest",
+          },
+  );
+  const succeeded = results.filter((r) => r.ok).length;
+
+  const body: BatchResponse = {
+    network,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+  return NextResponse.json(body);
+}
+
+// Shape a dry-run result like an executed transaction so it can share the explanation pipeline
+function toTransactionBlockResponse(result: DryRunTransactionBlockResponse): SuiTransactionBlockResponse {
+  return {
+    digest: result.effects.transactionDigest,
+    transaction: { data: result.input, txSignatures: [] },
+    effects: result.effects,
+    events: result.events,
+    objectChanges: result.objectChanges,
+    balanceChanges: result.balanceChanges,
+  };
+}
+
+function invalidBody(message: string, details: string): ApiError {
+  return new ApiError("INVALID_BODY", message, details);
+}
+
+export async function dryRunTransaction(request: Request): Promise<Response> {
+  const network = requireNetwork(new URL(request.url).searchParams);
+
+  // txBytes: base64-encoded BCS TransactionData (or TransactionKind, which requires a sender)
+  const body = await readJsonBody(request, "a base64 txBytes field");
+
+  const txBytes = typeof body.txBytes === "string" ? body.txBytes.trim() : "";
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(txBytes);
+  } catch {
+    bytes = new Uint8Array();
+  }
+  if (bytes.length === 0) {
+    throw invalidBody("Invalid transaction bytes", "txBytes must be a non-empty base64-encoded string.");
+  }
+
+  let sender: string | null = null;
+  if (body.sender !== undefined && body.sender !== null && body.sender !== "") {
+    if (typeof body.sender !== "string" || !isValidSuiAddress(normalizeSuiAddress(body.sender))) {
+      throw invalidBody("Invalid sender", "sender must be a Sui address.");
+    }
+    sender = normalizeSuiAddress(body.sender);
+  }
+
+  const client = getSuiClient(network);
+
+  // Full TransactionData is dry-run as-is; a bare TransactionKind, or TransactionData without
+  // a sender, is completed for the given sender (gas coins, price and budget are resolved
+  // from the network).
+  let transactionBlock: Uint8Array;
+  let transaction: Transaction | null = null;
+  try {
+    transaction = Transaction.from(bytes);
+  } catch {
+    // Not full TransactionData
+  }
+  const dataSender = transaction?.getData().sender;
+  if (transaction && dataSender) {
+    if (sender && normalizeSuiAddress(dataSender) !== sender) {
+      throw invalidBody(
+        "Sender mismatch",
+        `The transaction bytes are for sender ${dataSender}, which does not match ${sender}.`,
+      );
+    }
+    transactionBlock = bytes;
+  } else {
+    if (!transaction) {
+      try {
+        transaction = Transaction.fromKind(bytes);
+      } catch {
+        throw invalidBody(
+          "Invalid transaction bytes",
+          "txBytes could not be decoded as BCS TransactionData or TransactionKind.",
+        );
+      }
+    }
+    if (!sender) {
+      throw invalidBody(
+        "Sender required",
+        "The bytes do not name a sender; provide a sender so gas can be resolved.",
+      );
+    }
+    transaction.setSender(sender);
+    try {
+      transactionBlock = await transaction.build({ client });
+    } catch (error) {
+      if (error instanceof RpcUnavailableError) throw error;
+      throw invalidBody(
+        "Could not build transaction",
+        error instanceof Error ? error.message : "The transaction could not be built for this sender.",
+      );
+    }
+  }
+
+  // The fullnode rejects bytes it cannot execute (unknown objects, bad gas payment, ...)
+  let result: DryRunTransactionBlockResponse;
+  try {
+    result = await client.dryRunTransactionBlock({ transactionBlock });
+  } catch (error) {
+    if (error instanceof JsonRpcError) throw invalidBody("Dry run rejected", error.message);
+    throw error;
+  }
+  const explanation = await buildExplanation(toTransactionBlockResponse(result), network, { previousOwners: true });
+
+  const response: ExplanationResponse = { ...explanation, simulated: true };
+  return NextResponse.json(response);
+}
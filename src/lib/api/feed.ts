@@ -0,0 +1,88 @@
+import { ACTION_TYPES } from "@/lib/explain/action-types";
+import { followFeed, parseActionType, type FeedFilter } from "@/lib/explain/feed";
+import { labelKey } from "@/lib/labels/labels";
+import { ApiError } from "./errors";
+import { requireNetwork } from "./route";
+import type { FeedCheckpointResponse, FeedItemResponse } from "./schema";
+
+// Handler of the live feed, shared by /api/v1/feed and /api/feed. Every connection follows the
+// chain from the newest checkpoint as Server-Sent Events until the client disconnects.
+
+const ADDRESS_FILTERS = [
+  { param: "sender", key: "sender" },
+  { param: "recipient", key: "recipient" },
+  { param: "package", key: "packageId" },
+] as const;
+
+// How long EventSource clients wait before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5000;
+
+export async function streamFeed(request: Request): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const network = requireNetwork(searchParams);
+
+  const filter: FeedFilter = { sender: null, recipient: null, packageId: null, actionType: null };
+  for (const { param, key } of ADDRESS_FILTERS) {
+    const raw = searchParams.get(param);
+    if (!raw) continue;
+    const address = labelKey(raw.trim());
+    if (!address) {
+      throw new ApiError("INVALID_ADDRESS", `Invalid ${param}`, `${param} must be a 0x-prefixed hex Sui address.`, {
+        received: raw,
+      });
+    }
+    filter[key] = address;
+  }
+
+  const rawActionType = searchParams.get("actionType");
+  if (rawActionType) {
+    filter.actionType = parseActionType(rawActionType);
+    if (!filter.actionType) {
+      throw new ApiError(
+        "INVALID_PARAMETER",
+        "Invalid actionType",
+        `actionType must be one of: ${ACTION_TYPES.join(", ")}.`,
+        { received: rawActionType },
+      );
+    }
+  }
+
+  // Stops following when the client disconnects or the stream is cancelled
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort(), { once: true });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Sent straight away so the response (and its headers) reach the client before the first checkpoint
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+      try {
+        for await (const event of followFeed(network, filter, abort.signal)) {
+          const data: FeedCheckpointResponse | FeedItemResponse =
+            event.type === "checkpoint" ? event.checkpoint : event.item;
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      } catch (error) {
+        console.error("Error streaming feed:", error);
+      }
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the client
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      // Stops proxies such as nginx from buffering the events
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getLabels } from "@/lib/labels/registry";
+import { requireNetwork } from "./route";
+import type { LabelsResponse } from "./schema";
+
+// Handler of the labels endpoint, shared by /api/v1/labels and /api/labels
+
+export async function listLabels(request: Request): Promise<Response> {
+  const network = requireNetwork(new URL(request.url).searchParams);
+
+  const labels = await getLabels(network);
+  const body: LabelsResponse = { network, labels: Array.from(labels.values()) };
+  return NextResponse.json(body);
+}
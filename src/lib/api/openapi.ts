@@ -0,0 +1,233 @@
+import { z } from "zod";
+import { EXPORT_FORMATS } from "@/lib/explain/export";
+import { MAX_BATCH_SIZE } from "@/lib/explain/batch";
+import { ACTION_TYPES } from "@/lib/explain/action-types";
+import { MAX_TIMELINE_LIMIT } from "@/lib/explain/timeline";
+import { DEFAULT_NETWORK, SUI_NETWORKS } from "@/lib/sui/networks";
+import { API_ERROR_CODES, apiSchemas } from "./schema";
+
+// OpenAPI 3.1 document of the v1 API, served at /api/v1/openapi.json. The response schemas are
+// generated from schema.ts; paths, parameters and request bodies are described here.
+
+type JsonSchema = Record<string, unknown>;
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+function componentSchemas(): Record<string, JsonSchema> {
+  // "input" leaves out additionalProperties: false, so fields added later don't break clients
+  const { schemas } = z.toJSONSchema(apiSchemas, { io: "input", uri: (id) => `#/components/schemas/${id}` });
+  // Each schema is a standalone JSON Schema document; as a component it needs neither header
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const component: JsonSchema = { ...schema };
+      delete component.$schema;
+      delete component.$id;
+      return [id, component];
+    }),
+  );
+}
+
+const jsonContent = (schema: JsonSchema) => ({ "application/json": { schema } });
+
+function errorResponse(description: string) {
+  return { description, content: jsonContent(ref("Error")) };
+}
+
+const ERROR_RESPONSES = {
+  "400": errorResponse("Invalid request: INVALID_NETWORK, INVALID_DIGEST, INVALID_ADDRESS, INVALID_PARAMETER or INVALID_BODY."),
+  "429": errorResponse("RATE_LIMITED: the Sui fullnode is rate limiting requests. See Retry-After."),
+  "500": errorResponse("INTERNAL_ERROR."),
+  "503": errorResponse("RPC_UNAVAILABLE: the Sui fullnode could not be reached. See Retry-After."),
+};
+
+const networkParameter = {
+  name: "network",
+  in: "query",
+  schema: { type: "string", enum: SUI_NETWORKS, default: DEFAULT_NETWORK },
+};
+
+const cacheParameter = {
+  name: "cache",
+  in: "query",
+  description: "bypass re-fetches from the fullnode instead of using the explanation cache.",
+  schema: { type: "string", enum: ["bypass"] },
+};
+
+const addressFilter = (name: string, description: string) => ({
+  name,
+  in: "query",
+  description,
+  schema: { type: "string", pattern: "^0x[0-9a-fA-F]{1,64}$" },
+});
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Sui Transaction Explainer API",
+      version: "1",
+      description: `Explains Sui transactions in plain English. Every error response has the Error body; its code is one of ${API_ERROR_CODES.join(", ")}.`,
+    },
+    servers: [{ url: "/api/v1" }],
+    paths: {
+      "/explain/{digest}": {
+        get: {
+          operationId: "explainTransaction",
+          summary: "Explain a transaction",
+          parameters: [
+            {
+              name: "digest",
+              in: "path",
+              required: true,
+              description: "Base58 transaction digest, or its 64-character hex form.",
+              schema: { type: "string" },
+            },
+            networkParameter,
+            {
+              name: "searchAll",
+              in: "query",
+              description: "When true, a digest missing from the network is looked up on the others.",
+              schema: { type: "boolean" },
+            },
+            {
+              name: "format",
+              in: "query",
+              description: "Render an export instead of the full explanation.",
+              schema: { type: "string", enum: EXPORT_FORMATS },
+            },
+            cacheParameter,
+          ],
+          responses: {
+            "200": {
+              description: "The explanation, or its export when format is set. Finalized explanations carry an ETag.",
+              content: {
+                ...jsonContent(ref("Explanation")),
+                "text/markdown": { schema: { type: "string" } },
+                "text/csv": { schema: { type: "string" } },
+              },
+            },
+            "304": { description: "Not modified since the ETag sent in If-None-Match." },
+            "404": errorResponse("NOT_FOUND: no such transaction on the network (or on any network with searchAll)."),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/explain/batch": {
+        post: {
+          operationId: "explainTransactions",
+          summary: "Explain several transactions",
+          parameters: [networkParameter, cacheParameter],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              type: "object",
+              required: ["digests"],
+              properties: {
+                digests: { type: "array", items: { type: "string" }, minItems: 1, maxItems: MAX_BATCH_SIZE },
+              },
+            }),
+          },
+          responses: {
+            "200": {
+              description: "One result per digest, in request order; invalid or missing digests fail individually.",
+              content: jsonContent(ref("BatchResponse")),
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/explain/dry-run": {
+        post: {
+          operationId: "dryRunTransaction",
+          summary: "Explain an unsigned transaction by dry-running it",
+          parameters: [networkParameter],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              type: "object",
+              required: ["txBytes"],
+              properties: {
+                txBytes: {
+                  type: "string",
+                  description: "Base64 BCS TransactionData, or a TransactionKind together with sender.",
+                },
+                sender: { type: "string" },
+              },
+            }),
+          },
+          responses: {
+            "200": {
+              description: "The explanation of the simulated transaction, with simulated set.",
+              content: jsonContent(ref("Explanation")),
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/address/{address}/transactions": {
+        get: {
+          operationId: "getAddressTransactions",
+          summary: "Page through an address's explained transactions, newest first",
+          parameters: [
+            {
+              name: "address",
+              in: "path",
+              required: true,
+              description: "Sui address or SuiNS name.",
+              schema: { type: "string" },
+            },
+            networkParameter,
+            { name: "direction", in: "query", schema: { type: "string", enum: ["all", "from", "to"] } },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: MAX_TIMELINE_LIMIT, default: 10 },
+            },
+            {
+              name: "cursor",
+              in: "query",
+              description: "nextCursor of the previous page, requested with the same direction.",
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": { description: "A page of transactions.", content: jsonContent(ref("TimelinePage")) },
+            "404": errorResponse("NOT_FOUND: the SuiNS name is not registered."),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/labels": {
+        get: {
+          operationId: "listLabels",
+          summary: "List the address labels of a network",
+          parameters: [networkParameter],
+          responses: {
+            "200": { description: "Every label.", content: jsonContent(ref("LabelsResponse")) },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/feed": {
+        get: {
+          operationId: "streamFeed",
+          summary: "Follow newly executed transactions as Server-Sent Events",
+          description:
+            "Sends a checkpoint event (FeedCheckpoint) for every checkpoint and a transaction event (FeedItem) for every matching transaction.",
+          parameters: [
+            networkParameter,
+            addressFilter("sender", "Only transactions sent by this address."),
+            addressFilter("recipient", "Only transactions sending coins or objects to this address."),
+            addressFilter("package", "Only transactions calling or upgrading this package."),
+            { name: "actionType", in: "query", schema: { type: "string", enum: ACTION_TYPES } },
+          ],
+          responses: {
+            "200": { description: "The event stream.", content: { "text/event-stream": { schema: { type: "string" } } } },
+            "400": ERROR_RESPONSES["400"],
+          },
+        },
+      },
+    },
+    components: { schemas: componentSchemas() },
+  };
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { SUI_NETWORKS, parseNetwork, type SuiNetwork } from "@/lib/sui/networks";
+import { ApiError, toApiError } from "./errors";
+import type { ApiErrorBody } from "./schema";
+
+// Shared plumbing of the API routes. The v1 routes and the older unversioned ones run the same
+// handlers and differ only in how errors are written:
+// - "v1": { error: { code, message, details, ... } }, described by the Error schema
+// - "legacy": the original flat { error, details, ... } body, with the code added alongside
+export type ErrorStyle = "v1" | "legacy";
+
+export function errorResponse(error: ApiError, style: ErrorStyle): NextResponse {
+  const { received, suggestion, network, retryAfter } = error.options;
+  const fields = { details: error.details, received, suggestion, network };
+  const body =
+    style === "v1"
+      ? ({ error: { code: error.code, message: error.message, ...fields } } satisfies ApiErrorBody)
+      : { error: error.message, code: error.code, ...fields };
+
+  const headers: Record<string, string> = { "Cache-Control": "no-store" };
+  if (retryAfter !== undefined) headers["Retry-After"] = String(retryAfter);
+  return NextResponse.json(body, { status: error.status, headers });
+}
+
+// Wraps a handler so whatever it throws becomes an error response; failureMessage names
+// unexpected (500) errors, e.g. "Failed to explain transaction"
+export function apiRoute<Args extends unknown[]>(
+  style: ErrorStyle,
+  failureMessage: string,
+  handler: (request: Request, ...args: Args) => Promise<Response>,
+): (request: Request, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    try {
+      return await handler(request, ...args);
+    } catch (error) {
+      const apiError = toApiError(error, failureMessage);
+      if (apiError.status >= 500) console.error(`${failureMessage}:`, error);
+      return errorResponse(apiError, style);
+    }
+  };
+}
+
+// The network query parameter every endpoint takes
+export function requireNetwork(searchParams: URLSearchParams): SuiNetwork {
+  const rawNetwork = searchParams.get("network");
+  const network = parseNetwork(rawNetwork);
+  if (!network) {
+    throw new ApiError("INVALID_NETWORK", "Invalid network", `Network must be one of: ${SUI_NETWORKS.join(", ")}.`, {
+      received: rawNetwork,
+    });
+  }
+  return network;
+}
+
+// The JSON body of a POST; what it must contain is described by expected
+export async function readJsonBody(request: Request, expected: string): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError("INVALID_BODY", "Invalid request body", `The request body must be JSON with ${expected}.`);
+  }
+  return body as Record<string, unknown>;
+}
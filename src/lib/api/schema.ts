@@ -0,0 +1,432 @@
+import { z } from "zod";
+import { ACTION_TYPES } from "@/lib/explain/action-types";
+import { LABEL_CATEGORIES } from "@/lib/labels/labels";
+import { SUI_NETWORKS } from "@/lib/sui/networks";
+
+// Response schemas of the v1 API. They are the one description of what the API returns: the
+// OpenAPI document is generated from them (openapi.ts), the pages render their inferred types,
+// the typed client validates responses against them (client.ts), and the route handlers assign
+// the server's results to these types so tsc catches any drift. Client-safe: no server imports.
+
+// Every schema with an id becomes a named component of the OpenAPI document
+export const apiSchemas = z.registry<{ id: string; description?: string }>();
+
+export const API_ERROR_CODES = [
+  "INVALID_NETWORK",
+  "INVALID_DIGEST",
+  "INVALID_ADDRESS",
+  "INVALID_PARAMETER",
+  "INVALID_BODY",
+  "NOT_FOUND",
+  "RPC_UNAVAILABLE",
+  "RATE_LIMITED",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export const ApiErrorBodySchema = z
+  .object({
+    error: z.object({
+      code: z.enum(API_ERROR_CODES),
+      // Short summary, e.g. "Invalid network"
+      message: z.string(),
+      details: z.string(),
+      // The rejected input, for validation errors
+      received: z.unknown().optional(),
+      suggestion: z.string().optional(),
+      network: z.enum(SUI_NETWORKS).optional(),
+    }),
+  })
+  .register(apiSchemas, { id: "Error", description: "Body of every v1 error response." });
+
+const NetworkSchema = z.enum(SUI_NETWORKS);
+const StatusSchema = z.enum(["success", "reverted", "pending_or_unknown"]);
+
+export const CoinInfoSchema = z
+  .object({
+    coinType: z.string(),
+    symbol: z.string(),
+    name: z.string(),
+    decimals: z.number(),
+    iconUrl: z.string().nullable(),
+    source: z.enum(["chain", "fallback"]),
+  })
+  .register(apiSchemas, {
+    id: "CoinInfo",
+    description: "Coin metadata; source fallback means no CoinMetadata was found and amounts are in base units.",
+  });
+
+export const FiatValueSchema = z
+  .object({
+    value: z.number(),
+    currency: z.string(),
+    price: z.number(),
+    source: z.string(),
+    priceTimestampMs: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "FiatValue", description: "Fiat value of an amount at the transaction's time." });
+
+export const PriceQuoteSchema = z
+  .object({
+    coinType: z.string(),
+    price: z.number(),
+    currency: z.string(),
+    source: z.string(),
+    timestampMs: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "PriceQuote" });
+
+export const AddressLabelSchema = z
+  .object({
+    address: z.string(),
+    label: z.string(),
+    category: z.enum(LABEL_CATEGORIES),
+  })
+  .register(apiSchemas, { id: "AddressLabel" });
+
+export const PackageInfoSchema = z
+  .object({
+    packageId: z.string(),
+    originalId: z.string(),
+    name: z.string(),
+    logoUrl: z.string().nullable(),
+    website: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "PackageInfo" });
+
+export const NftInfoSchema = z
+  .object({
+    objectId: z.string(),
+    objectType: z.string(),
+    name: z.string().nullable(),
+    imageUrl: z.string().nullable(),
+    description: z.string().nullable(),
+    collection: z.string().nullable(),
+    link: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "NftInfo" });
+
+export const MoveCallArgumentSchema = z
+  .object({
+    name: z.string(),
+    type: z.string().nullable(),
+    kind: z.enum(["pure", "object", "result", "gas"]),
+    value: z.string(),
+    objectId: z.string().nullable(),
+    objectType: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "MoveCallArgument" });
+
+const ObjectOwnerSchema = z
+  .object({
+    kind: z.enum(["address", "object", "shared", "immutable", "consensus"]),
+    address: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "ObjectOwner" });
+
+export const ObjectChangeSchema = z
+  .object({
+    kind: z.enum(["created", "mutated", "deleted", "wrapped", "unwrapped"]),
+    sender: z.string(),
+    objectId: z.string(),
+    objectType: z.string().nullable(),
+    ownerBefore: ObjectOwnerSchema.nullable(),
+    ownerAfter: ObjectOwnerSchema.nullable(),
+    version: z.string(),
+    previousVersion: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "ObjectChange" });
+
+export const PublishedPackageSchema = z
+  .object({
+    packageId: z.string(),
+    version: z.string(),
+    modules: z.array(z.string()),
+  })
+  .register(apiSchemas, { id: "PublishedPackage" });
+
+export const SwapSchema = z
+  .object({
+    protocol: z.string(),
+    protocolName: z.string(),
+    pool: z.string().nullable(),
+    coinIn: z.string(),
+    amountIn: z.string(),
+    coinOut: z.string(),
+    amountOut: z.string(),
+    coinInInfo: CoinInfoSchema,
+    coinOutInfo: CoinInfoSchema,
+    effectivePrice: z.string().nullable(),
+    fiatIn: FiatValueSchema.nullable().optional(),
+    fiatOut: FiatValueSchema.nullable().optional(),
+  })
+  .register(apiSchemas, { id: "Swap" });
+
+export const StakingSchema = z
+  .object({
+    kind: z.enum(["stake", "unstake"]),
+    staker: z.string(),
+    validatorAddress: z.string().nullable(),
+    validatorName: z.string().nullable(),
+    validatorImageUrl: z.string().nullable(),
+    poolId: z.string().nullable(),
+    amount: z.string().nullable(),
+    reward: z.string().nullable(),
+    stakedSuiId: z.string().nullable(),
+    epoch: z.string().nullable(),
+    rewardFiat: FiatValueSchema.nullable().optional(),
+  })
+  .register(apiSchemas, { id: "Staking" });
+
+export const ActionSchema = z
+  .object({
+    type: z.enum(ACTION_TYPES),
+    description: z.string(),
+    from: z.string().optional(),
+    to: z.string().nullable().optional(),
+    coinType: z.string().optional(),
+    amount: z.string().optional(),
+    objectId: z.string().optional(),
+    coin: CoinInfoSchema.optional(),
+    fiat: FiatValueSchema.nullable().optional(),
+    commandIndex: z.number().optional(),
+    swap: SwapSchema.optional(),
+    nft: NftInfoSchema.optional(),
+    package: PackageInfoSchema.optional(),
+    arguments: z.array(MoveCallArgumentSchema).optional(),
+    object: ObjectChangeSchema.optional(),
+    published: PublishedPackageSchema.optional(),
+    staking: StakingSchema.optional(),
+  })
+  .register(apiSchemas, { id: "Action" });
+
+const PtbInputSchema = z.discriminatedUnion("kind", [
+  z.object({ index: z.number(), kind: z.literal("pure"), value: z.unknown(), valueType: z.string().nullable() }),
+  z.object({
+    index: z.number(),
+    kind: z.literal("object"),
+    objectId: z.string(),
+    objectKind: z.enum(["immOrOwnedObject", "sharedObject", "receiving"]),
+    objectType: z.string().nullable(),
+  }),
+]);
+
+const PtbArgumentSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("GasCoin"), coinType: z.string() }),
+  z.object({ kind: z.literal("Input"), index: z.number(), input: PtbInputSchema.nullable(), coinType: z.string().nullable() }),
+  z.object({ kind: z.literal("Result"), command: z.number(), coinType: z.string().nullable() }),
+  z.object({
+    kind: z.literal("NestedResult"),
+    command: z.number(),
+    result: z.number(),
+    coinType: z.string().nullable(),
+  }),
+]);
+
+export const CommandSchema = z
+  .object({
+    index: z.number(),
+    type: z.enum(["MoveCall", "TransferObjects", "SplitCoins", "MergeCoins", "MakeMoveVec", "Publish", "Upgrade"]),
+    arguments: z.array(PtbArgumentSchema),
+    target: z
+      .object({ package: z.string(), module: z.string(), function: z.string(), typeArguments: z.array(z.string()) })
+      .optional(),
+    coinType: z.string().nullable().optional(),
+    amounts: z.array(z.string().nullable()).optional(),
+    recipient: z.string().nullable().optional(),
+    elementType: z.string().nullable().optional(),
+    dependencies: z.array(z.string()).optional(),
+    packageId: z.string().optional(),
+    description: z.string(),
+  })
+  .register(apiSchemas, { id: "Command", description: "A decoded Programmable Transaction Block command." });
+
+export const FailureSchema = z
+  .object({
+    kind: z.enum([
+      "MoveAbort",
+      "InsufficientGas",
+      "InsufficientCoinBalance",
+      "ObjectVersionConflict",
+      "SharedObjectCongestion",
+      "CommandArgumentError",
+      "Other",
+    ]),
+    cause: z.string(),
+    commandIndex: z.number().nullable(),
+    abort: z
+      .object({
+        packageId: z.string(),
+        module: z.string(),
+        function: z.string().nullable(),
+        functionIndex: z.number().nullable(),
+        instruction: z.number().nullable(),
+        code: z.string(),
+        codeName: z.string().nullable(),
+      })
+      .nullable(),
+    error: z.string(),
+    failedCommand: z.object({ index: z.number(), type: z.string(), description: z.string() }).nullable(),
+  })
+  .register(apiSchemas, { id: "Failure" });
+
+export const GasSchema = z
+  .object({
+    owner: z.string(),
+    sponsored: z.boolean(),
+    sponsor: z.string().nullable(),
+    budget: z.string(),
+    price: z.string(),
+    referenceGasPrice: z.string().nullable(),
+    priceMultiplier: z.number().nullable(),
+    charged: z.string(),
+    budgetUsedPercent: z.number().nullable(),
+    payment: z.array(z.object({ objectId: z.string(), version: z.string(), digest: z.string() })),
+    computationCost: z.string(),
+    storageCost: z.string(),
+    storageRebate: z.string(),
+    nonRefundableStorageFee: z.string(),
+    total: z.string(),
+    fiat: FiatValueSchema.nullable(),
+    explanation: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "Gas" });
+
+const CoinAmountFields = {
+  coinType: z.string(),
+  amount: z.string(),
+  coin: CoinInfoSchema,
+  fiat: FiatValueSchema.nullable(),
+};
+
+export const ExplanationSchema = z
+  .object({
+    txDigest: z.string(),
+    network: NetworkSchema,
+    status: StatusSchema,
+    transactionType: z.string(),
+    checkpointSeq: z.string().nullable(),
+    timestamp: z.string().nullable(),
+    timestampMs: z.string().nullable(),
+    failure: FailureSchema.nullable(),
+    summary: z.object({
+      from: z.string(),
+      objectsCreated: z.number(),
+      gasUsed: z.object({
+        computationCost: z.string(),
+        storageCost: z.string(),
+        storageRebate: z.string(),
+        total: z.string(),
+      }),
+    }),
+    gas: GasSchema,
+    transfers: z.object({
+      coins: z.array(z.object({ ...CoinAmountFields, from: z.string(), to: z.string() })),
+      source: z.enum(["balanceChanges", "events", "none"]),
+      balanceChanges: z.array(z.object({ ...CoinAmountFields, owner: z.string() })),
+    }),
+    commands: z.array(CommandSchema),
+    actions: z.array(ActionSchema),
+    // Plain-English line per action, in the same order
+    actionExplanations: z.array(z.string()),
+    names: z.record(z.string(), z.string()),
+    labels: z.record(z.string(), AddressLabelSchema),
+    packages: z.record(z.string(), PackageInfoSchema),
+    prices: z.record(z.string(), PriceQuoteSchema),
+    // The transaction block as returned by the fullnode; left out where it would only add weight
+    raw: z.object({ transaction: z.unknown() }).optional(),
+    // Set on dry-run results
+    simulated: z.boolean().optional(),
+  })
+  .register(apiSchemas, { id: "Explanation", description: "A transaction explained in plain English." });
+
+export const BatchResultSchema = z
+  .discriminatedUnion("ok", [
+    z.object({
+      digest: z.string(),
+      ok: z.literal(true),
+      headline: z.string(),
+      explanation: ExplanationSchema,
+    }),
+    z.object({ digest: z.string(), ok: z.literal(false), error: z.string() }),
+  ])
+  .register(apiSchemas, { id: "BatchResult" });
+
+export const BatchResponseSchema = z
+  .object({
+    network: NetworkSchema,
+    total: z.number(),
+    succeeded: z.number(),
+    failed: z.number(),
+    results: z.array(BatchResultSchema),
+  })
+  .register(apiSchemas, { id: "BatchResponse" });
+
+export const TimelinePageSchema = z
+  .object({
+    address: z.string(),
+    name: z.string().nullable(),
+    network: NetworkSchema,
+    direction: z.enum(["all", "from", "to"]),
+    entries: z.array(
+      z.object({
+        digest: z.string(),
+        direction: z.enum(["sent", "received"]),
+        sender: z.string(),
+        status: StatusSchema,
+        summary: z.string(),
+        actionTypes: z.array(z.string()),
+        gasUsed: z.string(),
+        checkpointSeq: z.string().nullable(),
+        timestamp: z.string().nullable(),
+        timestampMs: z.string().nullable(),
+      }),
+    ),
+    nextCursor: z.string().nullable(),
+    hasNextPage: z.boolean(),
+  })
+  .register(apiSchemas, { id: "TimelinePage", description: "A page of an address's explained transactions." });
+
+export const LabelsResponseSchema = z
+  .object({
+    network: NetworkSchema,
+    labels: z.array(AddressLabelSchema),
+  })
+  .register(apiSchemas, { id: "LabelsResponse" });
+
+export const FeedCheckpointSchema = z
+  .object({
+    sequenceNumber: z.string(),
+    timestampMs: z.string(),
+    transactions: z.number(),
+    skippedTransactions: z.number(),
+    skippedCheckpoints: z.number(),
+  })
+  .register(apiSchemas, { id: "FeedCheckpoint", description: "Data of a checkpoint event of the live feed." });
+
+export const FeedItemSchema = z
+  .object({
+    digest: z.string(),
+    network: NetworkSchema,
+    checkpoint: z.string(),
+    timestampMs: z.string().nullable(),
+    status: StatusSchema,
+    sender: z.string(),
+    headline: z.string(),
+    actions: z.array(ActionSchema),
+    actionExplanations: z.array(z.string()),
+    names: z.record(z.string(), z.string()),
+    labels: z.record(z.string(), AddressLabelSchema),
+  })
+  .register(apiSchemas, { id: "FeedItem", description: "Data of a transaction event of the live feed." });
+
+export type ApiErrorBody = z.infer<typeof ApiErrorBodySchema>;
+export type ExplanationResponse = z.infer<typeof ExplanationSchema>;
+export type ActionResponse = z.infer<typeof ActionSchema>;
+export type BatchResultResponse = z.infer<typeof BatchResultSchema>;
+export type BatchResponse = z.infer<typeof BatchResponseSchema>;
+export type TimelinePageResponse = z.infer<typeof TimelinePageSchema>;
+export type LabelsResponse = z.infer<typeof LabelsResponseSchema>;
+export type FeedCheckpointResponse = z.infer<typeof FeedCheckpointSchema>;
+export type FeedItemResponse = z.infer<typeof FeedItemSchema>;
@@ -0,0 +1,100 @@
+import { createHash } from "node:crypto";
+import type { Explanation, TransactionAnalysis } from "@/lib/explain";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { createFileStore, createLayeredStore, createMemoryStore, type CacheStore } from "./store";
+
+// Cache of transaction analyses for finalized transactions, keyed by network + digest.
+// Executed transactions never change once they are in a checkpoint, so entries do not expire.
+// SuiNS names and registry labels are not part of an analysis: they are added to each response
+// (see nameParties).
+// EXPLAIN_CACHE_SIZE sets the in-memory LRU size; EXPLAIN_CACHE_DIR adds an on-disk store.
+
+export type CachedAnalysis = {
+  analysis: TransactionAnalysis;
+  // Whether earlier object owners were looked up (batch explanations skip them)
+  previousOwners: boolean;
+};
+
+// An explanation as served, with the ETag of its body
+export type ExplanationEntry = {
+  explanation: Explanation;
+  etag: string;
+};
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS";
+
+const DEFAULT_CACHE_SIZE = 500;
+
+function createDefaultStore(): CacheStore<CachedAnalysis> {
+  const size = Number(process.env.EXPLAIN_CACHE_SIZE) || DEFAULT_CACHE_SIZE;
+  const memory = createMemoryStore<CachedAnalysis>(size);
+  const directory = process.env.EXPLAIN_CACHE_DIR;
+  return directory ? createLayeredStore([memory, createFileStore(directory)]) : memory;
+}
+
+let store: CacheStore<CachedAnalysis> | null = null;
+const stats = { hits: 0, misses: 0, bypasses: 0, writes: 0 };
+
+function getStore(): CacheStore<CachedAnalysis> {
+  store ??= createDefaultStore();
+  return store;
+}
+
+// Replace the persistent store (e.g. with Redis); the in-memory LRU stays in front of it
+export function setExplanationStore(persistent: CacheStore<CachedAnalysis>): void {
+  const size = Number(process.env.EXPLAIN_CACHE_SIZE) || DEFAULT_CACHE_SIZE;
+  store = createLayeredStore([createMemoryStore<CachedAnalysis>(size), persistent]);
+}
+
+// Entries used to hold whole explanations under "<network>:<digest>"; the prefix keeps those
+// (names and labels included) from being read back as analyses
+function cacheKey(network: SuiNetwork, digest: string): string {
+  return `analysis:${network}:${digest}`;
+}
+
+// Only transactions included in a checkpoint have a final outcome
+export function isFinalized(explanation: Pick<Explanation, "status" | "checkpointSeq">): boolean {
+  return explanation.status !== "pending_or_unknown" && explanation.checkpointSeq !== null;
+}
+
+export function computeEtag(explanation: Explanation): string {
+  return `"${createHash("sha1").update(JSON.stringify(explanation)).digest("base64url")}"`;
+}
+
+export function toExplanationEntry(explanation: Explanation): ExplanationEntry {
+  return { explanation, etag: computeEtag(explanation) };
+}
+
+export async function getCachedAnalysis(
+  network: SuiNetwork,
+  digest: string,
+): Promise<CachedAnalysis | undefined> {
+  const cached = await getStore().get(cacheKey(network, digest));
+  if (cached) {
+    stats.hits += 1;
+  } else {
+    stats.misses += 1;
+  }
+  return cached;
+}
+
+// Store an analysis if its transaction is finalized
+export async function cacheAnalysis(analysis: TransactionAnalysis, previousOwners: boolean): Promise<void> {
+  if (isFinalized(analysis)) {
+    await getStore().set(cacheKey(analysis.network, analysis.txDigest), { analysis, previousOwners });
+    stats.writes += 1;
+  }
+}
+
+export function recordBypass(): void {
+  stats.bypasses += 1;
+}
+
+export async function getCacheStats() {
+  const current = getStore();
+  return {
+    store: current.name,
+    entries: await current.size(),
+    ...stats,
+  };
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLookupCache, createLruMap } from "./lookup";
+
+describe("createLruMap", () => {
+  it("drops the least recently used entries", () => {
+    const map = createLruMap<number>(2);
+    map.set("a", 1);
+    map.set("b", 2);
+    map.get("a");
+    map.set("c", 3);
+    expect(map.get("b")).toBeUndefined();
+    expect(map.get("a")).toBe(1);
+    expect(map.size()).toBe(2);
+  });
+});
+
+describe("createLookupCache", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("shares one fetch between concurrent requests", async () => {
+    const cache = createLookupCache<number>({ name: "number", maxEntries: 10 });
+    const fetch = vi.fn(async () => 1);
+    expect(await Promise.all([cache.get("a", fetch), cache.get("a", fetch)])).toEqual([1, 1]);
+    expect(await cache.get("a", fetch)).toBe(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache failures", async () => {
+    const cache = createLookupCache<number>({ name: "number", maxEntries: 10 });
+    expect(await cache.get("a", () => Promise.reject(new Error("offline")))).toBeNull();
+    expect(console.error).toHaveBeenCalledWith("Error fetching number (a):", expect.any(Error));
+    expect(await cache.get("a", async () => 2)).toBe(2);
+  });
+
+  it("keeps at most maxEntries results", async () => {
+    const cache = createLookupCache<string>({ name: "string", maxEntries: 2 });
+    const fetch = vi.fn(async () => "value");
+    for (const key of ["a", "b", "c", "a"]) await cache.get(key, fetch);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("fetches again once an entry expires", async () => {
+    vi.useFakeTimers();
+    const cache = createLookupCache<number>({ name: "number", maxEntries: 10, ttlMs: 1000 });
+    const fetch = vi.fn(async () => 1);
+    await cache.get("a", fetch);
+    vi.advanceTimersByTime(999);
+    await cache.get("a", fetch);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    await cache.get("a", fetch);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,73 @@
+// Memoized lookups of data read from the fullnode (SuiNS names, coin metadata, package
+// history, ...). Concurrent requests for a key share one fetch. A failed fetch is logged and
+// resolves to null without being cached, so the next request tries again.
+
+// Map that drops its least recently used entries beyond maxEntries
+export type LruMap<V> = {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): void;
+  size(): number;
+};
+
+// Map iteration order is insertion order, so the first key is the least recently used
+export function createLruMap<V>(maxEntries: number): LruMap<V> {
+  const entries = new Map<string, V>();
+
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    size() {
+      return entries.size;
+    },
+  };
+}
+
+export type LookupCache<T> = {
+  get(key: string, fetch: () => Promise<T>): Promise<T | null>;
+};
+
+type LookupCacheOptions = {
+  // What is looked up, for the error log, e.g. "SuiNS name"
+  name: string;
+  maxEntries: number;
+  // How long a result is kept; omitted for data that never changes
+  ttlMs?: number;
+};
+
+export function createLookupCache<T>({ name, maxEntries, ttlMs }: LookupCacheOptions): LookupCache<T> {
+  const entries = createLruMap<{ expiresAt: number; value: Promise<T | null> }>(maxEntries);
+
+  return {
+    get(key, fetch) {
+      const cached = entries.get(key);
+      if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+      const value: Promise<T | null> = fetch().catch((error) => {
+        // Only forget this fetch, not one that replaced it after it expired
+        if (entries.get(key)?.value === value) entries.delete(key);
+        console.error(`Error fetching ${name} (${key}):`, error);
+        return null;
+      });
+      // Replacing the expired entry (if any) drops it
+      entries.set(key, { expiresAt: ttlMs === undefined ? Infinity : Date.now() + ttlMs, value });
+      return value;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFileStore, createLayeredStore, createMemoryStore } from "./store";
+
+describe("createMemoryStore", () => {
+  it("evicts the least recently used entry", async () => {
+    const store = createMemoryStore<number>(2);
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.get("a");
+    await store.set("c", 3);
+    expect(await store.get("a")).toBe(1);
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.size()).toBe(2);
+  });
+});
+
+describe("createFileStore", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "store-test-"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("round-trips values", async () => {
+    const store = createFileStore<{ n: number }>(path.join(root, "cache"));
+    await store.set("mainnet:abc", { n: 1 });
+    expect(await store.get("mainnet:abc")).toEqual({ n: 1 });
+    expect(await store.get("missing")).toBeUndefined();
+  });
+
+  it("creates the directory again after a failed attempt", async () => {
+    // A file where the parent directory should be makes mkdir fail
+    const blocker = path.join(root, "blocked");
+    await writeFile(blocker, "");
+    const store = createFileStore<number>(path.join(blocker, "cache"));
+
+    await store.set("key", 1);
+    expect(await store.get("key")).toBeUndefined();
+
+    await rm(blocker);
+    await store.set("key", 2);
+    expect(await store.get("key")).toBe(2);
+  });
+});
+
+describe("createLayeredStore", () => {
+  it("fills faster stores from slower ones", async () => {
+    const memory = createMemoryStore<number>(10);
+    const backing = createMemoryStore<number>(10);
+    await backing.set("key", 7);
+
+    const store = createLayeredStore([memory, backing]);
+    expect(await store.get("key")).toBe(7);
+    expect(await memory.get("key")).toBe(7);
+  });
+});
@@ -0,0 +1,90 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createLruMap } from "./lookup";
+
+// Key-value stores for cached results. The in-memory LRU is always used; a persistent
+// store (on disk, or any other CacheStore implementation) can be layered behind it.
+
+export type CacheStore<T> = {
+  name: string;
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  size(): Promise<number | null>;
+};
+
+// In-memory LRU
+export function createMemoryStore<T>(maxEntries: number): CacheStore<T> {
+  const entries = createLruMap<T>(maxEntries);
+
+  return {
+    name: "memory",
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async size() {
+      return entries.size();
+    },
+  };
+}
+
+// One JSON file per key. Read and write errors are logged and treated as misses.
+export function createFileStore<T>(directory: string): CacheStore<T> {
+  const fileFor = (key: string) => path.join(directory, `${key.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+  let ready: Promise<unknown> | null = null;
+
+  return {
+    name: "file",
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf8")) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error("Error reading cache file:", error);
+        }
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      try {
+        // A failed mkdir is forgotten, so the next write tries again
+        ready ??= mkdir(directory, { recursive: true }).catch((error) => {
+          ready = null;
+          throw error;
+        });
+        await ready;
+        await writeFile(fileFor(key), JSON.stringify(value));
+      } catch (error) {
+        console.error("Error writing cache file:", error);
+      }
+    },
+    async size() {
+      return null;
+    },
+  };
+}
+
+// Reads go to the first store that has the key (filling the faster stores); writes go to all
+export function createLayeredStore<T>(stores: CacheStore<T>[]): CacheStore<T> {
+  return {
+    name: stores.map((store) => store.name).join("+"),
+    async get(key) {
+      for (let i = 0; i < stores.length; i++) {
+        const value = await stores[i].get(key);
+        if (value !== undefined) {
+          await Promise.all(stores.slice(0, i).map((store) => store.set(key, value)));
+          return value;
+        }
+      }
+      return undefined;
+    },
+    async set(key, value) {
+      await Promise.all(stores.map((store) => store.set(key, value)));
+    },
+    async size() {
+      return stores[0]?.size() ?? null;
+    },
+  };
+}
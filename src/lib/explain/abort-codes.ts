@@ -0,0 +1,167 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// Well-known abort codes, keyed by "<package>::<module>" and then by abort code.
+// Extend this table as new protocol modules become relevant.
+
+type AbortCodeTable = Record<string, Record<string, { name: string; cause: string }>>;
+
+const ABORT_CODES: AbortCodeTable = {
+  "0x1::option": {
+    "262144": { name: "EOPTION_IS_SET", cause: "an Option was expected to be empty but already held a value" },
+    "262145": { name: "EOPTION_NOT_SET", cause: "an Option was expected to hold a value but was empty" },
+  },
+  "0x1::vector": {
+    "131072": { name: "EINDEX_OUT_OF_BOUNDS", cause: "a vector index was out of bounds" },
+  },
+  "0x2::balance": {
+    "0": { name: "ENonZero", cause: "a balance that was not zero was destroyed" },
+    "1": { name: "EOverflow", cause: "the balance or supply overflowed" },
+    "2": { name: "ENotEnough", cause: "the balance was too low for the requested amount" },
+  },
+  "0x2::coin": {
+    "0": { name: "EBadWitness", cause: "the coin was created with an invalid one-time witness" },
+    "1": { name: "EInvalidArg", cause: "an invalid argument was passed to a coin function" },
+    "2": { name: "ENotEnough", cause: "the coin's balance was too low to split off the requested amount" },
+  },
+  "0x2::dynamic_field": {
+    "0": { name: "EFieldAlreadyExists", cause: "a dynamic field with this name already exists" },
+    "1": { name: "EFieldDoesNotExist", cause: "the requested dynamic field does not exist" },
+    "2": { name: "EFieldTypeMismatch", cause: "the dynamic field exists but has a different type" },
+  },
+  "0x2::table": {
+    "0": { name: "ETableNotEmpty", cause: "a table that still had entries was destroyed" },
+  },
+  "0x2::kiosk": {
+    "0": { name: "ENotOwner", cause: "the caller does not own the kiosk" },
+    "1": { name: "EIncorrectAmount", cause: "the payment did not match the listed price" },
+    "2": { name: "ENotEnough", cause: "the kiosk profits were too low for the requested withdrawal" },
+    "3": { name: "ENotEmpty", cause: "a kiosk that still held items was closed" },
+    "4": { name: "EListedExclusively", cause: "the item is listed exclusively and cannot be taken or relisted" },
+    "6": { name: "EItemLocked", cause: "the item is locked in the kiosk and cannot be taken" },
+    "7": { name: "EItemIsListed", cause: "the item is listed for sale and cannot be taken" },
+    "9": { name: "EItemNotFound", cause: "the item is not in the kiosk" },
+    "10": { name: "ENotListed", cause: "the item is not listed for sale" },
+  },
+  "0x2::transfer_policy": {
+    "0": { name: "EPolicyNotSatisfied", cause: "not every rule of the transfer policy was satisfied (e.g. royalty not paid)" },
+    "1": { name: "EIllegalRule", cause: "a receipt was added by a rule that is not part of the policy" },
+    "4": { name: "ENotOwner", cause: "the caller does not own the transfer policy" },
+    "5": { name: "ENotEnough", cause: "the policy balance was too low for the requested withdrawal" },
+  },
+  // Native staking
+  "0x3::staking_pool": {
+    "0": { name: "EInsufficientPoolTokenBalance", cause: "the staking pool did not hold enough pool tokens" },
+    "1": { name: "EWrongPool", cause: "the staked SUI belongs to a different staking pool" },
+    "2": { name: "EWithdrawAmountCannotBeZero", cause: "the withdrawal amount was zero" },
+    "3": { name: "EInsufficientSuiTokenBalance", cause: "the staking pool did not hold enough SUI" },
+    "4": { name: "EInsufficientRewardsPoolBalance", cause: "the rewards pool did not hold enough SUI for the rewards" },
+    "5": { name: "EDestroyNonzeroBalance", cause: "a balance that was not zero was destroyed" },
+    "6": { name: "ETokenTimeLockIsSome", cause: "the staked SUI is still time-locked" },
+    "7": { name: "EWrongDelegation", cause: "the stake does not match the delegation" },
+    "8": { name: "EPendingDelegationDoesNotExist", cause: "there is no pending stake to withdraw" },
+    "9": { name: "ETokenBalancesDoNotMatchExchangeRate", cause: "the pool token balance does not match the exchange rate" },
+    "10": { name: "EDelegationToInactivePool", cause: "the validator's staking pool is inactive" },
+    "11": { name: "EDeactivationOfInactivePool", cause: "the staking pool was already inactive" },
+    "12": { name: "EIncompatibleStakedSui", cause: "the staked SUI objects cannot be joined or split this way" },
+    "13": { name: "EWithdrawalInSameEpoch", cause: "the stake was withdrawn in the epoch it was added" },
+    "14": { name: "EPoolAlreadyActive", cause: "the staking pool is already active" },
+    "15": { name: "EPoolNotPreactive", cause: "the staking pool is not a candidate pool" },
+    "16": { name: "EActivationOfInactivePool", cause: "an inactive staking pool cannot be reactivated" },
+    "17": { name: "EDelegationOfZeroSui", cause: "the stake amount was zero" },
+    "18": { name: "EStakedSuiBelowThreshold", cause: "the stake would fall below the minimum of 1 SUI" },
+    "19": { name: "ECannotMintFungibleStakedSuiYet", cause: "the stake cannot become fungible before it is active" },
+    "20": { name: "EInvariantFailure", cause: "a staking pool invariant was violated" },
+  },
+  "0x3::validator_set": {
+    "0": { name: "ENonValidatorInReportRecords", cause: "a reported address is not a validator" },
+    "1": { name: "EInvalidStakeAdjustmentAmount", cause: "the stake adjustment amount was invalid" },
+    "2": { name: "EDuplicateValidator", cause: "the validator is already in the validator set" },
+    "3": { name: "ENoPoolFound", cause: "no staking pool exists for the given id" },
+    "4": { name: "ENotAValidator", cause: "the address is not an active validator" },
+    "5": { name: "EMinJoiningStakeNotReached", cause: "the candidate has not reached the minimum stake to join" },
+    "6": { name: "EAlreadyValidatorCandidate", cause: "the address is already a validator candidate" },
+    "7": { name: "EValidatorNotCandidate", cause: "the validator is not a candidate" },
+    "8": { name: "ENotValidatorCandidate", cause: "the address is not a validator candidate" },
+    "9": { name: "ENotActiveOrPendingValidator", cause: "the validator is neither active nor pending, so it cannot take stake" },
+    "10": { name: "EStakingBelowThreshold", cause: "the stake was below the minimum of 1 SUI" },
+    "11": { name: "EValidatorAlreadyRemoved", cause: "the validator was already removed" },
+    "12": { name: "ENotAPendingValidator", cause: "the address is not a pending validator" },
+    "13": { name: "EValidatorSetEmpty", cause: "the validator set would become empty" },
+    "101": { name: "EInvalidCap", cause: "the capability does not belong to this validator" },
+  },
+  // Cetus CLMM
+  "0x1eabed72c53feb3805120a081dc15963c204dc8d091542592abaf7a35689b2fb::pool": {
+    "0": { name: "EAmountIncorrect", cause: "the amount paid into the pool did not match the amount owed" },
+    "1": { name: "ELiquidityOverflow", cause: "the pool's liquidity overflowed" },
+    "2": { name: "ELiquidityUnderflow", cause: "more liquidity was removed than the position holds" },
+    "3": { name: "ELiquidityIsZero", cause: "the liquidity amount was zero" },
+    "4": { name: "ENotEnoughLiquidity", cause: "the pool did not have enough liquidity for the swap" },
+    "5": { name: "ERemainderAmountUnderflow", cause: "the swap's remaining amount underflowed" },
+    "6": { name: "ESwapAmountInOverflow", cause: "the swap's input amount overflowed" },
+    "7": { name: "ESwapAmountOutOverflow", cause: "the swap's output amount overflowed" },
+    "8": { name: "EFeeAmountOverflow", cause: "the swap fee overflowed" },
+    "9": { name: "EInvalidFeeRate", cause: "the fee rate was invalid" },
+    "10": { name: "EInvalidFixedRewardRate", cause: "the rewarder's emission rate was invalid" },
+  },
+  // DeepBook v2
+  "0xdee9::clob_v2": {
+    "1": { name: "EIncorrectPoolOwner", cause: "the caller does not own the pool" },
+    "3": { name: "EInvalidOrderId", cause: "the order does not exist" },
+    "4": { name: "EUnauthorizedCancel", cause: "the order belongs to another account" },
+    "5": { name: "EInvalidPrice", cause: "the order price was invalid" },
+    "6": { name: "EInvalidQuantity", cause: "the order quantity was invalid or not a multiple of the lot size" },
+    "7": { name: "EInsufficientBaseCoin", cause: "the base coin balance was too low for the order" },
+    "8": { name: "EInsufficientQuoteCoin", cause: "the quote coin balance was too low for the order" },
+    "9": { name: "EOrderCannotBeFullyFilled", cause: "a fill-or-kill order could not be filled completely" },
+    "10": { name: "EOrderCannotBeFullyPassive", cause: "a post-only order would have crossed the order book" },
+    "11": { name: "EInvalidTickPrice", cause: "the price is not a multiple of the tick size" },
+    "12": { name: "EInvalidUser", cause: "the account cap does not match the order owner" },
+    "13": { name: "ENotEqual", cause: "two values that had to match did not" },
+    "14": { name: "EInvalidRestriction", cause: "the order restriction was invalid" },
+    "16": { name: "EInvalidPair", cause: "the pool's base and quote coins were invalid" },
+    "18": { name: "EInvalidFee", cause: "the pool creation fee was incorrect" },
+    "19": { name: "EInvalidExpireTimestamp", cause: "the order's expiry time has already passed" },
+    "20": { name: "EInvalidTickSizeLotSize", cause: "the tick size or lot size was invalid" },
+    "21": { name: "EInvalidSelfMatchingPreventionArg", cause: "the self-matching prevention option was invalid" },
+  },
+  // DeepBook v3
+  "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809::balance_manager": {
+    "0": { name: "EInvalidOwner", cause: "the caller does not own the balance manager" },
+    "1": { name: "EInvalidTrader", cause: "the trade proof does not belong to this balance manager" },
+    "2": { name: "EInvalidProof", cause: "the trade proof was invalid" },
+    "3": { name: "EBalanceManagerBalanceTooLow", cause: "the balance manager held too little of the coin" },
+    "4": { name: "EMaxTradeCapsReached", cause: "the balance manager already has the maximum number of trade caps" },
+    "5": { name: "ETradeCapNotInList", cause: "the trade cap was revoked or never issued" },
+  },
+  "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809::order_info": {
+    "0": { name: "EOrderInvalidPrice", cause: "the order price was invalid" },
+    "1": { name: "EOrderBelowMinimumSize", cause: "the order was below the pool's minimum size" },
+    "2": { name: "EOrderInvalidLotSize", cause: "the order quantity is not a multiple of the lot size" },
+    "3": { name: "EInvalidExpireTimestamp", cause: "the order's expiry time has already passed" },
+    "4": { name: "EInvalidOrderType", cause: "the order type was invalid" },
+    "5": { name: "EPOSTOrderCrossesOrderbook", cause: "a post-only order would have crossed the order book" },
+    "6": { name: "EFOKOrderCannotBeFullyFilled", cause: "a fill-or-kill order could not be filled completely" },
+    "7": { name: "EMarketOrderCannotBePostOnly", cause: "a market order cannot be post-only" },
+    "8": { name: "ESelfMatchingCancelTaker", cause: "the order would have matched the trader's own order" },
+  },
+  "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809::pool": {
+    "6": { name: "EInvalidQuantityIn", cause: "the input quantity was invalid" },
+    "11": { name: "EPackageVersionDisabled", cause: "this DeepBook package version has been disabled" },
+    "12": { name: "EMinimumQuantityOutNotMet", cause: "the swap returned less than the minimum output (slippage)" },
+  },
+};
+
+const INDEX = new Map<string, Record<string, { name: string; cause: string }>>(
+  Object.entries(ABORT_CODES).map(([key, codes]) => {
+    const [address, moduleName] = key.split("::");
+    return [`${normalizeSuiAddress(address)}::${moduleName}`, codes];
+  }),
+);
+
+export function lookupAbortCode(
+  packageId: string,
+  moduleName: string,
+  code: string,
+): { name: string; cause: string } | null {
+  return INDEX.get(`${normalizeSuiAddress(packageId)}::${moduleName}`)?.[code] ?? null;
+}
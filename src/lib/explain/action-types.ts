@@ -0,0 +1,26 @@
+// Every action type the classifier emits. Kept free of server imports so the API schema and
+// the pages can list them too.
+
+export const ACTION_TYPES = [
+  "COIN_TRANSFER",
+  "NFT_TRANSFER",
+  "OBJECT_CREATED",
+  "OBJECT_MUTATED",
+  "OBJECT_DELETED",
+  "OBJECT_WRAPPED",
+  "OBJECT_UNWRAPPED",
+  "PACKAGE_PUBLISHED",
+  "MOVE_CALL",
+  "CONTRACT_CALL",
+  "STAKING",
+  "UNSTAKING",
+  "SWAP",
+  "SPLIT_COINS",
+  "MERGE_COINS",
+  "TRANSFER_OBJECTS",
+  "MAKE_MOVE_VEC",
+  "PUBLISH",
+  "UPGRADE",
+] as const;
+
+export type ActionType = (typeof ACTION_TYPES)[number];
@@ -0,0 +1,443 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { fallbackCoinInfo, formatCoinAmount, type CoinInfo } from "@/lib/sui/coin-metadata";
+import type { NftInfo, NftTransfer } from "@/lib/sui/nft";
+import { findPackage, type PackageInfo } from "@/lib/sui/packages";
+import type { ActionType } from "./action-types";
+import { effectivePrice, type SwapDetails } from "./adapters";
+import type { FiatValue } from "./fiat";
+import type { MoveCallArgument } from "./move-args";
+import type { ObjectChange, ObjectOwnerInfo, PublishedPackage } from "./objects";
+import { shortenAddress, shortenObjectType, shortenPackageId } from "./format";
+import { describePtbCommand, type DecodedPtb, type PtbCommandType } from "./ptb";
+import type { StakingOperation } from "./staking";
+import { SUI_COIN_TYPE, type CoinTransfer } from "./transfers";
+
+// Sui transaction types
+export type SuiTransactionBlock = {
+  digest: string;
+  transaction?: {
+    data?: {
+      messageVersion?: string;
+      sender?: string;
+      transaction?: {
+        kind?: string;
+        sender?: string;
+        gasData?: {
+          payment?: Array<{ objectId: string; version: string; digest: string }>;
+          owner?: string;
+          price?: string;
+          budget?: string;
+        };
+      };
+    };
+  };
+  effects?: {
+    status?: {
+      status?: string;
+      error?: string;
+    };
+    gasUsed?: {
+      computationCost?: string;
+      storageCost?: string;
+      storageRebate?: string;
+    };
+    transactionDigest?: string;
+  };
+  events?: Array<{
+    type?: string;
+    packageId?: string;
+    transactionModule?: string;
+    sender?: string;
+    parsedJson?: unknown;
+  }>;
+  objectChanges?: Array<{
+    type?: string;
+    objectId?: string;
+    objectType?: string;
+    sender?: string;
+    recipient?: string;
+  }>;
+};
+
+export { ACTION_TYPES, type ActionType } from "./action-types";
+
+// One action per changed object (and published package), listed in the UI's Objects section
+export const OBJECT_ACTION_TYPES: ReadonlySet<ActionType> = new Set([
+  "OBJECT_CREATED",
+  "OBJECT_MUTATED",
+  "OBJECT_DELETED",
+  "OBJECT_WRAPPED",
+  "OBJECT_UNWRAPPED",
+  "PACKAGE_PUBLISHED",
+]);
+
+const OBJECT_CHANGE_ACTION_TYPES: Record<ObjectChange["kind"], ActionType> = {
+  created: "OBJECT_CREATED",
+  mutated: "OBJECT_MUTATED",
+  deleted: "OBJECT_DELETED",
+  wrapped: "OBJECT_WRAPPED",
+  unwrapped: "OBJECT_UNWRAPPED",
+};
+
+// Action type for each Programmable Transaction Block command
+const COMMAND_ACTION_TYPES: Record<PtbCommandType, ActionType> = {
+  MoveCall: "MOVE_CALL",
+  SplitCoins: "SPLIT_COINS",
+  MergeCoins: "MERGE_COINS",
+  TransferObjects: "TRANSFER_OBJECTS",
+  MakeMoveVec: "MAKE_MOVE_VEC",
+  Publish: "PUBLISH",
+  Upgrade: "UPGRADE",
+};
+
+export type Action = {
+  type: ActionType;
+  description: string;
+  from?: string;
+  to?: string | null;
+  coinType?: string;
+  amount?: string;
+  objectId?: string;
+  coin?: CoinInfo;
+  // Fiat value of amount at the transaction's time, when a price is available
+  fiat?: FiatValue | null;
+  // Index of the PTB command this action was decoded from
+  commandIndex?: number;
+  swap?: SwapDetails & {
+    coinInInfo: CoinInfo;
+    coinOutInfo: CoinInfo;
+    // Units of coinOut per unit of coinIn
+    effectivePrice: string | null;
+    fiatIn?: FiatValue | null;
+    fiatOut?: FiatValue | null;
+  };
+  nft?: NftInfo;
+  // Registry entry of the called package, for Move calls into a known package
+  package?: PackageInfo;
+  // Move calls: the arguments paired with the function's parameter types
+  arguments?: MoveCallArgument[];
+  // Object actions: the object's id, type, owner and version before and after
+  object?: ObjectChange;
+  // PACKAGE_PUBLISHED: the new package and its modules
+  published?: PublishedPackage;
+  staking?: StakingOperation & {
+    validatorName: string | null;
+    validatorImageUrl: string | null;
+    rewardFiat?: FiatValue | null;
+  };
+};
+
+// Staking operation with the validator resolved from the current system state
+export type ResolvedStakingOperation = NonNullable<Action["staking"]>;
+
+// Display name of the address (its label or SuiNS name) when it has one, otherwise the shortened address
+export function resolveDisplayName(addr: string | null | undefined, names: Map<string, string>): string {
+  if (!addr) return "unknown";
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(addr)) {
+    const name = names.get(normalizeSuiAddress(addr));
+    if (name) return name;
+  }
+  return shortenAddress(addr);
+}
+
+// Owner of an object for explanation text, e.g. "alice.sui", "shared" or "object 0x12ab...cdef"
+function describeOwnerInfo(owner: ObjectOwnerInfo | null, names: Map<string, string>): string | null {
+  if (!owner) return null;
+  switch (owner.kind) {
+    case "address":
+    case "consensus":
+      return resolveDisplayName(owner.address, names);
+    case "object":
+      return `object ${shortenAddress(owner.address)}`;
+    case "shared":
+      return "shared";
+    case "immutable":
+      return "immutable";
+  }
+}
+
+// Classify actions from Sui transaction
+export function classifyActions(
+  tx: SuiTransactionBlock,
+  coinTransfers: CoinTransfer[],
+  coins: Map<string, CoinInfo>,
+  ptb: DecodedPtb | null,
+  swaps: SwapDetails[],
+  stakingOperations: ResolvedStakingOperation[],
+  nftTransfers: NftTransfer[],
+  packages: Map<string, PackageInfo> = new Map(),
+  moveCallArguments: Map<number, MoveCallArgument[]> = new Map(),
+  objectChanges: ObjectChange[] = [],
+  publishedPackages: PublishedPackage[] = [],
+): Action[] {
+  const actions: Action[] = [];
+  const coinFor = (coinType: string) => coins.get(coinType) ?? fallbackCoinInfo(coinType);
+
+  // Swaps recognised by protocol adapters
+  for (const swap of swaps) {
+    const coinInInfo = coinFor(swap.coinIn);
+    const coinOutInfo = coinFor(swap.coinOut);
+    const amountIn = formatCoinAmount(coinInInfo, swap.amountIn);
+    const amountOut = formatCoinAmount(coinOutInfo, swap.amountOut);
+    actions.push({
+      type: "SWAP",
+      description: `swapped ${amountIn.amount} ${amountIn.symbol} for ${amountOut.amount} ${amountOut.symbol} on ${swap.protocolName}`,
+      from: tx.transaction?.data?.sender || "unknown",
+      to: swap.pool,
+      coinType: swap.coinIn,
+      amount: swap.amountIn,
+      coin: coinInInfo,
+      swap: {
+        ...swap,
+        coinInInfo,
+        coinOutInfo,
+        effectivePrice: effectivePrice(swap, coinInInfo, coinOutInfo),
+      },
+    });
+  }
+
+  // Native staking and unstaking
+  const suiCoin = coinFor(SUI_COIN_TYPE);
+  for (const operation of stakingOperations) {
+    const validator = operation.validatorName ?? shortenAddress(operation.validatorAddress);
+    const amount = operation.amount ? formatCoinAmount(suiCoin, operation.amount) : null;
+    const what = amount ? `${amount.amount} ${amount.symbol}` : "SUI";
+    actions.push({
+      type: operation.kind === "stake" ? "STAKING" : "UNSTAKING",
+      description:
+        operation.kind === "stake"
+          ? `staked ${what} with ${validator}`
+          : `unstaked ${what} from ${validator}`,
+      from: operation.staker,
+      to: operation.validatorAddress,
+      coinType: SUI_COIN_TYPE,
+      amount: operation.amount ?? undefined,
+      objectId: operation.stakedSuiId ?? undefined,
+      coin: suiCoin,
+      staking: operation,
+    });
+  }
+
+  // Process coin transfers
+  for (const transfer of coinTransfers) {
+    const coin = coinFor(transfer.coinType);
+    const { amount, symbol } = formatCoinAmount(coin, transfer.amount);
+    actions.push({
+      type: "COIN_TRANSFER",
+      description: `sent ${amount} ${symbol}`,
+      from: transfer.from,
+      to: transfer.to,
+      coinType: transfer.coinType,
+      amount: transfer.amount,
+      coin,
+    });
+  }
+
+  // Add NFT transfers (objects whose type has Display)
+  for (const transfer of nftTransfers) {
+    actions.push({
+      type: "NFT_TRANSFER",
+      description: `${describeNft(transfer.nft)} transferred`,
+      from: transfer.from,
+      to: transfer.to,
+      objectId: transfer.objectId,
+      nft: transfer.nft,
+    });
+  }
+
+  // One action per Programmable Transaction Block command, in execution order
+  const sender = tx.transaction?.data?.sender || "unknown";
+  if (ptb) {
+    for (const command of ptb.commands) {
+      // The recipient of a TransferObjects is named in explain(), from the action's to
+      const description = describePtbCommand(command, ptb, coins, packages, { withRecipient: false });
+
+      if (command.type === "MoveCall" && command.target) {
+        const { package: packageId, module: moduleName, function: functionName } = command.target;
+        actions.push({
+          type: "MOVE_CALL",
+          description,
+          from: sender,
+          to: packageId,
+          coinType: `${shortenPackageId(packageId)}::${moduleName}::${functionName}`,
+          commandIndex: command.index,
+          package: findPackage(packages, packageId) ?? undefined,
+          arguments: moveCallArguments.get(command.index),
+        });
+        continue;
+      }
+
+      const coinType = command.coinType ?? undefined;
+      actions.push({
+        type: COMMAND_ACTION_TYPES[command.type],
+        description,
+        from: sender,
+        to: command.type === "TransferObjects" ? command.recipient ?? null : null,
+        coinType,
+        coin: coinType ? coins.get(coinType) : undefined,
+        commandIndex: command.index,
+      });
+    }
+  } else {
+    const kind = tx.transaction?.data?.transaction?.kind;
+    if (kind && kind !== "TransferObject") {
+      // Generic contract interaction
+      actions.push({
+        type: "CONTRACT_CALL",
+        description: `executed ${typeof kind === "string" ? kind : "transaction"}`,
+        from: sender,
+        to: null,
+      });
+    }
+  }
+
+  // One action per published package and per changed object, after the actions they result from
+  for (const published of publishedPackages) {
+    actions.push({
+      type: "PACKAGE_PUBLISHED",
+      description: `published package ${shortenPackageId(published.packageId)}`,
+      from: sender,
+      to: null,
+      objectId: published.packageId,
+      published,
+    });
+  }
+  for (const change of objectChanges) {
+    const objectType = change.objectType ? shortenObjectType(change.objectType) : "object";
+    actions.push({
+      type: OBJECT_CHANGE_ACTION_TYPES[change.kind],
+      description: `${change.kind} ${objectType} ${shortenAddress(change.objectId)}`,
+      from: change.sender,
+      to: change.ownerAfter?.kind === "address" ? change.ownerAfter.address : null,
+      objectId: change.objectId,
+      object: change,
+    });
+  }
+
+  return actions;
+}
+
+// "SuiFren #123 (SuiFrens)", falling back to the object id when Display has no name
+function describeNft(nft: NftInfo): string {
+  const name = nft.name ?? `NFT #${nft.objectId.slice(0, 8)}`;
+  return nft.collection && nft.collection !== nft.name ? `${name} (${nft.collection})` : name;
+}
+
+// Generate human-readable explanation; names maps normalized addresses to display names
+// (address labels, then SuiNS names)
+export function explain(action: Action, names: Map<string, string> = new Map()): string {
+  switch (action.type) {
+    case "COIN_TRANSFER": {
+      const coin = action.coin ?? (action.coinType ? fallbackCoinInfo(action.coinType) : undefined);
+      const { amount, symbol } = formatCoinAmount(coin, action.amount);
+      const fromName = resolveDisplayName(action.from, names);
+      const toName = resolveDisplayName(action.to ?? undefined, names);
+      return `${fromName} transferred ${amount} ${symbol} to ${toName}`;
+    }
+    case "NFT_TRANSFER": {
+      const fromName = resolveDisplayName(action.from, names);
+      const toName = resolveDisplayName(action.to ?? undefined, names);
+      if (action.nft) {
+        return `${fromName} transferred ${describeNft(action.nft)} to ${toName}`;
+      }
+      const objectId = action.objectId ? `#${action.objectId.slice(0, 8)}` : "";
+      return `NFT ${objectId} transferred from ${fromName} to ${toName}`;
+    }
+    case "OBJECT_CREATED":
+    case "OBJECT_MUTATED":
+    case "OBJECT_DELETED":
+    case "OBJECT_WRAPPED":
+    case "OBJECT_UNWRAPPED": {
+      const fromName = resolveDisplayName(action.from, names);
+      const change = action.object;
+      if (!change) return `${fromName} ${action.description}`;
+      const what = `${change.objectType ? shortenObjectType(change.objectType) : "object"} ${shortenAddress(change.objectId)}`;
+      const after = describeOwnerInfo(change.ownerAfter, names);
+      switch (change.kind) {
+        case "created":
+          return `${fromName} created ${what}${after ? `, owned by ${after}` : ""}`;
+        case "unwrapped":
+          return `${fromName} unwrapped ${what}${after ? `, now owned by ${after}` : ""}`;
+        case "deleted":
+          return `${fromName} deleted ${what}`;
+        case "wrapped":
+          return `${fromName} wrapped ${what} into another object`;
+        case "mutated": {
+          const before = describeOwnerInfo(change.ownerBefore, names);
+          const moved = before && after && before !== after ? ` and moved it from ${before} to ${after}` : "";
+          return `${fromName} modified ${what}${moved}`;
+        }
+      }
+      return `${fromName} ${action.description}`;
+    }
+    case "PACKAGE_PUBLISHED": {
+      const fromName = resolveDisplayName(action.from, names);
+      const published = action.published;
+      if (!published) return `${fromName} ${action.description}`;
+      const count = published.modules.length;
+      return `${fromName} published package ${shortenPackageId(published.packageId)} with ${count} module${count === 1 ? "" : "s"}: ${published.modules.join(", ")}`;
+    }
+    case "MOVE_CALL": {
+      const fromName = resolveDisplayName(action.from, names);
+      const callInfo = action.coinType || "unknown function";
+      // Format: package::module::function
+      const parts = callInfo.split("::");
+      if (parts.length >= 3) {
+        const [packageId, module, functionName] = parts;
+        const where = action.package ? action.package.name : `package ${shortenPackageId(packageId)}`;
+        return `${fromName} called ${module}::${functionName} in ${where}`;
+      }
+      return `${fromName} executed Move call: ${callInfo}`;
+    }
+    case "CONTRACT_CALL": {
+      const fromName = resolveDisplayName(action.from, names);
+      return `${fromName} executed a contract call`;
+    }
+    case "STAKING":
+    case "UNSTAKING": {
+      const fromName = resolveDisplayName(action.from, names);
+      const staking = action.staking;
+      const { amount, symbol } = formatCoinAmount(action.coin, action.amount);
+      const what = action.amount ? `${amount} ${symbol}` : "SUI";
+      const validator = staking?.validatorName
+        ? `validator ${staking.validatorName} (${resolveDisplayName(action.to, names)})`
+        : action.to
+          ? `validator ${resolveDisplayName(action.to, names)}`
+          : "a validator";
+      if (action.type === "STAKING") {
+        return `${fromName} staked ${what} with ${validator}`;
+      }
+      const reward = staking?.reward ? formatCoinAmount(action.coin, staking.reward) : null;
+      const earned = reward ? `, earning ${reward.amount} ${reward.symbol} in rewards` : "";
+      return `${fromName} unstaked ${what} from ${validator}${earned}`;
+    }
+    case "SWAP": {
+      const fromName = resolveDisplayName(action.from, names);
+      if (!action.swap) return `${fromName} executed a swap`;
+      const { swap } = action;
+      const amountIn = formatCoinAmount(swap.coinInInfo, swap.amountIn);
+      const amountOut = formatCoinAmount(swap.coinOutInfo, swap.amountOut);
+      const price = swap.effectivePrice
+        ? ` (1 ${amountIn.symbol} ≈ ${swap.effectivePrice} ${amountOut.symbol})`
+        : "";
+      return `${fromName} swapped ${amountIn.amount} ${amountIn.symbol} for ${amountOut.amount} ${amountOut.symbol} on ${swap.protocolName}${price}`;
+    }
+    case "TRANSFER_OBJECTS": {
+      const fromName = resolveDisplayName(action.from, names);
+      const toName = resolveDisplayName(action.to, names);
+      const step = action.commandIndex !== undefined ? ` (command ${action.commandIndex + 1})` : "";
+      return `${fromName} ${action.description} to ${toName}${step}`;
+    }
+    case "SPLIT_COINS":
+    case "MERGE_COINS":
+    case "MAKE_MOVE_VEC":
+    case "PUBLISH":
+    case "UPGRADE": {
+      const fromName = resolveDisplayName(action.from, names);
+      const step = action.commandIndex !== undefined ? ` (command ${action.commandIndex + 1})` : "";
+      return `${fromName} ${action.description}${step}`;
+    }
+    default:
+      return "Unrecognized action";
+  }
+}
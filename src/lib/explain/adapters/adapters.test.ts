@@ -0,0 +1,142 @@
+import { readFileSync } from "node:fs";
+import type { SuiEvent, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { collectObjectTypes, decodePtb } from "../ptb";
+import { computeBalanceDeltas } from "../transfers";
+import { detectSwaps } from "./index";
+import type { AdapterContext } from "./types";
+
+const SENDER = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+const FLOWX_AMM = "0xba153169476e8c3114962261d1edc70de5ad9781b83cc617ecc8c1923191cae0";
+const DEEPBOOK_V3 = "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const POOL = "0x0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f9";
+const DEEP = "0xdeeb7a4662eec9f2f3def03fb937a663dddaa2e215b8078a284d026b7946c270::deep::DEEP";
+
+// A sui_getTransactionBlock answer from fixtures/, shaped like the protocol's mainnet swaps
+function loadFixture(name: string): SuiTransactionBlockResponse {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), "utf8"));
+}
+
+// The context buildExplanation hands to the adapters
+function adapterContext(tx: SuiTransactionBlockResponse): AdapterContext {
+  const { computationCost, storageCost, storageRebate } = tx.effects!.gasUsed;
+  const objectTypes = collectObjectTypes(tx.objectChanges);
+  return {
+    sender: tx.transaction!.data.sender,
+    events: tx.events ?? [],
+    commands: decodePtb(tx.transaction?.data.transaction, objectTypes)?.commands ?? [],
+    objectTypes,
+    balanceDeltas: computeBalanceDeltas(tx.balanceChanges),
+    gasCost: BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate),
+  };
+}
+
+const event = (type: string, parsedJson: Record<string, unknown>): SuiEvent => ({
+  id: { txDigest: "tx", eventSeq: "0" },
+  packageId: type.split("::")[0],
+  transactionModule: type.split("::")[1],
+  sender: SENDER,
+  type,
+  parsedJson,
+  bcs: "",
+  bcsEncoding: "base64",
+});
+
+const contextWith = (events: SuiEvent[], objectTypes = new Map<string, string>()): AdapterContext => ({
+  sender: SENDER,
+  events,
+  commands: [],
+  objectTypes,
+  balanceDeltas: [],
+  gasCost: BigInt(0),
+});
+
+describe("adapters", () => {
+  const swapsOf = (name: string) => detectSwaps(adapterContext(loadFixture(name)));
+
+  it("decodes a Cetus swap routed through the integrate package", () => {
+    expect(swapsOf("cetus")).toEqual([
+      {
+        protocol: "cetus",
+        protocolName: "Cetus",
+        pool: "0xfb7a767a5c55917d47593822127b44df42a6d0ddd12cc70ad4d07227d3050a56",
+        coinIn: "0x2::sui::SUI",
+        amountIn: "10000000000",
+        coinOut: USDC,
+        amountOut: "35123456",
+      },
+    ]);
+  });
+
+  it("decodes a Turbos swap from B to A", () => {
+    expect(swapsOf("turbos")).toMatchObject([
+      { protocol: "turbos", coinIn: USDC, amountIn: "250000000", coinOut: "0x2::sui::SUI", amountOut: "71234567890" },
+    ]);
+  });
+
+  it("decodes an Aftermath swap with unprefixed coin types", () => {
+    expect(swapsOf("aftermath")).toMatchObject([
+      {
+        protocol: "aftermath",
+        coinIn: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI",
+        amountIn: "5000000000",
+        coinOut: DEEP,
+        amountOut: "150312345",
+      },
+    ]);
+  });
+
+  it("decodes FlowX AMM and CLMM swaps", () => {
+    expect(swapsOf("flowx-amm")).toMatchObject([
+      { protocol: "flowx", pool: null, coinIn: USDC, amountIn: "40000000", amountOut: "11398765432" },
+    ]);
+    expect(swapsOf("flowx-clmm")).toMatchObject([
+      { protocol: "flowx", coinIn: "0x2::sui::SUI", amountIn: "20000000000", coinOut: USDC, amountOut: "70187654" },
+    ]);
+  });
+
+  it("sums the fills of a DeepBook v3 market order", () => {
+    expect(swapsOf("deepbook-v3")).toMatchObject([
+      { protocol: "deepbook", coinIn: "0x2::sui::SUI", amountIn: "300000000000", coinOut: USDC, amountOut: "1053500000" },
+    ]);
+  });
+
+  it("prices a DeepBook v2 fill, which only reports its base quantity", () => {
+    expect(swapsOf("deepbook-v2")).toMatchObject([
+      { protocol: "deepbook", coinIn: USDC, amountIn: "98000000", coinOut: "0x2::sui::SUI", amountOut: "28000000000" },
+    ]);
+  });
+});
+
+describe("malformed events", () => {
+  it("skips FlowX swaps with a missing or malformed amount", () => {
+    const swapped = (amountXIn: unknown) =>
+      event(`${FLOWX_AMM}::pair::Swapped`, {
+        coin_x: "0000000000000000000000000000000000000000000000000000000000000002::sui::SUI",
+        coin_y: USDC.slice(2),
+        amount_x_in: amountXIn,
+        amount_y_in: "0",
+        amount_x_out: "0",
+        amount_y_out: "35000000",
+      });
+
+    expect(detectSwaps(contextWith([swapped(undefined), swapped("1.5e9")]))).toEqual([]);
+    expect(detectSwaps(contextWith([swapped("abc"), swapped("10000000000")]))).toHaveLength(1);
+  });
+
+  it("skips DeepBook fills with a malformed quantity", () => {
+    const filled = (baseQuantity: string) =>
+      event(`${DEEPBOOK_V3}::order_info::OrderFilled`, {
+        pool_id: POOL,
+        taker_is_bid: false,
+        base_quantity: baseQuantity,
+        quote_quantity: "35000000",
+      });
+    const objectTypes = new Map([[POOL, `${DEEPBOOK_V3}::pool::Pool<0x2::sui::SUI, ${USDC}>`]]);
+
+    const swaps = detectSwaps(contextWith([filled("10000000000"), filled("0x")], objectTypes));
+    expect(swaps).toHaveLength(1);
+    expect(swaps[0]).toMatchObject({ amountIn: "10000000000", amountOut: "35000000" });
+  });
+});
@@ -0,0 +1,41 @@
+import type { ProtocolAdapter } from "./types";
+import { field, normalizeCoinTypeName } from "./utils";
+
+// Aftermath AMM. SwapEvent lists coin types and amounts on both sides, so no pool lookup is needed.
+const AFTERMATH_AMM_PACKAGE = "0xefe170ec0be4d762196bedecd7a065816576198a6527c99282a2551aaa7da38c";
+
+type AftermathSwapEvent = {
+  pool_id?: string;
+  types_in?: string[];
+  amounts_in?: string[];
+  types_out?: string[];
+  amounts_out?: string[];
+};
+
+export const aftermathAdapter: ProtocolAdapter = {
+  id: "aftermath",
+  name: "Aftermath",
+  moveCalls: [{ package: AFTERMATH_AMM_PACKAGE, module: "swap" }],
+  eventTypes: [
+    `${AFTERMATH_AMM_PACKAGE}::events::SwapEvent`,
+    `${AFTERMATH_AMM_PACKAGE}::events::SwapEventV2`,
+  ],
+  decodeSwaps(events) {
+    return events.flatMap((event) => {
+      const parsed = event.parsedJson as AftermathSwapEvent | undefined;
+      const coinIn = parsed?.types_in?.[0];
+      const coinOut = parsed?.types_out?.[0];
+      if (!coinIn || !coinOut) return [];
+
+      return [
+        {
+          pool: field(event, "pool_id"),
+          coinIn: normalizeCoinTypeName(coinIn),
+          amountIn: String(parsed?.amounts_in?.[0] ?? "0"),
+          coinOut: normalizeCoinTypeName(coinOut),
+          amountOut: String(parsed?.amounts_out?.[0] ?? "0"),
+        },
+      ];
+    });
+  },
+};
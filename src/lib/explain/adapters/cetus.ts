@@ -0,0 +1,30 @@
+import type { ProtocolAdapter } from "./types";
+import { booleanField, field, typeParameters } from "./utils";
+
+// Cetus CLMM. SwapEvent carries the pool and direction; coin types come from Pool<A, B>.
+const CETUS_CLMM_PACKAGE = "0x1eabed72c53feb3805120a081dc15963c204dc8d091542592abaf7a35689b2fb";
+
+export const cetusAdapter: ProtocolAdapter = {
+  id: "cetus",
+  name: "Cetus",
+  moveCalls: [{ package: CETUS_CLMM_PACKAGE, module: "pool" }],
+  eventTypes: [`${CETUS_CLMM_PACKAGE}::pool::SwapEvent`],
+  decodeSwaps(events, { objectTypes }) {
+    return events.flatMap((event) => {
+      const pool = field(event, "pool");
+      const [coinA, coinB] = typeParameters(pool ? objectTypes.get(pool) : null);
+      if (!coinA || !coinB) return [];
+
+      const aToB = booleanField(event, "atob");
+      return [
+        {
+          pool,
+          coinIn: aToB ? coinA : coinB,
+          amountIn: field(event, "amount_in") ?? "0",
+          coinOut: aToB ? coinB : coinA,
+          amountOut: field(event, "amount_out") ?? "0",
+        },
+      ];
+    });
+  },
+};
@@ -0,0 +1,73 @@
+import type { DecodedSwap, ProtocolAdapter } from "./types";
+import { bigintField, booleanField, eventStructType, field, normalizeStructName, typeParameters } from "./utils";
+
+// DeepBook v3 and v2. A market order emits one OrderFilled event per maker it matched,
+// so fills are summed per pool and direction into a single swap.
+const DEEPBOOK_V3_PACKAGE = "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809";
+const DEEPBOOK_V2_PACKAGE = "0x000000000000000000000000000000000000000000000000000000000000dee9";
+
+const V3_ORDER_FILLED = `${DEEPBOOK_V3_PACKAGE}::order_info::OrderFilled`;
+const V2_ORDER_FILLED = `${DEEPBOOK_V2_PACKAGE}::clob_v2::OrderFilled`;
+
+// v2 prices are quote units per base unit, scaled by 10^9
+const V2_PRICE_SCALING = BigInt(1000000000);
+
+export const deepbookAdapter: ProtocolAdapter = {
+  id: "deepbook",
+  name: "DeepBook",
+  moveCalls: [
+    { package: DEEPBOOK_V3_PACKAGE, module: "pool" },
+    { package: DEEPBOOK_V2_PACKAGE, module: "clob_v2" },
+  ],
+  eventTypes: [V3_ORDER_FILLED, V2_ORDER_FILLED],
+  decodeSwaps(events, { objectTypes }) {
+    const swaps = new Map<string, DecodedSwap>();
+
+    for (const event of events) {
+      let pool: string | null;
+      let base: string | undefined;
+      let quote: string | undefined;
+      let takerBuysBase: boolean;
+      let baseQuantity: bigint | null;
+      let quoteQuantity: bigint | null;
+
+      if (eventStructType(event) === normalizeStructName(V2_ORDER_FILLED)) {
+        // v2 carries the coin types on the event itself; is_bid describes the maker side.
+        // Fills only report the base quantity, so the quote side comes from the price.
+        pool = field(event, "pool_id");
+        [base, quote] = typeParameters(event.type);
+        takerBuysBase = !booleanField(event, "is_bid");
+        baseQuantity = bigintField(event, "base_asset_quantity_filled");
+        const price = bigintField(event, "price");
+        quoteQuantity = baseQuantity !== null && price !== null ? (baseQuantity * price) / V2_PRICE_SCALING : null;
+      } else {
+        pool = field(event, "pool_id");
+        [base, quote] = typeParameters(pool ? objectTypes.get(pool) : null);
+        takerBuysBase = booleanField(event, "taker_is_bid");
+        baseQuantity = bigintField(event, "base_quantity");
+        quoteQuantity = bigintField(event, "quote_quantity");
+      }
+      if (!base || !quote || baseQuantity === null || quoteQuantity === null) continue;
+
+      const key = `${pool}|${takerBuysBase}`;
+      const existing = swaps.get(key);
+      const amountIn = takerBuysBase ? quoteQuantity : baseQuantity;
+      const amountOut = takerBuysBase ? baseQuantity : quoteQuantity;
+
+      if (existing) {
+        existing.amountIn = (BigInt(existing.amountIn) + amountIn).toString(10);
+        existing.amountOut = (BigInt(existing.amountOut) + amountOut).toString(10);
+      } else {
+        swaps.set(key, {
+          pool,
+          coinIn: takerBuysBase ? quote : base,
+          amountIn: amountIn.toString(10),
+          coinOut: takerBuysBase ? base : quote,
+          amountOut: amountOut.toString(10),
+        });
+      }
+    }
+
+    return Array.from(swaps.values());
+  },
+};
@@ -0,0 +1,57 @@
+import type { ProtocolAdapter } from "./types";
+import { bigintField, booleanField, eventStructType, field, normalizeCoinTypeName, normalizeStructName, typeParameters } from "./utils";
+
+// FlowX AMM (pair::Swapped, coin types in the event) and FlowX CLMM (pool::Swap, coin types from Pool<X, Y>)
+const FLOWX_AMM_PACKAGE = "0xba153169476e8c3114962261d1edc70de5ad9781b83cc617ecc8c1923191cae0";
+const FLOWX_CLMM_PACKAGE = "0x25929e7f29e0a30eb4e692952ba1b5b65a3a4d65ab5f2a32e1ba3edcb587f26d";
+
+const AMM_SWAPPED = `${FLOWX_AMM_PACKAGE}::pair::Swapped`;
+const CLMM_SWAP = `${FLOWX_CLMM_PACKAGE}::pool::Swap`;
+
+export const flowxAdapter: ProtocolAdapter = {
+  id: "flowx",
+  name: "FlowX",
+  moveCalls: [
+    { package: FLOWX_AMM_PACKAGE, module: "router" },
+    { package: FLOWX_CLMM_PACKAGE, module: "swap_router" },
+  ],
+  eventTypes: [AMM_SWAPPED, CLMM_SWAP],
+  decodeSwaps(events, { objectTypes }) {
+    return events.flatMap((event) => {
+      if (eventStructType(event) === normalizeStructName(AMM_SWAPPED)) {
+        const coinX = field(event, "coin_x");
+        const coinY = field(event, "coin_y");
+        const amountXIn = bigintField(event, "amount_x_in");
+        if (!coinX || !coinY || amountXIn === null) return [];
+
+        const xIn = amountXIn > BigInt(0);
+        return [
+          {
+            pool: null,
+            coinIn: normalizeCoinTypeName(xIn ? coinX : coinY),
+            amountIn: (xIn ? field(event, "amount_x_in") : field(event, "amount_y_in")) ?? "0",
+            coinOut: normalizeCoinTypeName(xIn ? coinY : coinX),
+            amountOut: (xIn ? field(event, "amount_y_out") : field(event, "amount_x_out")) ?? "0",
+          },
+        ];
+      }
+
+      const pool = field(event, "pool_id");
+      const [coinX, coinY] = typeParameters(pool ? objectTypes.get(pool) : null);
+      if (!coinX || !coinY) return [];
+
+      const xForY = booleanField(event, "x_for_y");
+      const amountX = field(event, "amount_x") ?? "0";
+      const amountY = field(event, "amount_y") ?? "0";
+      return [
+        {
+          pool,
+          coinIn: xForY ? coinX : coinY,
+          amountIn: xForY ? amountX : amountY,
+          coinOut: xForY ? coinY : coinX,
+          amountOut: xForY ? amountY : amountX,
+        },
+      ];
+    });
+  },
+};
@@ -0,0 +1,17 @@
+// Protocol adapters recognise protocol-specific activity (currently swaps) from Move calls
+// and events. To support a new protocol, add an adapter module and register it here.
+import { aftermathAdapter } from "./aftermath";
+import { cetusAdapter } from "./cetus";
+import { deepbookAdapter } from "./deepbook";
+import { flowxAdapter } from "./flowx";
+import { registerAdapter } from "./registry";
+import { turbosAdapter } from "./turbos";
+
+registerAdapter(cetusAdapter);
+registerAdapter(turbosAdapter);
+registerAdapter(aftermathAdapter);
+registerAdapter(flowxAdapter);
+registerAdapter(deepbookAdapter);
+
+export { detectSwaps, effectivePrice, getAdapters, registerAdapter } from "./registry";
+export type { AdapterContext, DecodedSwap, MoveCallKey, ProtocolAdapter, SwapDetails } from "./types";
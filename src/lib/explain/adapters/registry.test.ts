@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { PtbCommand } from "../ptb";
+import { detectSwaps } from "./index";
+import type { AdapterContext } from "./types";
+
+const SENDER = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+const CETUS = "0x1eabed72c53feb3805120a081dc15963c204dc8d091542592abaf7a35689b2fb";
+const TURBOS = "0x91bfbc386a41afcfd9b2533058d7e915a1d3829089cc268ff4333d54d6339ca1";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const POOL = "0x0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f9";
+
+const moveCall = (index: number, pkg: string, module: string, fn: string): PtbCommand => ({
+  index,
+  type: "MoveCall",
+  arguments: [],
+  target: { package: pkg, module, function: fn, typeArguments: [] },
+});
+
+// The sender paid 10 SUI (plus 0.01 SUI gas) for 35 USDC
+const context = (overrides: Partial<AdapterContext>): AdapterContext => ({
+  sender: SENDER,
+  events: [],
+  commands: [],
+  objectTypes: new Map(),
+  balanceDeltas: [
+    { owner: SENDER, coinType: "0x2::sui::SUI", amount: "-10010000000" },
+    { owner: SENDER, coinType: USDC, amount: "35000000" },
+  ],
+  gasCost: BigInt(10000000),
+  ...overrides,
+});
+
+describe("detectSwaps", () => {
+  it("infers a swap from balance deltas when a known Move call emits no known event", () => {
+    const swaps = detectSwaps(context({ commands: [moveCall(0, CETUS, "pool", "flash_swap")] }));
+    expect(swaps).toEqual([
+      {
+        protocol: "cetus",
+        protocolName: "Cetus",
+        pool: null,
+        coinIn: "0x2::sui::SUI",
+        amountIn: "10000000000",
+        coinOut: USDC,
+        amountOut: "35000000",
+      },
+    ]);
+  });
+
+  it("infers the swap once when a route calls several protocols", () => {
+    const swaps = detectSwaps(
+      context({
+        commands: [moveCall(0, CETUS, "pool", "flash_swap"), moveCall(1, TURBOS, "swap_router", "swap_a_b")],
+      }),
+    );
+    expect(swaps).toHaveLength(1);
+    expect(swaps[0].protocol).toBe("cetus");
+  });
+
+  it("does not infer a swap that another adapter decoded from events", () => {
+    const swaps = detectSwaps(
+      context({
+        commands: [moveCall(0, TURBOS, "swap_router", "swap_a_b")],
+        objectTypes: new Map([[POOL, `${CETUS}::pool::Pool<0x2::sui::SUI, ${USDC}>`]]),
+        events: [
+          {
+            id: { txDigest: "tx", eventSeq: "0" },
+            packageId: CETUS,
+            transactionModule: "pool",
+            sender: SENDER,
+            type: `${CETUS}::pool::SwapEvent`,
+            parsedJson: { pool: POOL, atob: true, amount_in: "10000000000", amount_out: "35000000" },
+            bcs: "",
+            bcsEncoding: "base64",
+          },
+        ],
+      }),
+    );
+    expect(swaps.map((swap) => swap.protocol)).toEqual(["cetus"]);
+  });
+
+  it("finds nothing in an unrelated transaction", () => {
+    expect(detectSwaps(context({ commands: [moveCall(0, "0x2", "coin", "split")] }))).toEqual([]);
+  });
+});
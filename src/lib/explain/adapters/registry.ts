@@ -0,0 +1,94 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { formatCoinAmount, type CoinInfo } from "@/lib/sui/coin-metadata";
+import { SUI_COIN_TYPE } from "../transfers";
+import type { PtbCommand } from "../ptb";
+import type { AdapterContext, DecodedSwap, MoveCallKey, ProtocolAdapter, SwapDetails } from "./types";
+import { eventStructType, normalizeStructName } from "./utils";
+
+const adapters = new Map<string, ProtocolAdapter>();
+
+// Register a protocol adapter. Registering the same id again replaces the previous adapter.
+export function registerAdapter(adapter: ProtocolAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+export function getAdapters(): ProtocolAdapter[] {
+  return Array.from(adapters.values());
+}
+
+function matchesMoveCall(key: MoveCallKey, command: PtbCommand): boolean {
+  const target = command.target;
+  if (command.type !== "MoveCall" || !target) return false;
+  return (
+    normalizeSuiAddress(key.package) === normalizeSuiAddress(target.package) &&
+    (key.module === undefined || key.module === target.module) &&
+    (key.function === undefined || key.function === target.function)
+  );
+}
+
+// When an adapter's Move call matched but none of its events did (e.g. a router that
+// emits nothing we know), infer one swap from what the sender spent and received.
+function swapFromBalanceDeltas(context: AdapterContext): DecodedSwap | null {
+  const deltas = context.balanceDeltas
+    .filter((d) => d.owner === context.sender)
+    .map((d) => {
+      let amount = BigInt(d.amount);
+      if (d.coinType === SUI_COIN_TYPE) amount += context.gasCost;
+      return { coinType: d.coinType, amount };
+    });
+  const spent = deltas.filter((d) => d.amount < BigInt(0));
+  const received = deltas.filter((d) => d.amount > BigInt(0));
+  if (spent.length !== 1 || received.length !== 1) return null;
+
+  return {
+    pool: null,
+    coinIn: spent[0].coinType,
+    amountIn: (-spent[0].amount).toString(10),
+    coinOut: received[0].coinType,
+    amountOut: received[0].amount.toString(10),
+  };
+}
+
+// Run every registered adapter whose Move calls or event types appear in the transaction
+export function detectSwaps(context: AdapterContext): SwapDetails[] {
+  const swaps: SwapDetails[] = [];
+  // First adapter whose Move call matched without any of its events decoding a swap
+  let inferFor: ProtocolAdapter | null = null;
+
+  for (const adapter of adapters.values()) {
+    const eventTypes = new Set((adapter.eventTypes ?? []).map(normalizeStructName));
+    const events = context.events.filter((event) => eventTypes.has(eventStructType(event)));
+    const callMatched = (adapter.moveCalls ?? []).some((key) =>
+      context.commands.some((command) => matchesMoveCall(key, command)),
+    );
+    if (events.length === 0 && !callMatched) continue;
+
+    const decoded = events.length > 0 ? adapter.decodeSwaps(events, context) : [];
+    if (decoded.length === 0 && callMatched) inferFor ??= adapter;
+
+    for (const swap of decoded) {
+      swaps.push({ protocol: adapter.id, protocolName: adapter.name, ...swap });
+    }
+  }
+
+  // Balance deltas describe the whole transaction, so they yield at most one swap, and none
+  // when events already did (a route through several protocols matches each of them)
+  if (swaps.length === 0 && inferFor) {
+    const inferred = swapFromBalanceDeltas(context);
+    if (inferred) swaps.push({ protocol: inferFor.id, protocolName: inferFor.name, ...inferred });
+  }
+
+  return swaps;
+}
+
+// Units of coinOut received per one unit of coinIn, in display units
+export function effectivePrice(
+  swap: SwapDetails,
+  coinIn: CoinInfo,
+  coinOut: CoinInfo,
+): string | null {
+  const amountIn = Number(formatCoinAmount(coinIn, swap.amountIn).amount);
+  const amountOut = Number(formatCoinAmount(coinOut, swap.amountOut).amount);
+  if (!Number.isFinite(amountIn) || !Number.isFinite(amountOut) || amountIn === 0) return null;
+  return String(Number((amountOut / amountIn).toPrecision(6)));
+}
@@ -0,0 +1,32 @@
+import type { ProtocolAdapter } from "./types";
+import { booleanField, field, typeParameters } from "./utils";
+
+// Turbos CLMM. SwapEvent reports both legs as amount_a/amount_b; coin types come from Pool<A, B, Fee>.
+const TURBOS_PACKAGE = "0x91bfbc386a41afcfd9b2533058d7e915a1d3829089cc268ff4333d54d6339ca1";
+
+export const turbosAdapter: ProtocolAdapter = {
+  id: "turbos",
+  name: "Turbos",
+  moveCalls: [{ package: TURBOS_PACKAGE, module: "swap_router" }],
+  eventTypes: [`${TURBOS_PACKAGE}::pool::SwapEvent`],
+  decodeSwaps(events, { objectTypes }) {
+    return events.flatMap((event) => {
+      const pool = field(event, "pool");
+      const [coinA, coinB] = typeParameters(pool ? objectTypes.get(pool) : null);
+      if (!coinA || !coinB) return [];
+
+      const aToB = booleanField(event, "a_to_b");
+      const amountA = field(event, "amount_a") ?? "0";
+      const amountB = field(event, "amount_b") ?? "0";
+      return [
+        {
+          pool,
+          coinIn: aToB ? coinA : coinB,
+          amountIn: aToB ? amountA : amountB,
+          coinOut: aToB ? coinB : coinA,
+          amountOut: aToB ? amountB : amountA,
+        },
+      ];
+    });
+  },
+};
@@ -0,0 +1,47 @@
+import type { SuiEvent } from "@mysten/sui/client";
+import type { BalanceDelta } from "../transfers";
+import type { PtbCommand } from "../ptb";
+
+// A single swap recognised by a protocol adapter. Amounts are raw base units.
+export type SwapDetails = {
+  protocol: string;
+  protocolName: string;
+  pool: string | null;
+  coinIn: string;
+  amountIn: string;
+  coinOut: string;
+  amountOut: string;
+};
+
+// What an adapter returns; the registry fills in the protocol fields
+export type DecodedSwap = Omit<SwapDetails, "protocol" | "protocolName">;
+
+// Everything an adapter may look at when decoding a transaction
+export type AdapterContext = {
+  sender: string;
+  events: SuiEvent[];
+  commands: PtbCommand[];
+  // Object id → type, from the transaction's object changes
+  objectTypes: Map<string, string>;
+  balanceDeltas: BalanceDelta[];
+  // Net gas charged to the sender, so SUI spent on gas is not counted as swapped
+  gasCost: bigint;
+};
+
+// Registry key for a Move call. Omitted fields match anything.
+export type MoveCallKey = {
+  package: string;
+  module?: string;
+  function?: string;
+};
+
+export type ProtocolAdapter = {
+  id: string;
+  name: string;
+  // The adapter runs when any Move call or event in the transaction matches one of these keys
+  moveCalls?: MoveCallKey[];
+  // Event struct types (package::module::Name, without type parameters)
+  eventTypes?: string[];
+  // Decode swaps from the events that matched `eventTypes`
+  decodeSwaps(events: SuiEvent[], context: AdapterContext): DecodedSwap[];
+};
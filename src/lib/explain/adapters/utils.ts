@@ -0,0 +1,63 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { SuiEvent } from "@mysten/sui/client";
+
+// Event type without its type parameters, with a normalized package address
+export function eventStructType(event: SuiEvent): string {
+  return normalizeStructName(event.type.replace(/<.*$/, ""));
+}
+
+export function normalizeStructName(structName: string): string {
+  const [address, ...rest] = structName.split("::");
+  return [normalizeSuiAddress(address), ...rest].join("::");
+}
+
+// Coin types in events are sometimes emitted without the 0x prefix
+export function normalizeCoinTypeName(coinType: string): string {
+  return coinType.startsWith("0x") ? coinType : `0x${coinType}`;
+}
+
+// Split the top-level type parameters of a struct type, e.g. Pool<A, B<C>> → ["A", "B<C>"]
+export function typeParameters(structType: string | null | undefined): string[] {
+  if (!structType) return [];
+  const start = structType.indexOf("<");
+  if (start === -1 || !structType.endsWith(">")) return [];
+
+  const params: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of structType.slice(start + 1, -1)) {
+    if (char === "<") depth++;
+    if (char === ">") depth--;
+    if (char === "," && depth === 0) {
+      params.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) params.push(current.trim());
+  return params;
+}
+
+// Read a field of an event's parsedJson as a string
+export function field(event: SuiEvent, name: string): string | null {
+  const value = (event.parsedJson as Record<string, unknown> | undefined)?.[name];
+  if (value === undefined || value === null) return null;
+  return typeof value === "object" ? null : String(value);
+}
+
+// Read an integer field of an event's parsedJson, or null when it is missing or malformed
+export function bigintField(event: SuiEvent, name: string): bigint | null {
+  const value = field(event, name);
+  if (value === null) return null;
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+export function booleanField(event: SuiEvent, name: string): boolean {
+  const value = (event.parsedJson as Record<string, unknown> | undefined)?.[name];
+  return value === true || value === "true";
+}
@@ -0,0 +1,132 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { mapWithConcurrency } from "@/lib/async";
+import { getSuiClient, TRANSACTION_BLOCK_OPTIONS } from "@/lib/sui/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { cacheAnalysis, getCachedAnalysis } from "@/lib/cache/explanations";
+import { analyzeTransaction, explanationHeadline, nameParties, type Explanation } from "./index";
+
+// Explain many digests at once. Transactions are fetched with multiGetTransactionBlocks in
+// chunks, a few chunks at a time; a chunk that fails (the RPC rejects the whole call when one
+// digest is unknown) is retried digest by digest so only the bad digests report errors.
+
+export const MAX_BATCH_SIZE = 500;
+
+// multiGetTransactionBlocks accepts at most 50 digests per call
+const CHUNK_SIZE = 50;
+// RPC calls (and explanations) in flight at once
+const CONCURRENCY = 4;
+
+export type BatchResult =
+  | {
+      digest: string;
+      ok: true;
+      headline: string;
+      // The full explanation, without the raw transaction to keep batch responses small
+      explanation: Omit<Explanation, "raw">;
+    }
+  | {
+      digest: string;
+      ok: false;
+      error: string;
+    };
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function fetchChunk(
+  network: SuiNetwork,
+  digests: string[],
+): Promise<Map<string, SuiTransactionBlockResponse | Error>> {
+  const client = getSuiClient(network);
+  const found = new Map<string, SuiTransactionBlockResponse | Error>();
+
+  try {
+    const txBlocks = await client.multiGetTransactionBlocks({
+      digests,
+      options: TRANSACTION_BLOCK_OPTIONS,
+    });
+    for (const txBlock of txBlocks) found.set(txBlock.digest, txBlock);
+  } catch (error) {
+    // Retrying one by one only helps when the call was rejected, not when the RPC is down
+    if (error instanceof RpcUnavailableError) {
+      for (const digest of digests) found.set(digest, error);
+      return found;
+    }
+    console.error("Batch fetch failed, retrying digests individually:", errorMessage(error));
+    await mapWithConcurrency(digests, CONCURRENCY, async (digest) => {
+      try {
+        found.set(digest, await client.getTransactionBlock({ digest, options: TRANSACTION_BLOCK_OPTIONS }));
+      } catch (digestError) {
+        found.set(digest, digestError instanceof Error ? digestError : new Error(String(digestError)));
+      }
+    });
+  }
+
+  return found;
+}
+
+// Transaction blocks of the given digests, keyed by digest; a digest that could not be fetched maps
+// to its error and one the fullnode does not know is left out
+export async function fetchTransactionBlocks(
+  network: SuiNetwork,
+  digests: string[],
+): Promise<Map<string, SuiTransactionBlockResponse | Error>> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < digests.length; i += CHUNK_SIZE) chunks.push(digests.slice(i, i + CHUNK_SIZE));
+
+  const fetched = new Map<string, SuiTransactionBlockResponse | Error>();
+  for (const chunk of await mapWithConcurrency(chunks, CONCURRENCY, (c) => fetchChunk(network, c))) {
+    for (const [digest, result] of chunk) fetched.set(digest, result);
+  }
+  return fetched;
+}
+
+function toResult(digest: string, full: Explanation): BatchResult {
+  const explanation: Omit<Explanation, "raw"> & Partial<Pick<Explanation, "raw">> = { ...full };
+  delete explanation.raw;
+  return { digest, ok: true, headline: explanationHeadline(full), explanation };
+}
+
+// Explain each digest, in input order; digests must already be validated and normalized.
+// Finalized analyses come from (and go to) the explanation cache unless bypassCache is set.
+export async function explainBatch(
+  network: SuiNetwork,
+  digests: string[],
+  options: { bypassCache?: boolean } = {},
+): Promise<BatchResult[]> {
+  const unique = Array.from(new Set(digests));
+  const explained = new Map<string, BatchResult>();
+
+  if (!options.bypassCache) {
+    for (const digest of unique) {
+      const cached = await getCachedAnalysis(network, digest);
+      if (cached) explained.set(digest, toResult(digest, await nameParties(cached.analysis)));
+    }
+  }
+
+  const missing = unique.filter((digest) => !explained.has(digest));
+  const fetched = await fetchTransactionBlocks(network, missing);
+
+  await mapWithConcurrency(missing, CONCURRENCY, async (digest) => {
+    const txBlock = fetched.get(digest);
+    if (!txBlock) {
+      explained.set(digest, { digest, ok: false, error: "Transaction not found" });
+      return;
+    }
+    if (txBlock instanceof Error) {
+      explained.set(digest, { digest, ok: false, error: txBlock.message });
+      return;
+    }
+    try {
+      const analysis = await analyzeTransaction(txBlock, network);
+      await cacheAnalysis(analysis, false);
+      explained.set(digest, toResult(digest, await nameParties(analysis)));
+    } catch (error) {
+      explained.set(digest, { digest, ok: false, error: errorMessage(error) });
+    }
+  });
+
+  return digests.map((digest) => explained.get(digest)!);
+}
@@ -0,0 +1,91 @@
+import { readFileSync } from "node:fs";
+import { JsonRpcError, type SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { setDataSource } from "@/lib/sui/client";
+import { parseExportFormat, renderCsv, renderMarkdown, toExportDocument } from "./export";
+import { buildExplanation, type Explanation } from "./index";
+
+const SENDER = "0x7cd05ab4ad187a0878785f3c4d9bad5e8ba3eaeff1f72166fe46d845006ae4a6";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+// The Cetus swap fixture, explained against a fullnode that knows USDC and the sender's name
+let explanation: Explanation;
+
+beforeAll(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  setDataSource({
+    name: "test",
+    createTransport: () => ({
+      async request<T>({ method, params }: { method: string; params: unknown[] }): Promise<T> {
+        if (method === "suix_getCoinMetadata" && params[0] === USDC) {
+          return { decimals: 6, name: "USDC", symbol: "USDC", description: "", iconUrl: null, id: null } as T;
+        }
+        if (method === "suix_resolveNameServiceNames" && params[0] === SENDER) {
+          return { data: ["trader.sui"], hasNextPage: false, nextCursor: null } as T;
+        }
+        throw new JsonRpcError(`${method} is not supported`, -32601);
+      },
+      async subscribe() {
+        throw new Error("Not supported");
+      },
+    }),
+  });
+  const txBlock: SuiTransactionBlockResponse = JSON.parse(
+    readFileSync(new URL("./adapters/fixtures/cetus.json", import.meta.url), "utf8"),
+  );
+  explanation = await buildExplanation(txBlock, "mainnet");
+  vi.restoreAllMocks();
+});
+
+describe("exports", () => {
+  it("parses format names case-insensitively", () => {
+    expect(parseExportFormat("Markdown")).toBe("markdown");
+    expect(parseExportFormat("xml")).toBeNull();
+    expect(parseExportFormat(null)).toBeNull();
+  });
+
+  it("leaves the raw transaction out of the JSON document", () => {
+    const document = toExportDocument({ ...explanation, simulated: true });
+    expect(document).not.toHaveProperty("raw");
+    expect(document).toMatchObject({ exportVersion: 1, simulated: true, names: { [SENDER]: "trader.sui" } });
+    expect(document.actions.map((action) => action.explanation)).toEqual(explanation.actionExplanations);
+  });
+
+  it("names the recipient of transferred objects", () => {
+    const transfer = explanation.actions.findIndex((action) => action.type === "TRANSFER_OBJECTS");
+    expect(explanation.actionExplanations[transfer]).toMatch(/^trader\.sui transferred .+ to trader\.sui \(command \d+\)$/);
+  });
+
+  it("renders Markdown with named parties and escaped table cells", () => {
+    const markdown = renderMarkdown({ ...explanation, transactionType: "Programmable | Swap" });
+    expect(markdown).toMatch(/^# Sui transaction /);
+    expect(markdown).toContain(`| Sender | \`${SENDER}\` (trader.sui) |`);
+    expect(markdown).toContain("| Transaction type | Programmable \\| Swap |");
+    expect(markdown).toContain(`| \`${SENDER}\` (trader.sui) | 35.123456 USDC |  |`);
+    expect(markdown).toContain("| Total | 0.0011244 SUI |");
+  });
+
+  it("renders one CSV row per transfer plus the gas", () => {
+    const rows = renderCsv(explanation).split("\r\n");
+    expect(rows[0]).toBe(
+      "digest,network,timestamp,kind,from,to,coin_type,symbol,amount_raw,amount,fiat_value,fiat_currency,object_id",
+    );
+    expect(rows).toHaveLength(1 + explanation.transfers.coins.length + 1 + 1);
+    expect(rows.at(-1)).toBe("");
+    const gas = rows.at(-2)!.split(",");
+    expect(gas.slice(3, 10)).toEqual([
+      "gas",
+      SENDER,
+      "",
+      "0x2::sui::SUI",
+      "SUI",
+      "1124400",
+      "0.0011244",
+    ]);
+  });
+
+  it("quotes CSV fields with commas and quotes", () => {
+    const csv = renderCsv({ ...explanation, timestamp: 'late, "ish"' });
+    expect(csv.split("\r\n")[1]).toContain(`,"late, ""ish""",`);
+  });
+});
@@ -0,0 +1,276 @@
+import { labelKey } from "@/lib/labels/labels";
+import { formatCoinAmount, SUI_COIN_INFO, type CoinInfo } from "@/lib/sui/coin-metadata";
+import { OBJECT_ACTION_TYPES } from "./actions";
+import type { FiatValue } from "./fiat";
+import { explanationHeadline, type Explanation } from "./index";
+import { SUI_COIN_TYPE } from "./transfers";
+
+// Renders an explanation for attaching to reports: a trimmed JSON document (everything but the
+// raw transaction), Markdown, or CSV rows of the value that moved.
+
+export const EXPORT_FORMATS = ["json", "markdown", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function parseExportFormat(value: string | null | undefined): ExportFormat | null {
+  return EXPORT_FORMATS.find((format) => format === value?.toLowerCase()) ?? null;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  markdown: "md",
+  csv: "csv",
+};
+
+// Dry-run explanations are marked as simulated
+type ExportableExplanation = Explanation & { simulated?: boolean };
+
+// Bumped whenever a field of the JSON export changes meaning or is removed
+const EXPORT_VERSION = 1;
+
+// The explanation without the raw transaction block, keys in a fixed order
+export function toExportDocument(explanation: ExportableExplanation) {
+  return {
+    exportVersion: EXPORT_VERSION,
+    txDigest: explanation.txDigest,
+    network: explanation.network,
+    status: explanation.status,
+    simulated: explanation.simulated ?? false,
+    transactionType: explanation.transactionType,
+    checkpointSeq: explanation.checkpointSeq,
+    timestamp: explanation.timestamp,
+    timestampMs: explanation.timestampMs,
+    headline: explanationHeadline(explanation),
+    summary: explanation.summary,
+    failure: explanation.failure,
+    actions: explanation.actions.map((action, i) => ({
+      ...action,
+      explanation: explanation.actionExplanations[i],
+    })),
+    transfers: explanation.transfers,
+    gas: explanation.gas,
+    commands: explanation.commands,
+    names: explanation.names,
+    labels: explanation.labels,
+    packages: explanation.packages,
+    prices: explanation.prices,
+  };
+}
+
+function formatAmount(coin: CoinInfo | undefined, rawAmount: string | undefined): string {
+  const { amount, symbol } = formatCoinAmount(coin, rawAmount);
+  return `${amount} ${symbol}`;
+}
+
+function formatFiat(fiat: FiatValue | null | undefined): string {
+  return fiat ? `${fiat.value.toFixed(2)} ${fiat.currency}` : "";
+}
+
+// Address followed by its label or SuiNS name, if it has one
+function formatParty(explanation: ExportableExplanation, address: string | null | undefined): string {
+  if (!address) return "—";
+  const key = labelKey(address) ?? address;
+  const name = explanation.labels[key]?.label ?? explanation.names[key];
+  return name ? `\`${address}\` (${name})` : `\`${address}\``;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function markdownTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.map(markdownCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ];
+}
+
+export function renderMarkdown(explanation: ExportableExplanation): string {
+  const { summary, gas, failure, transfers } = explanation;
+  const lines: string[] = [`# Sui transaction ${explanation.txDigest}`, ""];
+
+  if (explanation.simulated) {
+    lines.push("> Simulated (dry run): not executed on chain.", "");
+  }
+  lines.push(explanationHeadline(explanation), "");
+
+  lines.push("## Summary", "");
+  lines.push(
+    ...markdownTable(
+      ["Field", "Value"],
+      [
+        ["Status", explanation.status],
+        ["Network", explanation.network],
+        ["Sender", formatParty(explanation, summary.from)],
+        ["Transaction type", explanation.transactionType],
+        ["Timestamp", explanation.timestamp ?? "—"],
+        ["Checkpoint", explanation.checkpointSeq ?? "—"],
+        ["Objects created", String(summary.objectsCreated)],
+      ],
+    ),
+    "",
+  );
+
+  if (failure) {
+    lines.push("## Failure", "", failure.cause, "");
+    if (failure.failedCommand) {
+      lines.push(`Failed command ${failure.failedCommand.index}: ${failure.failedCommand.description}`, "");
+    }
+  }
+
+  const actions = explanation.actions.map((action, i) => ({ action, line: explanation.actionExplanations[i] }));
+  const main = actions.filter(({ action }) => !OBJECT_ACTION_TYPES.has(action.type));
+  const objects = actions.filter(({ action }) => OBJECT_ACTION_TYPES.has(action.type));
+  if (main.length > 0) {
+    lines.push("## Actions", "");
+    main.forEach(({ action, line }, i) => {
+      const fiat = formatFiat(action.fiat);
+      lines.push(`${i + 1}. ${line}${fiat ? ` (≈ ${fiat})` : ""}`);
+    });
+    lines.push("");
+  }
+
+  if (transfers.coins.length > 0) {
+    lines.push("## Transfers", "");
+    lines.push(
+      ...markdownTable(
+        ["From", "To", "Amount", "Value"],
+        transfers.coins.map((transfer) => [
+          formatParty(explanation, transfer.from),
+          formatParty(explanation, transfer.to),
+          formatAmount(transfer.coin, transfer.amount),
+          formatFiat(transfer.fiat),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if (transfers.balanceChanges.length > 0) {
+    lines.push("## Balance changes", "");
+    lines.push(
+      ...markdownTable(
+        ["Owner", "Amount", "Value"],
+        transfers.balanceChanges.map((delta) => [
+          formatParty(explanation, delta.owner),
+          formatAmount(delta.coin, delta.amount),
+          formatFiat(delta.fiat),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if (objects.length > 0) {
+    lines.push("## Objects", "");
+    for (const { line } of objects) lines.push(`- ${line}`);
+    lines.push("");
+  }
+
+  lines.push("## Gas", "");
+  if (gas.explanation) lines.push(gas.explanation, "");
+  const price = gas.referenceGasPrice !== null
+    ? `${gas.price} MIST (reference ${gas.referenceGasPrice} MIST)`
+    : `${gas.price} MIST`;
+  lines.push(
+    ...markdownTable(
+      ["Item", "Amount"],
+      [
+        ["Total", `${formatAmount(SUI_COIN_INFO, gas.total)}${gas.fiat ? ` (≈ ${formatFiat(gas.fiat)})` : ""}`],
+        ["Computation", formatAmount(SUI_COIN_INFO, gas.computationCost)],
+        ["Storage", formatAmount(SUI_COIN_INFO, gas.storageCost)],
+        ["Storage rebate", formatAmount(SUI_COIN_INFO, gas.storageRebate)],
+        ["Non-refundable storage fee", formatAmount(SUI_COIN_INFO, gas.nonRefundableStorageFee)],
+        [
+          "Budget",
+          `${formatAmount(SUI_COIN_INFO, gas.budget)}${gas.budgetUsedPercent !== null ? ` (${gas.budgetUsedPercent}% used)` : ""}`,
+        ],
+        ["Gas price", price],
+        ["Gas owner", formatParty(explanation, gas.owner)],
+      ],
+    ),
+    "",
+  );
+
+  return lines.join("\n");
+}
+
+const CSV_HEADER = [
+  "digest",
+  "network",
+  "timestamp",
+  "kind",
+  "from",
+  "to",
+  "coin_type",
+  "symbol",
+  "amount_raw",
+  "amount",
+  "fiat_value",
+  "fiat_currency",
+  "object_id",
+];
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per coin transfer and NFT transfer, plus one for the gas the gas owner paid
+export function renderCsv(explanation: ExportableExplanation): string {
+  const base = [explanation.txDigest, explanation.network, explanation.timestamp ?? ""];
+  const rows: Array<Array<string | number | null | undefined>> = [];
+
+  for (const transfer of explanation.transfers.coins) {
+    rows.push([
+      ...base,
+      "coin_transfer",
+      transfer.from,
+      transfer.to,
+      transfer.coinType,
+      transfer.coin.symbol,
+      transfer.amount,
+      formatCoinAmount(transfer.coin, transfer.amount).amount,
+      transfer.fiat?.value,
+      transfer.fiat?.currency,
+      "",
+    ]);
+  }
+  for (const action of explanation.actions) {
+    if (action.type !== "NFT_TRANSFER") continue;
+    rows.push([...base, "nft_transfer", action.from, action.to, action.nft?.objectType, action.nft?.name, "1", "1", "", "", action.objectId]);
+  }
+  const { gas } = explanation;
+  rows.push([
+    ...base,
+    "gas",
+    gas.owner,
+    "",
+    SUI_COIN_TYPE,
+    "SUI",
+    gas.total,
+    formatCoinAmount(SUI_COIN_INFO, gas.total).amount,
+    gas.fiat?.value,
+    gas.fiat?.currency,
+    "",
+  ]);
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function renderExport(explanation: ExportableExplanation, format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(toExportDocument(explanation), null, 2);
+    case "markdown":
+      return renderMarkdown(explanation);
+    case "csv":
+      return renderCsv(explanation);
+  }
+}
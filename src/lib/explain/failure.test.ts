@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseFailure } from "./failure";
+
+const moveAbort = (address: string, module: string, fn: string | null, code: number, command = 1) =>
+  `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${module}") }, function: 4, instruction: 17, function_name: ${
+    fn ? `Some("${fn}")` : "None"
+  } }, ${code}) in command ${command}`;
+
+describe("parseFailure", () => {
+  it("names known framework abort codes", () => {
+    const failure = parseFailure(
+      moveAbort("0000000000000000000000000000000000000000000000000000000000000002", "balance", "split", 2),
+    );
+    expect(failure).toMatchObject({
+      kind: "MoveAbort",
+      commandIndex: 1,
+      abort: {
+        packageId: "0x0000000000000000000000000000000000000000000000000000000000000002",
+        module: "balance",
+        function: "split",
+        functionIndex: 4,
+        instruction: 17,
+        code: "2",
+        codeName: "ENotEnough",
+      },
+    });
+    expect(failure.cause).toBe(
+      "0x00000000...000002::balance::split aborted with ENotEnough (code 2): the balance was too low for the requested amount",
+    );
+  });
+
+  it("names staking and protocol abort codes", () => {
+    const staking = parseFailure(
+      moveAbort("0000000000000000000000000000000000000000000000000000000000000003", "validator_set", null, 10),
+    );
+    expect(staking.abort?.codeName).toBe("EStakingBelowThreshold");
+    expect(staking.abort?.function).toBeNull();
+
+    const deepbook = parseFailure(
+      moveAbort("2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809", "pool", "swap_exact_quantity", 12),
+    );
+    expect(deepbook.abort?.codeName).toBe("EMinimumQuantityOutNotMet");
+  });
+
+  it("keeps unknown abort codes as numbers", () => {
+    const failure = parseFailure(
+      moveAbort("5306f64e312b581766351c07af79c72fcb1cd25147157fdc2f8ad76de9a3fb6a", "vaa", "parse_and_verify", 7),
+    );
+    expect(failure.abort?.codeName).toBeNull();
+    expect(failure.cause).toBe("0x5306f64e...a3fb6a::vaa::parse_and_verify aborted with code 7");
+  });
+
+  it("reads the structured abort some nodes report", () => {
+    const failure = parseFailure("MoveAbort in 2nd command", {
+      module_id: "0x2::coin",
+      function: "split",
+      line: 3,
+      error_code: "2",
+    });
+    expect(failure.abort).toMatchObject({ module: "coin", function: "split", code: "2", codeName: "ENotEnough" });
+  });
+
+  it("explains failures other than aborts", () => {
+    expect(parseFailure("InsufficientGas").kind).toBe("InsufficientGas");
+    expect(parseFailure("ExecutionCancelledDueToSharedObjectCongestion { congested_objects: [] }").kind).toBe(
+      "SharedObjectCongestion",
+    );
+    expect(parseFailure("CommandArgumentError { arg_idx: 0, kind: TypeMismatch } in command 2")).toMatchObject({
+      kind: "CommandArgumentError",
+      commandIndex: 2,
+      cause: "argument 1 was invalid (TypeMismatch)",
+    });
+    expect(parseFailure("VMVerificationOrDeserializationError").cause).toBe(
+      "execution failed with VMVerificationOrDeserializationError",
+    );
+  });
+});
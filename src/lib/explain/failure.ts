@@ -0,0 +1,147 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { SuiMoveAbort } from "@mysten/sui/client";
+import { lookupAbortCode } from "./abort-codes";
+import { shortenPackageId } from "./format";
+
+// Structured explanation of a failed transaction, parsed from effects.status.error
+
+export type FailureKind =
+  | "MoveAbort"
+  | "InsufficientGas"
+  | "InsufficientCoinBalance"
+  | "ObjectVersionConflict"
+  | "SharedObjectCongestion"
+  | "CommandArgumentError"
+  | "Other";
+
+export type MoveAbortLocation = {
+  packageId: string;
+  module: string;
+  function: string | null;
+  functionIndex: number | null;
+  instruction: number | null;
+  code: string;
+  // Abort constant name and cause, when the module is in the abort-code registry
+  codeName: string | null;
+};
+
+export type TransactionFailure = {
+  kind: FailureKind;
+  // Human-readable cause
+  cause: string;
+  // Index of the PTB command that failed, when reported
+  commandIndex: number | null;
+  abort: MoveAbortLocation | null;
+  error: string;
+};
+
+const MOVE_ABORT_PATTERN =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: ([0-9a-fA-Fx]+), name: Identifier\("([^"]+)"\) \}, function: (\d+), instruction: (\d+), function_name: (?:Some\("([^"]+)"\)|None) \}, (\d+)\)/;
+const COMMAND_PATTERN = /in command (\d+)/;
+
+function parseMoveAbort(error: string, abortError?: SuiMoveAbort | null): MoveAbortLocation | null {
+  const match = error.match(MOVE_ABORT_PATTERN);
+  if (match) {
+    const [, address, moduleName, functionIndex, instruction, functionName, code] = match;
+    const packageId = normalizeSuiAddress(address);
+    return {
+      packageId,
+      module: moduleName,
+      function: functionName ?? null,
+      functionIndex: Number(functionIndex),
+      instruction: Number(instruction),
+      code,
+      codeName: lookupAbortCode(packageId, moduleName, code)?.name ?? null,
+    };
+  }
+
+  // Some nodes also report the abort in structured form on the effects
+  if (abortError?.module_id && abortError.error_code) {
+    const [address, moduleName] = abortError.module_id.split("::");
+    const packageId = normalizeSuiAddress(address);
+    return {
+      packageId,
+      module: moduleName ?? "unknown",
+      function: abortError.function ?? null,
+      functionIndex: null,
+      instruction: abortError.line ?? null,
+      code: abortError.error_code,
+      codeName: lookupAbortCode(packageId, moduleName ?? "", abortError.error_code)?.name ?? null,
+    };
+  }
+
+  return null;
+}
+
+export function parseFailure(error: string, abortError?: SuiMoveAbort | null): TransactionFailure {
+  const commandMatch = error.match(COMMAND_PATTERN);
+  const commandIndex = commandMatch ? Number(commandMatch[1]) : null;
+  const failure = { commandIndex, abort: null, error };
+
+  const abort = parseMoveAbort(error, abortError);
+  if (abort) {
+    const location = `${shortenPackageId(abort.packageId)}::${abort.module}${abort.function ? `::${abort.function}` : ""}`;
+    const known = lookupAbortCode(abort.packageId, abort.module, abort.code);
+    return {
+      ...failure,
+      kind: "MoveAbort",
+      abort,
+      cause: known
+        ? `${location} aborted with ${known.name} (code ${abort.code}): ${known.cause}`
+        : `${location} aborted with code ${abort.code}`,
+    };
+  }
+
+  if (error.startsWith("InsufficientGas")) {
+    return {
+      ...failure,
+      kind: "InsufficientGas",
+      cause: "the transaction ran out of gas before it finished; retry with a higher gas budget",
+    };
+  }
+
+  if (error.startsWith("InsufficientCoinBalance")) {
+    return {
+      ...failure,
+      kind: "InsufficientCoinBalance",
+      cause: "a coin did not hold enough balance for the requested split or payment",
+    };
+  }
+
+  if (
+    error.startsWith("ObjectVersionUnavailableForConsumption") ||
+    error.startsWith("InputObjectDeleted") ||
+    error.startsWith("ObjectNotFound")
+  ) {
+    return {
+      ...failure,
+      kind: "ObjectVersionConflict",
+      cause:
+        "an input object was already used or changed by another transaction; rebuild the transaction with the latest object versions",
+    };
+  }
+
+  if (error.startsWith("ExecutionCancelledDueToSharedObjectCongestion")) {
+    return {
+      ...failure,
+      kind: "SharedObjectCongestion",
+      cause: "execution was cancelled because a shared object was congested; retrying later usually succeeds",
+    };
+  }
+
+  const argumentMatch = error.match(/^CommandArgumentError \{ arg_idx: (\d+), kind: (\w+)/);
+  if (argumentMatch) {
+    return {
+      ...failure,
+      kind: "CommandArgumentError",
+      cause: `argument ${Number(argumentMatch[1]) + 1} was invalid (${argumentMatch[2]})`,
+    };
+  }
+
+  const name = error.match(/^(\w+)/)?.[1];
+  return {
+    ...failure,
+    kind: "Other",
+    cause: name ? `execution failed with ${name}` : "execution failed",
+  };
+}
@@ -0,0 +1,91 @@
+import { readFileSync } from "node:fs";
+import { JsonRpcError, type SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { toBase58 } from "@mysten/sui/utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setDataSource } from "@/lib/sui/client";
+import { followFeed, type FeedEvent, type FeedFilter } from "./feed";
+
+const OTHER = "0x3f2a9e0c4b1d7e6f5a8c9b0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f";
+const NO_FILTER: FeedFilter = { sender: null, recipient: null, packageId: null, actionType: null };
+
+// 30 transactions, of which the last odd ones (27 and 29) were sent by OTHER
+const digests = Array.from({ length: 30 }, (_, i) => toBase58(new Uint8Array(32).fill(i + 1)));
+const template: SuiTransactionBlockResponse = JSON.parse(
+  readFileSync(new URL("./adapters/fixtures/cetus.json", import.meta.url), "utf8"),
+);
+
+function transactionBlock(digest: string, index: number): SuiTransactionBlockResponse {
+  const txBlock = structuredClone(template);
+  txBlock.digest = digest;
+  txBlock.checkpoint = "100";
+  if (index >= 27 && index % 2 === 1) txBlock.transaction!.data.sender = OTHER;
+  return txBlock;
+}
+
+// Feed events up to and including the transactions of the first checkpoint
+async function firstCheckpoint(filter: FeedFilter, expectedItems: number): Promise<FeedEvent[]> {
+  const abort = new AbortController();
+  const events: FeedEvent[] = [];
+  for await (const event of followFeed("mainnet", filter, abort.signal)) {
+    events.push(event);
+    if (events.length === expectedItems + 1) break;
+  }
+  abort.abort();
+  return events;
+}
+
+describe("followFeed", () => {
+  beforeEach(() => {
+    // Lookups the fake fullnode does not answer are logged and left out of the explanation
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setDataSource({
+      name: "test",
+      createTransport: () => ({
+        async request<T>({ method, params }: { method: string; params: unknown[] }): Promise<T> {
+          switch (method) {
+            case "sui_getLatestCheckpointSequenceNumber":
+              return "100" as T;
+            case "sui_getCheckpoint":
+              return { sequenceNumber: "100", timestampMs: "1735689600000", transactions: digests } as T;
+            case "sui_multiGetTransactionBlocks":
+              return (params[0] as string[]).map((digest) => transactionBlock(digest, digests.indexOf(digest))) as T;
+            default:
+              throw new JsonRpcError(`${method} is not supported`, -32601);
+          }
+        },
+        async subscribe() {
+          throw new Error("Not supported");
+        },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("explains the first transactions of a busy checkpoint and counts the rest", async () => {
+    const events = await firstCheckpoint(NO_FILTER, 25);
+    expect(events[0]).toEqual({
+      type: "checkpoint",
+      checkpoint: {
+        sequenceNumber: "100",
+        timestampMs: "1735689600000",
+        transactions: 30,
+        skippedTransactions: 5,
+        skippedCheckpoints: 0,
+      },
+    });
+    const items = events.flatMap((event) => (event.type === "transaction" ? [event.item.digest] : []));
+    expect(items).toEqual(digests.slice(0, 25));
+  });
+
+  it("applies the sender filter before choosing the transactions to explain", async () => {
+    const events = await firstCheckpoint({ ...NO_FILTER, sender: OTHER }, 2);
+    expect(events[0]).toMatchObject({ type: "checkpoint", checkpoint: { transactions: 30, skippedTransactions: 0 } });
+    expect(events.slice(1).map((event) => event.type === "transaction" && event.item.digest)).toEqual([
+      digests[27],
+      digests[29],
+    ]);
+  });
+});
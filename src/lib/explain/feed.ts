@@ -0,0 +1,243 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { mapWithConcurrency, sleep } from "@/lib/async";
+import { getSuiClient } from "@/lib/sui/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { sameAddress } from "@/lib/sui/normalize";
+import { getOriginalPackageId } from "@/lib/sui/packages";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { ACTION_TYPES, OBJECT_ACTION_TYPES, type Action, type ActionType } from "./actions";
+import { fetchTransactionBlocks } from "./batch";
+import { buildExplanation, explanationHeadline, type Explanation } from "./index";
+
+// Live feed: follows new checkpoints by polling the fullnode, explains their transactions and
+// yields the ones matching a filter. Each subscriber follows the chain on its own and starts
+// at the newest checkpoint; a subscriber that falls behind skips ahead instead of replaying.
+// Explanations are built fresh for each subscriber and are not cached.
+
+// How often the latest checkpoint is polled once the follower has caught up
+const POLL_INTERVAL_MS = 1000;
+// Most checkpoints the follower may trail the chain by before it skips ahead
+const MAX_CHECKPOINT_LAG = 10;
+// Transactions explained per checkpoint, after the sender, recipient and package filters; the
+// rest of a busy checkpoint is skipped
+export const MAX_FEED_TRANSACTIONS_PER_CHECKPOINT = 25;
+// Explanations built at once
+const EXPLAIN_CONCURRENCY = 4;
+
+export type FeedFilter = {
+  sender: string | null;
+  recipient: string | null;
+  // Called package: the id of the version called, or the package's original id
+  packageId: string | null;
+  actionType: ActionType | null;
+};
+
+export type FeedItem = {
+  digest: string;
+  network: SuiNetwork;
+  checkpoint: string;
+  timestampMs: string | null;
+  status: Explanation["status"];
+  sender: string;
+  headline: string;
+  // Object changes are left out; the full explanation has them
+  actions: Action[];
+  actionExplanations: string[];
+  names: Explanation["names"];
+  labels: Explanation["labels"];
+};
+
+export type FeedCheckpoint = {
+  sequenceNumber: string;
+  timestampMs: string;
+  transactions: number;
+  // Transactions of the checkpoint that may match the filter but were not explained because it
+  // was too busy
+  skippedTransactions: number;
+  // Checkpoints jumped over before this one because the feed fell behind
+  skippedCheckpoints: number;
+};
+
+export type FeedEvent =
+  | { type: "checkpoint"; checkpoint: FeedCheckpoint }
+  | { type: "transaction"; item: FeedItem };
+
+export function parseActionType(value: string): ActionType | null {
+  return ACTION_TYPES.find((type) => type === value.trim().toUpperCase()) ?? null;
+}
+
+// Whether the filter can rule out transactions before they are explained
+function hasTransactionFilter(filter: FeedFilter): boolean {
+  return !!(filter.sender || filter.recipient || filter.packageId);
+}
+
+// Called and upgraded packages, as the transaction names them
+function calledPackages(txBlock: SuiTransactionBlockResponse): string[] {
+  const kind = txBlock.transaction?.data.transaction;
+  if (kind?.kind !== "ProgrammableTransaction") return [];
+  return kind.transactions.flatMap((command) => {
+    if ("MoveCall" in command) return [normalizeSuiAddress(command.MoveCall.package)];
+    if ("Upgrade" in command) return [normalizeSuiAddress(command.Upgrade[1])];
+    return [];
+  });
+}
+
+// Whether the address appears anywhere in the transaction's commands, effects or events. Every
+// address an action can be "to" (a transfer recipient, a pool, a validator, a called package)
+// comes from one of those, with or without its 0x prefix.
+function mentionsAddress(txBlock: SuiTransactionBlockResponse, address: string): boolean {
+  const text = JSON.stringify([
+    txBlock.transaction?.data.transaction,
+    txBlock.balanceChanges,
+    txBlock.objectChanges,
+    txBlock.events,
+  ]).toLowerCase();
+  const hex = address.slice(2);
+  // Framework addresses are also written short, e.g. 0x2
+  return text.includes(hex) || text.includes(`0x${hex.replace(/^0+(?=.)/, "")}`);
+}
+
+// The sender and package filters, and a first pass of the recipient filter, read from the
+// transaction itself so that only transactions that can match are explained
+async function mayMatchFeedFilter(
+  network: SuiNetwork,
+  txBlock: SuiTransactionBlockResponse,
+  filter: FeedFilter,
+): Promise<boolean> {
+  const { sender, recipient, packageId } = filter;
+  if (sender && !sameAddress(txBlock.transaction?.data.sender, sender)) return false;
+  if (recipient && !mentionsAddress(txBlock, recipient)) return false;
+  if (packageId) {
+    const packages = calledPackages(txBlock);
+    if (packages.includes(packageId)) return true;
+    const originalIds = await Promise.all(packages.map((id) => getOriginalPackageId(network, id)));
+    return originalIds.includes(packageId);
+  }
+  return true;
+}
+
+// The recipient and action type filters, which need the explanation; the sender and package
+// filters were applied before the transaction was explained
+export function matchesFeedFilter(explanation: Omit<Explanation, "raw">, filter: FeedFilter): boolean {
+  const { actions } = explanation;
+  const { recipient, actionType } = filter;
+  if (
+    recipient &&
+    !actions.some((action) => sameAddress(action.to, recipient)) &&
+    !explanation.transfers.coins.some((transfer) => sameAddress(transfer.to, recipient))
+  ) {
+    return false;
+  }
+  if (actionType && !actions.some((action) => action.type === actionType)) return false;
+  return true;
+}
+
+function toFeedItem(explanation: Omit<Explanation, "raw">, headline: string, checkpoint: string): FeedItem {
+  const shown = explanation.actions
+    .map((action, i) => ({ action, line: explanation.actionExplanations[i] }))
+    .filter(({ action }) => !OBJECT_ACTION_TYPES.has(action.type));
+  return {
+    digest: explanation.txDigest,
+    network: explanation.network,
+    checkpoint,
+    timestampMs: explanation.timestampMs,
+    status: explanation.status,
+    sender: explanation.summary.from,
+    headline,
+    actions: shown.map(({ action }) => action),
+    actionExplanations: shown.map(({ line }) => line),
+    names: explanation.names,
+    labels: explanation.labels,
+  };
+}
+
+// Every new checkpoint and every matching transaction in it, until the signal aborts.
+// RPC errors are logged and retried after the poll interval, from the transaction that failed.
+export async function* followFeed(
+  network: SuiNetwork,
+  filter: FeedFilter,
+  signal: AbortSignal,
+): AsyncGenerator<FeedEvent> {
+  const client = getSuiClient(network);
+  // Progress: the next checkpoint, whether its event was sent and how many of its transactions
+  // to explain were handled, so that a retry sends nothing twice
+  let next: bigint | null = null;
+  let announced = false;
+  let handled = 0;
+  let skippedCheckpoints = 0;
+
+  while (!signal.aborted) {
+    try {
+      const latest = BigInt(await client.getLatestCheckpointSequenceNumber());
+      next ??= latest;
+      if (latest - next > BigInt(MAX_CHECKPOINT_LAG)) {
+        skippedCheckpoints += Number(latest - next) - MAX_CHECKPOINT_LAG;
+        next = latest - BigInt(MAX_CHECKPOINT_LAG);
+        announced = false;
+        handled = 0;
+      }
+
+      while (next <= latest && !signal.aborted) {
+        const checkpoint = await client.getCheckpoint({ id: next.toString() });
+        // Without a sender, recipient or package filter every transaction is a candidate
+        const digests = hasTransactionFilter(filter)
+          ? checkpoint.transactions
+          : checkpoint.transactions.slice(0, MAX_FEED_TRANSACTIONS_PER_CHECKPOINT);
+        const fetched = await fetchTransactionBlocks(network, digests);
+        const candidates: SuiTransactionBlockResponse[] = [];
+        for (const digest of digests) {
+          const txBlock = fetched.get(digest);
+          if (txBlock instanceof RpcUnavailableError) throw txBlock;
+          if (!txBlock || txBlock instanceof Error) continue;
+          if (await mayMatchFeedFilter(network, txBlock, filter)) candidates.push(txBlock);
+        }
+        const explained = candidates.slice(0, MAX_FEED_TRANSACTIONS_PER_CHECKPOINT);
+
+        if (!announced) {
+          yield {
+            type: "checkpoint",
+            checkpoint: {
+              sequenceNumber: checkpoint.sequenceNumber,
+              timestampMs: checkpoint.timestampMs,
+              transactions: checkpoint.transactions.length,
+              skippedTransactions:
+                candidates.length - explained.length + checkpoint.transactions.length - digests.length,
+              skippedCheckpoints,
+            },
+          };
+          announced = true;
+          skippedCheckpoints = 0;
+        }
+
+        const results = await mapWithConcurrency(explained.slice(handled), EXPLAIN_CONCURRENCY, (txBlock) =>
+          buildExplanation(txBlock, network).catch((error: unknown) =>
+            error instanceof Error ? error : new Error(String(error)),
+          ),
+        );
+        for (const [i, result] of results.entries()) {
+          if (signal.aborted) return;
+          // The RPC is down: retry from this transaction. Anything else will fail again, so skip it.
+          if (result instanceof RpcUnavailableError) throw result;
+          if (result instanceof Error) {
+            console.error(`Error explaining feed transaction ${explained[handled + i].digest}:`, result);
+          } else if (matchesFeedFilter(result, filter)) {
+            yield {
+              type: "transaction",
+              item: toFeedItem(result, explanationHeadline(result), checkpoint.sequenceNumber),
+            };
+          }
+          handled += 1;
+        }
+
+        next += BigInt(1);
+        announced = false;
+        handled = 0;
+      }
+    } catch (error) {
+      console.error(`Error following checkpoints on ${network}:`, error);
+    }
+    // An abort ends the wait early, and the loop with it
+    await sleep(POLL_INTERVAL_MS, signal).catch(() => {});
+  }
+}
@@ -0,0 +1,60 @@
+import type { CoinInfo } from "@/lib/sui/coin-metadata";
+import { findPrice, type PriceQuote } from "@/lib/prices/provider";
+import type { Action } from "./actions";
+
+// Fiat value of a coin amount at the transaction's time, with the price it was computed from
+
+export type FiatValue = {
+  // Signed like the amount it values
+  value: number;
+  currency: string;
+  // Fiat value of one whole coin
+  price: number;
+  source: string;
+  priceTimestampMs: string | null;
+};
+
+// Amounts are valued to this many decimal places, so small amounts such as gas keep a value
+const VALUE_DECIMALS = 6;
+
+// Value of a raw (base unit) amount, or null when the coin has no price or unknown decimals
+export function toFiatValue(
+  prices: Map<string, PriceQuote>,
+  coin: CoinInfo | null | undefined,
+  rawAmount: string | null | undefined,
+): FiatValue | null {
+  // Fallback metadata has no decimals, so its amounts cannot be converted to whole coins
+  if (!coin || coin.source === "fallback" || !rawAmount) return null;
+  const quote = findPrice(prices, coin.coinType);
+  if (!quote) return null;
+
+  const amount = Number(rawAmount) / 10 ** coin.decimals;
+  if (!Number.isFinite(amount)) return null;
+  return {
+    value: Number((amount * quote.price).toFixed(VALUE_DECIMALS)),
+    currency: quote.currency,
+    price: quote.price,
+    source: quote.source,
+    priceTimestampMs: quote.timestampMs,
+  };
+}
+
+// The action with fiat values for its amount, swap legs and staking reward
+export function valueAction(action: Action, prices: Map<string, PriceQuote>): Action {
+  if (prices.size === 0) return action;
+  const { swap, staking } = action;
+  return {
+    ...action,
+    ...(action.amount ? { fiat: toFiatValue(prices, action.coin, action.amount) } : {}),
+    ...(swap
+      ? {
+          swap: {
+            ...swap,
+            fiatIn: toFiatValue(prices, swap.coinInInfo, swap.amountIn),
+            fiatOut: toFiatValue(prices, swap.coinOutInfo, swap.amountOut),
+          },
+        }
+      : {}),
+    ...(staking?.reward ? { staking: { ...staking, rewardFiat: toFiatValue(prices, action.coin, staking.reward) } } : {}),
+  };
+}
@@ -0,0 +1,22 @@
+// Display helpers shared by the explanation modules
+
+export function shortenAddress(addr?: string | null): string {
+  if (!addr) return "unknown";
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+}
+
+// Package ids are shortened less aggressively so different packages stay distinguishable
+export function shortenPackageId(packageId: string): string {
+  return packageId.length > 20 ? `${packageId.slice(0, 10)}...${packageId.slice(-6)}` : packageId;
+}
+
+// Extract T from 0x2::coin::Coin<T>, or null if the type is not a coin
+export function coinTypeFromObjectType(objectType?: string | null): string | null {
+  const match = objectType?.match(/^0x0*2::coin::Coin<(.+)>$/);
+  return match ? match[1] : null;
+}
+
+// Object type with its package ids shortened, e.g. "0x2::coin::Coin<0xdba346...::usdc::USDC>"
+export function shortenObjectType(objectType: string): string {
+  return objectType.replace(/0x[0-9a-fA-F]{21,}/g, shortenPackageId);
+}
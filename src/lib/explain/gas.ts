@@ -0,0 +1,95 @@
+import type { GasCostSummary, SuiGasData } from "@mysten/sui/client";
+import { sameAddress } from "@/lib/sui/normalize";
+import { resolveDisplayName } from "./actions";
+
+// Gas the transaction paid for, measured against its budget and the epoch's reference gas price,
+// and who paid it: a transaction is sponsored when the gas owner is not the sender.
+
+export type GasPaymentCoin = {
+  objectId: string;
+  version: string;
+  digest: string;
+};
+
+export type GasAnalysis = {
+  owner: string;
+  sponsored: boolean;
+  // The gas owner when it is not the sender, otherwise null
+  sponsor: string | null;
+  budget: string;
+  price: string;
+  // Reference gas price of the epoch the transaction ran in; null if the RPC did not report it
+  referenceGasPrice: string | null;
+  // Price paid as a multiple of the reference gas price, e.g. 1.5
+  priceMultiplier: number | null;
+  // Computation plus storage, before the rebate: the amount the budget has to cover
+  charged: string;
+  // Share of the budget charged, as a percentage
+  budgetUsedPercent: number | null;
+  payment: GasPaymentCoin[];
+  computationCost: string;
+  storageCost: string;
+  storageRebate: string;
+  // Part of the rebated storage kept by the storage fund rather than refunded
+  nonRefundableStorageFee: string;
+  total: string;
+};
+
+function toBigInt(value: string | number | null | undefined): bigint {
+  if (value === null || value === undefined) return BigInt(0);
+  try {
+    return BigInt(value);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+// Ratio of two amounts rounded to two decimal places, or null when the denominator is zero
+function ratio(numerator: bigint, denominator: bigint): number | null {
+  if (denominator <= BigInt(0)) return null;
+  return Number((numerator * BigInt(100)) / denominator) / 100;
+}
+
+export function analyzeGas(
+  gasData: SuiGasData | undefined,
+  gasUsed: GasCostSummary | undefined,
+  sender: string,
+  referenceGasPrice: string | null,
+): GasAnalysis {
+  const computationCost = toBigInt(gasUsed?.computationCost);
+  const storageCost = toBigInt(gasUsed?.storageCost);
+  const storageRebate = toBigInt(gasUsed?.storageRebate);
+  const charged = computationCost + storageCost;
+  const budget = toBigInt(gasData?.budget);
+  const price = toBigInt(gasData?.price);
+
+  const owner = gasData?.owner || sender;
+  const sponsored = sender !== "unknown" && !sameAddress(owner, sender);
+
+  return {
+    owner,
+    sponsored,
+    sponsor: sponsored ? owner : null,
+    budget: budget.toString(10),
+    price: price.toString(10),
+    referenceGasPrice,
+    priceMultiplier: referenceGasPrice !== null ? ratio(price, toBigInt(referenceGasPrice)) : null,
+    charged: charged.toString(10),
+    budgetUsedPercent: ratio(charged * BigInt(100), budget),
+    payment: (gasData?.payment ?? []).map((coin) => ({
+      objectId: coin.objectId,
+      version: String(coin.version),
+      digest: coin.digest,
+    })),
+    computationCost: computationCost.toString(10),
+    storageCost: storageCost.toString(10),
+    storageRebate: storageRebate.toString(10),
+    nonRefundableStorageFee: toBigInt(gasUsed?.nonRefundableStorageFee).toString(10),
+    total: (charged - storageRebate).toString(10),
+  };
+}
+
+// Plain-English line for a sponsored transaction, e.g. "Gas paid by sponsor 0x12ab...cdef"
+export function explainGasSponsor(gas: GasAnalysis, names: Map<string, string> = new Map()): string | null {
+  return gas.sponsor ? `Gas paid by sponsor ${resolveDisplayName(gas.sponsor, names)}` : null;
+}
@@ -0,0 +1,333 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { labelKey, type AddressLabel } from "@/lib/labels/labels";
+import { getLabels } from "@/lib/labels/registry";
+import { getPrices } from "@/lib/prices/provider";
+import { getReferenceGasPrice } from "@/lib/sui/gas-price";
+import { fallbackCoinInfo, resolveCoinInfos } from "@/lib/sui/coin-metadata";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { findTransferredObjects, resolveNftTransfers } from "@/lib/sui/nft";
+import { resolvePackages } from "@/lib/sui/packages";
+import { resolveNames } from "@/lib/sui/suins";
+import { findValidator, getValidators } from "@/lib/sui/validators";
+import { classifyActions, explain, OBJECT_ACTION_TYPES, type SuiTransactionBlock } from "./actions";
+import { detectSwaps } from "./adapters";
+import { toFiatValue, valueAction } from "./fiat";
+import { analyzeGas, explainGasSponsor } from "./gas";
+import { resolveMoveCallArguments } from "./move-args";
+import { collectObjectChanges, resolvePreviousOwners } from "./objects";
+import { parseFailure } from "./failure";
+import { collectObjectTypes, decodePtb, describePtbCommand } from "./ptb";
+import { detectStakingOperations } from "./staking";
+import { analyzeCoinTransfers, SUI_COIN_TYPE } from "./transfers";
+
+export { classifyActions, explain } from "./actions";
+export type { Action, ActionType } from "./actions";
+
+export type TransactionStatus = "success" | "reverted" | "pending_or_unknown";
+
+function hexToDecimalString(hex: string | null | undefined): string {
+  if (!hex) return "0";
+  try {
+    return BigInt(hex).toString(10);
+  } catch {
+    return "0";
+  }
+}
+
+// Everything in an explanation that follows from the transaction itself, which never changes once
+// it is finalized and so can be cached. SuiNS names and registry labels are added per response by
+// nameParties. Owners of objects before the transaction cost one RPC call per object, so they are
+// only looked up with previousOwners, for views of a single transaction.
+export async function analyzeTransaction(
+  txBlock: SuiTransactionBlockResponse,
+  network: SuiNetwork,
+  { previousOwners = false }: { previousOwners?: boolean } = {},
+) {
+  // Parse transaction data
+  const status: TransactionStatus =
+    txBlock.effects?.status?.status === "success"
+      ? "success"
+      : txBlock.effects?.status?.status === "failure"
+        ? "reverted"
+        : "pending_or_unknown";
+
+  const txData = txBlock.transaction?.data;
+  const sender: string = txData?.sender || "unknown";
+  const transactionKind: string = txData?.transaction.kind || "Unknown";
+
+  // Only executed transactions that made it into a checkpoint have a checkpoint and a timestamp
+  const checkpointSeq = txBlock.checkpoint || null;
+  const timestampMs = txBlock.timestampMs || null;
+
+  // Format timestamp
+  let formattedTimestamp: string | null = null;
+  if (timestampMs) {
+    try {
+      const date = new Date(Number(timestampMs));
+      formattedTimestamp = date.toISOString();
+    } catch {
+      formattedTimestamp = timestampMs.toString();
+    }
+  }
+    
+  const gasUsed = (txBlock.effects?.gasUsed || {}) as {
+    computationCost?: string;
+    storageCost?: string;
+    storageRebate?: string;
+  };
+  const computationCost = hexToDecimalString(gasUsed.computationCost);
+  const storageCost = hexToDecimalString(gasUsed.storageCost);
+  const storageRebate = hexToDecimalString(gasUsed.storageRebate);
+  const totalGasCost =
+    BigInt(computationCost) +
+    BigInt(storageCost) -
+    BigInt(storageRebate);
+
+  // Derive coin transfers from balance changes (events are only a fallback)
+  const gasOwner = txBlock.transaction?.data?.gasData?.owner || sender;
+  const {
+    transfers: coinTransfers,
+    balanceDeltas,
+    source: transferSource,
+  } = analyzeCoinTransfers({
+    balanceChanges: txBlock.balanceChanges,
+    events: txBlock.events,
+    gasOwner,
+    gasCost: totalGasCost,
+  });
+
+  // Decode the Programmable Transaction Block commands and their argument wiring
+  const objectTypes = collectObjectTypes(txBlock.objectChanges);
+  const ptb = decodePtb(txBlock.transaction?.data?.transaction, objectTypes);
+
+  // Let protocol adapters recognise swaps from the Move calls and events
+  const swaps = detectSwaps({
+    sender,
+    events: txBlock.events ?? [],
+    commands: ptb?.commands ?? [],
+    objectTypes,
+    balanceDeltas,
+    gasCost: gasOwner === sender ? totalGasCost : BigInt(0),
+  });
+
+  // Native staking: resolve validator names only when the transaction stakes or unstakes
+  const stakingOperations = detectStakingOperations(
+    sender,
+    txBlock.events ?? [],
+    ptb?.commands ?? [],
+    txBlock.objectChanges,
+  );
+  const validators = stakingOperations.length > 0 ? await getValidators(network) : new Map();
+  const resolvedStaking = stakingOperations.map((operation) => {
+    const validator = findValidator(validators, operation.validatorAddress);
+    return {
+      ...operation,
+      validatorName: validator?.name ?? null,
+      validatorImageUrl: validator?.imageUrl ?? null,
+    };
+  });
+
+  // NFTs: transferred objects whose type has a Display object
+  const nftTransfers = await resolveNftTransfers(
+    network,
+    findTransferredObjects(txBlock.objectChanges, sender),
+  );
+
+  // Every object the transaction touched, with the owner each changed object had before it
+  const { changes, published } = collectObjectChanges(txBlock.objectChanges, txBlock.effects);
+
+  // Registry names for the called and upgraded packages, following each back to its original id,
+  // the Move call arguments paired with the called functions' signatures, and the reference gas
+  // price of the epoch the transaction ran in
+  const executedEpoch = txBlock.effects?.executedEpoch;
+  const [packages, moveCallArguments, objectChanges, referenceGasPrice] = await Promise.all([
+    resolvePackages(
+      network,
+      (ptb?.commands ?? []).flatMap((c) => [
+        ...(c.target ? [c.target.package] : []),
+        ...(c.type === "Upgrade" && c.packageId ? [c.packageId] : []),
+      ]),
+    ),
+    resolveMoveCallArguments(network, ptb),
+    resolvePreviousOwners(network, changes, { lookUp: previousOwners }),
+    executedEpoch ? getReferenceGasPrice(network, executedEpoch) : null,
+  ]);
+  const gas = analyzeGas(txBlock.transaction?.data?.gasData, txBlock.effects?.gasUsed, sender, referenceGasPrice);
+
+  // Resolve symbol/decimals/icon for every coin type that has an amount in the response
+  const coins = await resolveCoinInfos(network, [
+    ...coinTransfers.map((t) => t.coinType),
+    ...balanceDeltas.map((d) => d.coinType),
+    ...(ptb?.commands ?? []).flatMap((c) => (c.coinType ? [c.coinType] : [])),
+    ...swaps.flatMap((swap) => [swap.coinIn, swap.coinOut]),
+    // Gas is paid in SUI, so SUI is always resolved for valuing it
+    SUI_COIN_TYPE,
+  ]);
+
+  // Fiat prices of those coins at the transaction's time (now, for a dry run)
+  const prices = await getPrices(network, coins.keys(), timestampMs ? Number(timestampMs) : Date.now());
+  const withCoin = <T extends { coinType: string; amount: string }>(item: T) => {
+    const coin = coins.get(item.coinType) ?? fallbackCoinInfo(item.coinType);
+    return { ...item, coin, fiat: toFiatValue(prices, coin, item.amount) };
+  };
+
+  // Classify actions
+  const actions = classifyActions(txBlock as SuiTransactionBlock, coinTransfers, coins, ptb, swaps, resolvedStaking, nftTransfers, packages, moveCallArguments, objectChanges, published)
+    .map((action) => valueAction(action, prices));
+  
+  // Explain why a failed transaction aborted, pointing at the failed command
+  const statusError = txBlock.effects?.status?.error;
+  let failure = null;
+  if (status === "reverted" && statusError) {
+    const parsed = parseFailure(statusError, txBlock.effects?.abortError);
+    const command = parsed.commandIndex !== null ? ptb?.commands[parsed.commandIndex] : undefined;
+    failure = {
+      ...parsed,
+      failedCommand: command
+        ? {
+            index: command.index,
+            type: command.type,
+            description: describePtbCommand(command, ptb!, coins, packages),
+          }
+        : null,
+    };
+  }
+
+  // Count object creation
+  const objectCreatedCount = actions.filter(a => a.type === "OBJECT_CREATED").length;
+
+  return {
+    txDigest: txBlock.digest,
+    network: network,
+    status,
+    transactionType: transactionKind,
+    checkpointSeq: checkpointSeq?.toString() || null,
+    timestamp: formattedTimestamp,
+    timestampMs: timestampMs?.toString() || null,
+    failure,
+    summary: {
+      from: sender,
+      objectsCreated: objectCreatedCount,
+      gasUsed: {
+        computationCost,
+        storageCost,
+        storageRebate,
+        total: totalGasCost.toString(10),
+      },
+    },
+    // Budget, price and payment of the gas, and the sponsor if someone other than the sender paid
+    gas: {
+      ...gas,
+      fiat: toFiatValue(prices, coins.get(SUI_COIN_TYPE), gas.total),
+    },
+    transfers: {
+      coins: coinTransfers.map(withCoin),
+      source: transferSource,
+      balanceChanges: balanceDeltas.map(withCoin),
+    },
+    commands: ptb
+      ? ptb.commands.map((command) => ({
+          ...command,
+          description: describePtbCommand(command, ptb, coins, packages),
+        }))
+      : [],
+    actions,
+    // Registry entry per normalized package id, for calls into known packages
+    packages: Object.fromEntries(packages),
+    // Price used for each valued coin type, keyed by normalized coin type
+    prices: Object.fromEntries(prices),
+    raw: {
+      transaction: txBlock,
+    },
+  };
+}
+
+export type TransactionAnalysis = Awaited<ReturnType<typeof analyzeTransaction>>;
+
+// Addresses the explanation text can name: the sender, the gas sponsor and every address an
+// action or balance change involves
+export function transactionParties(analysis: TransactionAnalysis): (string | null | undefined)[] {
+  return [
+    analysis.summary.from,
+    analysis.gas.sponsor,
+    ...analysis.actions.flatMap((a) => [a.from, a.to, a.object?.ownerBefore?.address]),
+    ...analysis.transfers.balanceChanges.map((d) => d.owner),
+  ];
+}
+
+export type PartyNames = {
+  // SuiNS name per normalized address
+  names: Map<string, string>;
+  // The network's label registry, keyed by normalized address
+  registry: Map<string, AddressLabel>;
+};
+
+// SuiNS names and registry labels for the given addresses, which may span many transactions
+export async function lookUpPartyNames(
+  network: SuiNetwork,
+  parties: Iterable<string | null | undefined>,
+): Promise<PartyNames> {
+  const [names, registry] = await Promise.all([resolveNames(network, parties), getLabels(network)]);
+  return { names, registry };
+}
+
+// Add the parties' SuiNS names and registry labels, and the text that mentions them
+export function applyPartyNames(analysis: TransactionAnalysis, { names, registry }: PartyNames) {
+  const parties = transactionParties(analysis);
+  const partyNames = new Map<string, string>();
+  const labels = new Map<string, AddressLabel>();
+  for (const party of parties) {
+    const key = labelKey(party);
+    if (!key) continue;
+    const name = names.get(key);
+    if (name) partyNames.set(key, name);
+    const label = registry.get(key);
+    if (label) labels.set(label.address, label);
+  }
+  // A label takes precedence over the SuiNS name in the explanation text
+  const displayNames = new Map(partyNames);
+  for (const [address, label] of labels) displayNames.set(address, label.label);
+
+  const { raw, ...rest } = analysis;
+  return {
+    ...rest,
+    gas: { ...analysis.gas, explanation: explainGasSponsor(analysis.gas, displayNames) },
+    actionExplanations: analysis.actions.map((action) => explain(action, displayNames)),
+    // Primary SuiNS name per normalized address, for addresses that have one
+    names: Object.fromEntries(partyNames),
+    // Registry label per normalized address, for labelled addresses
+    labels: Object.fromEntries(labels),
+    raw,
+  };
+}
+
+// Look up and add the parties' names. A name can change owner and the label registry can be
+// edited at any time, so both are looked up for each response instead of being kept with a
+// cached analysis.
+export async function nameParties(analysis: TransactionAnalysis) {
+  return applyPartyNames(analysis, await lookUpPartyNames(analysis.network, transactionParties(analysis)));
+}
+
+// Turn a transaction block (executed or dry-run) into the explanation returned by the API
+export async function buildExplanation(
+  txBlock: SuiTransactionBlockResponse,
+  network: SuiNetwork,
+  options: { previousOwners?: boolean } = {},
+) {
+  return nameParties(await analyzeTransaction(txBlock, network, options));
+}
+
+export type Explanation = Awaited<ReturnType<typeof buildExplanation>>;
+
+// One-line summary of an explanation: its first action, plus how many more there are.
+// Object changes are left out unless the transaction did nothing else.
+export function explanationHeadline(explanation: Explanation): string {
+  const main = explanation.actionExplanations.filter(
+    (_, i) => !OBJECT_ACTION_TYPES.has(explanation.actions[i].type),
+  );
+  const [first, ...rest] = main.length > 0 ? main : explanation.actionExplanations;
+  if (!first) return `${explanation.transactionType} transaction`;
+  return rest.length > 0
+    ? `${first} (+${rest.length} more action${rest.length === 1 ? "" : "s"})`
+    : first;
+}
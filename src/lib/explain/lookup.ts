@@ -0,0 +1,100 @@
+import { JsonRpcError, type SuiTransactionBlockResponse } from "@mysten/sui/client";
+import {
+  cacheAnalysis,
+  getCachedAnalysis,
+  toExplanationEntry,
+  type CacheStatus,
+  type ExplanationEntry,
+} from "@/lib/cache/explanations";
+import { getSuiClient, TRANSACTION_BLOCK_OPTIONS } from "@/lib/sui/client";
+import { NETWORK_LABELS, SUI_NETWORKS, type SuiNetwork } from "@/lib/sui/networks";
+import { RpcUnavailableError } from "@/lib/sui/rpc";
+import { analyzeTransaction, nameParties } from "./index";
+
+// Explanations of executed transactions by digest, from the cache when possible. Shared by the
+// explain API, the server-rendered transaction pages and their preview images.
+
+export type ExplanationLookup = {
+  entry: ExplanationEntry | null;
+  cacheStatus: CacheStatus;
+  // Why there is no entry: the fullnode's JSON-RPC error (e.g. an unknown digest), or an
+  // RpcUnavailableError when the network could not be asked at all
+  error: JsonRpcError | RpcUnavailableError | null;
+};
+
+// Fetch a transaction block from a single network, returning null if the fullnode says it
+// cannot be found or the network cannot be reached. Any other error (e.g. a missing fixture)
+// says nothing about the transaction and is thrown.
+async function fetchTransactionBlock(
+  network: SuiNetwork,
+  digest: string,
+): Promise<{ txBlock: SuiTransactionBlockResponse | null; error: ExplanationLookup["error"] }> {
+  try {
+    const txBlock = await getSuiClient(network).getTransactionBlock({
+      digest,
+      options: TRANSACTION_BLOCK_OPTIONS,
+    });
+    return { txBlock, error: null };
+  } catch (error) {
+    if (!(error instanceof JsonRpcError) && !(error instanceof RpcUnavailableError)) throw error;
+    console.error(`Error fetching transaction from ${NETWORK_LABELS[network]}:`, error);
+    return { txBlock: null, error };
+  }
+}
+
+// Explain a digest on a single network, from the cached analysis when possible. A transaction
+// page shows the earlier owners of its objects, so for it an analysis cached without them (by a
+// batch, a timeline or a preview) is redone from its raw transaction. Previews leave the owners
+// out and take any cached analysis.
+async function lookupExplanation(
+  network: SuiNetwork,
+  digest: string,
+  { bypassCache, previousOwners }: { bypassCache: boolean; previousOwners: boolean },
+): Promise<ExplanationLookup> {
+  const cached = bypassCache ? undefined : await getCachedAnalysis(network, digest);
+  if (cached && (cached.previousOwners || !previousOwners)) {
+    return { entry: toExplanationEntry(await nameParties(cached.analysis)), cacheStatus: "HIT", error: null };
+  }
+
+  const { txBlock, error } = cached
+    ? { txBlock: cached.analysis.raw.transaction, error: null }
+    : await fetchTransactionBlock(network, digest);
+  const cacheStatus: CacheStatus = bypassCache ? "BYPASS" : cached ? "HIT" : "MISS";
+  if (!txBlock) return { entry: null, cacheStatus, error };
+
+  const analysis = await analyzeTransaction(txBlock, network, { previousOwners });
+  await cacheAnalysis(analysis, previousOwners);
+  return { entry: toExplanationEntry(await nameParties(analysis)), cacheStatus, error: null };
+}
+
+// Explain a digest on the given network and, with searchAll, on the others if it is not found
+// there. A missing transaction comes back with a null entry and the primary network's error,
+// unless a network that was searched could not be reached: then the digest may exist after all,
+// and that network's RpcUnavailableError is returned instead.
+export async function findExplanation(
+  network: SuiNetwork,
+  digest: string,
+  {
+    searchAll = false,
+    bypassCache = false,
+    previousOwners = true,
+  }: {
+    searchAll?: boolean;
+    bypassCache?: boolean;
+    // Look up the earlier owners of the transaction's objects; previews do without them
+    previousOwners?: boolean;
+  } = {},
+): Promise<ExplanationLookup> {
+  const options = { bypassCache, previousOwners };
+  const primary = await lookupExplanation(network, digest, options);
+  if (primary.entry || !searchAll) return primary;
+
+  let unavailable = primary.error instanceof RpcUnavailableError ? primary : null;
+  for (const candidate of SUI_NETWORKS) {
+    if (candidate === network) continue;
+    const fallback = await lookupExplanation(candidate, digest, options);
+    if (fallback.entry) return fallback;
+    if (!unavailable && fallback.error instanceof RpcUnavailableError) unavailable = fallback;
+  }
+  return unavailable ?? primary;
+}
@@ -0,0 +1,134 @@
+import { bcs } from "@mysten/sui/bcs";
+import { JsonRpcError, type SuiCallArg, type SuiMoveNormalizedFunction } from "@mysten/sui/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setDataSource } from "@/lib/sui/client";
+import { formatMoveType, resolveMoveCallArguments } from "./move-args";
+import { decodePtb } from "./ptb";
+
+const PACKAGE = "0x8f2a6d3c1b4e5f7a9c0d2e4f6a8b1c3d5e7f9a0b2c4d6e8f1a3b5c7d9e0f2a4b";
+const OWNER = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+const COIN = "0x0b1a7c3f6d5a9e2c8b4f1e0d7a6c5b4a3f2e1d0c9b8a7f6e5d4c3b2a1f0e9d8c";
+
+const std = (module: string, name: string, typeArguments: SuiMoveNormalizedFunction["parameters"] = []) => ({
+  Struct: { address: "0x1", module, name, typeArguments },
+});
+const sui = (module: string, name: string, typeArguments: SuiMoveNormalizedFunction["parameters"] = []) => ({
+  Struct: { address: "0x2", module, name, typeArguments },
+});
+
+// mint<T>(coin: &mut Coin<T>, amount: u64, name: vector<u8>, memo: Option<String>, to: address,
+//          ids: vector<u64>, ctx: &mut TxContext)
+const MINT: SuiMoveNormalizedFunction = {
+  visibility: "Public",
+  isEntry: true,
+  typeParameters: [{ abilities: [] }],
+  parameters: [
+    { MutableReference: sui("coin", "Coin", [{ TypeParameter: 0 }]) },
+    "U64",
+    { Vector: "U8" },
+    std("option", "Option", [std("string", "String")]),
+    "Address",
+    { Vector: "U64" },
+    { MutableReference: sui("tx_context", "TxContext") },
+  ],
+  return: [],
+};
+
+const bytes = (serialized: { toBytes(): Uint8Array }) => Array.from(serialized.toBytes());
+
+// Pure inputs without a valueType, as the fullnode reports values it could not type
+const call = (fn: string, inputs: SuiCallArg[]) =>
+  decodePtb({
+    kind: "ProgrammableTransaction",
+    inputs: [
+      { type: "object", objectType: "immOrOwnedObject", objectId: COIN, version: "1", digest: "d" },
+      ...inputs,
+    ],
+    transactions: [
+      {
+        MoveCall: {
+          package: PACKAGE,
+          module: "token",
+          function: fn,
+          type_arguments: ["0x2::sui::SUI"],
+          arguments: [0, ...inputs.map((_, i) => i + 1)].map((Input) => ({ Input })),
+        },
+      },
+    ],
+  });
+
+describe("resolveMoveCallArguments", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setDataSource({
+      name: "test",
+      createTransport: () => ({
+        async request<T>({ method, params }: { method: string; params: unknown[] }): Promise<T> {
+          if (method === "sui_getNormalizedMoveFunction" && params[2] === "mint") return MINT as T;
+          throw new JsonRpcError(`No function ${String(params[2])}`, -32602);
+        },
+        async subscribe() {
+          throw new Error("Not supported");
+        },
+      }),
+    });
+  });
+
+  it("decodes untyped pure values by their parameter types and skips the TxContext", async () => {
+    const ptb = call("mint", [
+      { type: "pure", value: bytes(bcs.u64().serialize(1500000000)) },
+      { type: "pure", value: bytes(bcs.vector(bcs.u8()).serialize(new TextEncoder().encode("Sui Hero #7"))) },
+      { type: "pure", value: bytes(bcs.option(bcs.string()).serialize("gm")) },
+      { type: "pure", value: bytes(bcs.Address.serialize(OWNER)) },
+      { type: "pure", value: bytes(bcs.vector(bcs.u64()).serialize([1, 2, 3])) },
+    ]);
+
+    const args = (await resolveMoveCallArguments("mainnet", ptb)).get(0)!;
+    expect(args.map(({ name, type, kind, value }) => ({ name, type, kind, value }))).toEqual([
+      { name: "arg0", type: "&mut 0x2::coin::Coin<0x2::sui::SUI>", kind: "object", value: expect.any(String) },
+      { name: "arg1", type: "u64", kind: "pure", value: "1500000000" },
+      { name: "arg2", type: "vector<u8>", kind: "pure", value: '"Sui Hero #7"' },
+      { name: "arg3", type: "0x1::option::Option<0x1::string::String>", kind: "pure", value: "gm" },
+      { name: "arg4", type: "address", kind: "pure", value: OWNER },
+      { name: "arg5", type: "vector<u64>", kind: "pure", value: "[1, 2, 3]" },
+    ]);
+    // An object the transaction only read is typed from the parameter
+    expect(args[0]).toMatchObject({ objectId: COIN, objectType: "0x2::coin::Coin<0x2::sui::SUI>" });
+  });
+
+  it("shows bytes as hex when they are not text or do not fit the parameter type", async () => {
+    const ptb = call("mint", [
+      { type: "pure", value: [1, 2] },
+      { type: "pure", value: bytes(bcs.vector(bcs.u8()).serialize([0, 255, 16])) },
+    ]);
+
+    const args = (await resolveMoveCallArguments("mainnet", ptb)).get(0)!;
+    expect(args[1].value).toBe("[1, 2]");
+    expect(args[2].value).toBe("0x00ff10");
+  });
+
+  it("keeps arguments without types when the signature is unavailable", async () => {
+    const ptb = call("burn", [{ type: "pure", valueType: "u64", value: "42" }]);
+
+    const args = (await resolveMoveCallArguments("mainnet", ptb)).get(0)!;
+    expect(args[1]).toEqual({
+      name: "arg1",
+      type: null,
+      kind: "pure",
+      value: "42",
+      objectId: null,
+      objectType: null,
+    });
+  });
+});
+
+describe("formatMoveType", () => {
+  it("fills in type arguments and shortens long addresses", () => {
+    const type = {
+      Reference: {
+        Struct: { address: PACKAGE, module: "pool", name: "Pool", typeArguments: [{ TypeParameter: 0 }, { TypeParameter: 1 }] },
+      },
+    };
+    expect(formatMoveType(type, ["0x2::sui::SUI"])).toBe("&0x8f2a6d3c...0f2a4b::pool::Pool<0x2::sui::SUI, T1>");
+  });
+});
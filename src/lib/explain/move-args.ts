@@ -0,0 +1,187 @@
+import type { SuiMoveNormalizedType } from "@mysten/sui/client";
+import { bcs, type BcsType } from "@mysten/sui/bcs";
+import { normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+import { getMoveFunction } from "@/lib/sui/move-functions";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { shortenPackageId } from "./format";
+import { describeArgument, type DecodedPtb, type PtbArgument, type PtbCommand } from "./ptb";
+
+// Pairs each Move call's arguments with the parameter types of the called function, decoding
+// pure values by their Move type and naming the type of every object argument.
+
+export type MoveCallArgument = {
+  // Compiled Move keeps no parameter names, so arguments are named by position (arg0, arg1, ...)
+  name: string;
+  // Parameter type with the call's type arguments filled in; null if the signature is unavailable
+  type: string | null;
+  kind: "pure" | "object" | "result" | "gas";
+  // Decoded pure value, or a short description of the object or result passed
+  value: string;
+  objectId: string | null;
+  objectType: string | null;
+};
+
+const STD = normalizeSuiAddress("0x1");
+const SUI = normalizeSuiAddress("0x2");
+
+function isStruct(
+  type: SuiMoveNormalizedType,
+  address: string,
+  module: string,
+  name: string,
+): type is Extract<SuiMoveNormalizedType, { Struct: unknown }> {
+  return (
+    typeof type === "object" &&
+    "Struct" in type &&
+    normalizeSuiAddress(type.Struct.address) === address &&
+    type.Struct.module === module &&
+    type.Struct.name === name
+  );
+}
+
+// The trailing &TxContext / &mut TxContext parameter is supplied by the runtime, not the caller
+function isTxContext(type: SuiMoveNormalizedType): boolean {
+  if (typeof type !== "object") return false;
+  const inner = "Reference" in type ? type.Reference : "MutableReference" in type ? type.MutableReference : null;
+  return inner !== null && isStruct(inner, SUI, "tx_context", "TxContext");
+}
+
+// Move source syntax for a normalized type, e.g. "&mut 0x2::coin::Coin<0x2::sui::SUI>"
+export function formatMoveType(type: SuiMoveNormalizedType, typeArguments: string[]): string {
+  if (typeof type === "string") return type.toLowerCase();
+  if ("TypeParameter" in type) return typeArguments[type.TypeParameter] ?? `T${type.TypeParameter}`;
+  if ("Reference" in type) return `&${formatMoveType(type.Reference, typeArguments)}`;
+  if ("MutableReference" in type) return `&mut ${formatMoveType(type.MutableReference, typeArguments)}`;
+  if ("Vector" in type) return `vector<${formatMoveType(type.Vector, typeArguments)}>`;
+  const { address, module, name, typeArguments: args } = type.Struct;
+  const params = args.length > 0 ? `<${args.map((arg) => formatMoveType(arg, typeArguments)).join(", ")}>` : "";
+  return `${shortenPackageId(address)}::${module}::${name}${params}`;
+}
+
+// Only decoding is needed, which lets layouts of different value types share one type
+type PureLayout = Pick<BcsType<unknown>, "parse">;
+
+// BCS layout of a pure parameter type, or null for types that cannot be passed as pure values
+function bcsFor(type: SuiMoveNormalizedType): PureLayout | null {
+  switch (type) {
+    case "Bool":
+      return bcs.bool();
+    case "U8":
+      return bcs.u8();
+    case "U16":
+      return bcs.u16();
+    case "U32":
+      return bcs.u32();
+    case "U64":
+      return bcs.u64();
+    case "U128":
+      return bcs.u128();
+    case "U256":
+      return bcs.u256();
+    case "Address":
+      return bcs.Address;
+  }
+  if (typeof type !== "object") return null;
+  if ("Vector" in type) {
+    const element = bcsFor(type.Vector);
+    return element ? bcs.vector(element as BcsType<unknown>) : null;
+  }
+  if (isStruct(type, STD, "string", "String") || isStruct(type, STD, "ascii", "String")) {
+    return bcs.string();
+  }
+  if (isStruct(type, SUI, "object", "ID")) return bcs.Address;
+  if (isStruct(type, STD, "option", "Option")) {
+    const element = bcsFor(type.Struct.typeArguments[0]);
+    return element ? bcs.option(element as BcsType<unknown>) : null;
+  }
+  return null;
+}
+
+function isBytes(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255);
+}
+
+// vector<u8> is usually text (names, URLs, descriptions); show it as UTF-8 when it is printable
+function formatBytes(bytes: number[]): string {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(new Uint8Array(bytes));
+    if (text.length > 0 && !/[\u0000-\u0008\u000E-\u001F\u007F]/.test(text)) return JSON.stringify(text);
+  } catch {
+    // Not UTF-8
+  }
+  return `0x${toHex(new Uint8Array(bytes))}`;
+}
+
+function formatValue(value: unknown, type: SuiMoveNormalizedType | null): string {
+  if (value === null || value === undefined) return "none";
+  if (type && typeof type === "object" && "Vector" in type && type.Vector === "U8" && isBytes(value)) {
+    return formatBytes(value);
+  }
+  if (Array.isArray(value)) {
+    const element = type && typeof type === "object" && "Vector" in type ? type.Vector : null;
+    return `[${value.map((item) => formatValue(item, element)).join(", ")}]`;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// Pure inputs the fullnode could not type arrive as raw BCS bytes; decode them by parameter type
+function decodePure(value: unknown, valueType: string | null, type: SuiMoveNormalizedType | null): string {
+  if (valueType === null && type && isBytes(value)) {
+    const layout = bcsFor(type);
+    if (layout) {
+      try {
+        return formatValue(layout.parse(new Uint8Array(value)), type);
+      } catch {
+        // Bytes do not match the parameter type; show them as they are
+      }
+    }
+  }
+  return formatValue(value, type);
+}
+
+function describeCallArgument(
+  arg: PtbArgument,
+  position: number,
+  type: SuiMoveNormalizedType | null,
+  typeArguments: string[],
+): MoveCallArgument {
+  const formattedType = type ? formatMoveType(type, typeArguments) : null;
+  const base = { name: `arg${position}`, type: formattedType, objectId: null, objectType: null };
+
+  if (arg.kind === "Input" && arg.input?.kind === "pure") {
+    return { ...base, kind: "pure", value: decodePure(arg.input.value, arg.input.valueType, type) };
+  }
+  if (arg.kind === "Input" && arg.input?.kind === "object") {
+    return {
+      ...base,
+      kind: "object",
+      value: describeArgument(arg),
+      objectId: arg.input.objectId,
+      // Objects the transaction only read are not in its object changes; fall back to the parameter type
+      objectType: arg.input.objectType ?? formattedType?.replace(/^&(mut )?/, "") ?? null,
+    };
+  }
+  return { ...base, kind: arg.kind === "GasCoin" ? "gas" : "result", value: describeArgument(arg) };
+}
+
+async function resolveCallArguments(network: SuiNetwork, command: PtbCommand): Promise<MoveCallArgument[]> {
+  const target = command.target!;
+  const signature = await getMoveFunction(network, target);
+  const parameters = signature?.parameters.filter((type) => !isTxContext(type)) ?? [];
+  return command.arguments.map((arg, i) =>
+    describeCallArgument(arg, i, parameters[i] ?? null, target.typeArguments),
+  );
+}
+
+// Arguments of every Move call in the block, keyed by command index
+export async function resolveMoveCallArguments(
+  network: SuiNetwork,
+  ptb: DecodedPtb | null,
+): Promise<Map<number, MoveCallArgument[]>> {
+  const calls = (ptb?.commands ?? []).filter((command) => command.type === "MoveCall" && command.target);
+  const resolved = await Promise.all(
+    calls.map(async (command) => [command.index, await resolveCallArguments(network, command)] as const),
+  );
+  return new Map(resolved);
+}
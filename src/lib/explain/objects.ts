@@ -0,0 +1,133 @@
+import type { ObjectOwner, SuiObjectChange, TransactionEffects } from "@mysten/sui/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { getPastOwners } from "@/lib/sui/past-objects";
+
+// Every object a transaction touched: created, mutated, deleted, wrapped into another object,
+// unwrapped out of one, and published packages.
+
+export type ObjectChangeKind = "created" | "mutated" | "deleted" | "wrapped" | "unwrapped";
+
+export type ObjectOwnerInfo = {
+  kind: "address" | "object" | "shared" | "immutable" | "consensus";
+  // Owning address or parent object id, for address-, object- and consensus-owned objects
+  address: string | null;
+};
+
+export type ObjectChange = {
+  kind: ObjectChangeKind;
+  sender: string;
+  objectId: string;
+  objectType: string | null;
+  // null when the object had no owner (created, unwrapped) or its earlier version could not be read
+  ownerBefore: ObjectOwnerInfo | null;
+  // null when the object no longer has an owner (deleted, wrapped)
+  ownerAfter: ObjectOwnerInfo | null;
+  version: string;
+  previousVersion: string | null;
+};
+
+export type PublishedPackage = {
+  packageId: string;
+  version: string;
+  modules: string[];
+};
+
+export function describeOwner(owner: ObjectOwner | null | undefined): ObjectOwnerInfo | null {
+  if (!owner) return null;
+  if (owner === "Immutable") return { kind: "immutable", address: null };
+  if ("AddressOwner" in owner) return { kind: "address", address: owner.AddressOwner };
+  if ("ObjectOwner" in owner) return { kind: "object", address: owner.ObjectOwner };
+  if ("ConsensusAddressOwner" in owner) return { kind: "consensus", address: owner.ConsensusAddressOwner.owner };
+  return { kind: "shared", address: null };
+}
+
+// Object changes in object-change order. Unwrapped objects are reported by the fullnode as created,
+// so they are told apart by the effects' unwrapped list.
+export function collectObjectChanges(
+  objectChanges: SuiObjectChange[] | null | undefined,
+  effects: TransactionEffects | null | undefined,
+): { changes: ObjectChange[]; published: PublishedPackage[] } {
+  const unwrapped = new Set((effects?.unwrapped ?? []).map((ref) => ref.reference.objectId));
+  // Version each input object had before the transaction
+  const inputVersions = new Map(
+    (effects?.modifiedAtVersions ?? []).map((entry) => [entry.objectId, entry.sequenceNumber]),
+  );
+
+  const changes: ObjectChange[] = [];
+  const published: PublishedPackage[] = [];
+  for (const change of objectChanges ?? []) {
+    switch (change.type) {
+      case "published":
+        published.push({
+          packageId: change.packageId,
+          version: change.version,
+          modules: change.modules,
+        });
+        break;
+      case "created":
+        changes.push({
+          kind: unwrapped.has(change.objectId) ? "unwrapped" : "created",
+          sender: change.sender,
+          objectId: change.objectId,
+          objectType: change.objectType,
+          ownerBefore: null,
+          ownerAfter: describeOwner(change.owner),
+          version: change.version,
+          previousVersion: null,
+        });
+        break;
+      case "mutated":
+      case "transferred":
+        changes.push({
+          kind: "mutated",
+          sender: change.sender,
+          objectId: change.objectId,
+          objectType: change.objectType,
+          ownerBefore: null,
+          ownerAfter: describeOwner(change.type === "mutated" ? change.owner : change.recipient),
+          version: change.version,
+          previousVersion: change.type === "mutated" ? change.previousVersion : (inputVersions.get(change.objectId) ?? null),
+        });
+        break;
+      case "deleted":
+      case "wrapped":
+        changes.push({
+          kind: change.type,
+          sender: change.sender,
+          objectId: change.objectId,
+          objectType: change.objectType,
+          ownerBefore: null,
+          ownerAfter: null,
+          version: change.version,
+          previousVersion: inputVersions.get(change.objectId) ?? null,
+        });
+        break;
+    }
+  }
+  return { changes, published };
+}
+
+// Fill in who owned each mutated, deleted or wrapped object before the transaction. Shared and
+// immutable objects cannot change owner, so their earlier owner is known without a lookup; the
+// others take one past-object lookup each, and are left unknown unless lookUp is set.
+export async function resolvePreviousOwners(
+  network: SuiNetwork,
+  changes: ObjectChange[],
+  { lookUp = false }: { lookUp?: boolean } = {},
+): Promise<ObjectChange[]> {
+  const unchanged = (change: ObjectChange) =>
+    change.ownerAfter?.kind === "shared" || change.ownerAfter?.kind === "immutable";
+  const lookups = changes.flatMap((change) =>
+    change.previousVersion && !unchanged(change)
+      ? [{ objectId: change.objectId, version: change.previousVersion }]
+      : [],
+  );
+  const owners =
+    lookUp && lookups.length > 0 ? await getPastOwners(network, lookups) : new Map<string, ObjectOwner>();
+
+  return changes.map((change) => {
+    if (!change.previousVersion) return change;
+    if (unchanged(change)) return { ...change, ownerBefore: change.ownerAfter };
+    return { ...change, ownerBefore: describeOwner(owners.get(change.objectId)) };
+  });
+}
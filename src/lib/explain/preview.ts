@@ -0,0 +1,78 @@
+import { formatCoinAmount, SUI_COIN_INFO, type CoinInfo } from "@/lib/sui/coin-metadata";
+import { NETWORK_LABELS } from "@/lib/sui/networks";
+import { OBJECT_ACTION_TYPES, type Action } from "./actions";
+import type { FiatValue } from "./fiat";
+import { shortenPackageId } from "./format";
+import { explanationHeadline, type Explanation } from "./index";
+
+// Condensed explanation for link previews: the page title and description of /tx/<digest>,
+// and the contents of its Open Graph image
+
+export type ExplanationPreview = {
+  title: string;
+  headline: string;
+  status: Explanation["status"];
+  statusLabel: string;
+  network: string;
+  digest: string;
+  // Up to MAX_PREVIEW_AMOUNTS amounts moved, e.g. "2.5 SUI (≈ $10.25)" or "10 SUI → 25 USDC"
+  amounts: string[];
+  gas: string;
+  // Headline, amounts and gas in one paragraph, for the description meta tags
+  description: string;
+};
+
+const MAX_PREVIEW_AMOUNTS = 3;
+
+const STATUS_LABELS: Record<Explanation["status"], string> = {
+  success: "Success",
+  reverted: "Failed",
+  pending_or_unknown: "Pending",
+};
+
+function formatFiat(fiat: FiatValue | null | undefined): string {
+  if (!fiat) return "";
+  try {
+    const value = new Intl.NumberFormat("en-US", { style: "currency", currency: fiat.currency }).format(fiat.value);
+    return ` (≈ ${value})`;
+  } catch {
+    return ` (≈ ${fiat.value.toFixed(2)} ${fiat.currency})`;
+  }
+}
+
+function formatAmount(coin: CoinInfo | undefined, rawAmount: string | undefined, fiat?: FiatValue | null): string {
+  const { amount, symbol } = formatCoinAmount(coin, rawAmount);
+  return `${amount} ${symbol}${formatFiat(fiat)}`;
+}
+
+function previewAmount(action: Action): string | null {
+  if (action.swap) {
+    const { swap } = action;
+    return `${formatAmount(swap.coinInInfo, swap.amountIn)} → ${formatAmount(swap.coinOutInfo, swap.amountOut)}`;
+  }
+  if (action.amount && action.coin) return formatAmount(action.coin, action.amount, action.fiat);
+  return null;
+}
+
+export function buildExplanationPreview(explanation: Explanation): ExplanationPreview {
+  const headline = explanationHeadline(explanation);
+  const statusLabel = STATUS_LABELS[explanation.status];
+  const digest = shortenPackageId(explanation.txDigest);
+  const amounts = explanation.actions
+    .filter((action) => !OBJECT_ACTION_TYPES.has(action.type))
+    .flatMap((action) => previewAmount(action) ?? [])
+    .slice(0, MAX_PREVIEW_AMOUNTS);
+  const gas = formatAmount(SUI_COIN_INFO, explanation.gas.total, explanation.gas.fiat);
+
+  return {
+    title: `${statusLabel}: Sui transaction ${digest}`,
+    headline,
+    status: explanation.status,
+    statusLabel,
+    network: NETWORK_LABELS[explanation.network],
+    digest,
+    amounts,
+    gas,
+    description: [headline.replace(/\.?$/, "."), ...amounts.map((amount) => `Amount: ${amount}.`), `Gas: ${gas}.`].join(" "),
+  };
+}
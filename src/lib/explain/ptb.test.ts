@@ -0,0 +1,126 @@
+import type { SuiTransactionBlockKind } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { SUI_COIN_INFO, type CoinInfo } from "@/lib/sui/coin-metadata";
+import { collectObjectTypes, decodePtb, describeArgument, describePtbCommand } from "./ptb";
+
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const RECIPIENT = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+const USDC_COIN = "0x0b1a7c3f6d5a9e2c8b4f1e0d7a6c5b4a3f2e1d0c9b8a7f6e5d4c3b2a1f0e9d8c";
+
+const coins = new Map<string, CoinInfo>([
+  [SUI_COIN_INFO.coinType, SUI_COIN_INFO],
+  [USDC, { coinType: USDC, symbol: "USDC", name: "USD Coin", decimals: 6, iconUrl: null, source: "chain" }],
+]);
+
+// Splits 1.5 SUI off the gas coin, merges a USDC coin into itself and sends both away
+const kind: SuiTransactionBlockKind = {
+  kind: "ProgrammableTransaction",
+  inputs: [
+    { type: "pure", valueType: "u64", value: "1500000000" },
+    { type: "object", objectType: "immOrOwnedObject", objectId: USDC_COIN, version: "1", digest: "d" },
+    { type: "pure", valueType: "address", value: RECIPIENT },
+  ],
+  transactions: [
+    { SplitCoins: ["GasCoin", [{ Input: 0 }]] },
+    { MergeCoins: [{ Input: 1 }, [{ Input: 1 }]] },
+    { TransferObjects: [[{ NestedResult: [0, 0] }, { Input: 1 }], { Input: 2 }] },
+    {
+      MoveCall: {
+        package: "0x2",
+        module: "coin",
+        function: "value",
+        type_arguments: [USDC],
+        arguments: [{ Input: 1 }],
+      },
+    },
+  ],
+};
+
+const objectTypes = collectObjectTypes([
+  {
+    type: "mutated",
+    sender: RECIPIENT,
+    owner: { AddressOwner: RECIPIENT },
+    objectType: `0x2::coin::Coin<${USDC}>`,
+    objectId: USDC_COIN,
+    version: "2",
+    previousVersion: "1",
+    digest: "d",
+  },
+]);
+
+describe("decodePtb", () => {
+  it("ignores transactions that are not programmable", () => {
+    expect(decodePtb(null)).toBeNull();
+    expect(decodePtb({ kind: "ConsensusCommitPrologue", epoch: "1", round: "1", commit_timestamp_ms: "0" })).toBeNull();
+  });
+
+  it("resolves inputs, results and the gas coin", () => {
+    const ptb = decodePtb(kind, objectTypes)!;
+
+    expect(ptb.inputs[1]).toEqual({
+      index: 1,
+      kind: "object",
+      objectId: USDC_COIN,
+      objectKind: "immOrOwnedObject",
+      objectType: `0x2::coin::Coin<${USDC}>`,
+    });
+
+    const [split, merge, transfer, call] = ptb.commands;
+    expect(split).toMatchObject({ type: "SplitCoins", coinType: "0x2::sui::SUI", amounts: ["1500000000"] });
+    expect(merge).toMatchObject({ type: "MergeCoins", coinType: USDC });
+    expect(transfer.type).toBe("TransferObjects");
+    expect(transfer.recipient).toBe(RECIPIENT);
+    expect(transfer.arguments[0]).toEqual({ kind: "NestedResult", command: 0, result: 0, coinType: "0x2::sui::SUI" });
+    expect(call.target).toEqual({ package: "0x2", module: "coin", function: "value", typeArguments: [USDC] });
+  });
+
+  it("decodes publish and upgrade commands", () => {
+    const ptb = decodePtb({
+      kind: "ProgrammableTransaction",
+      inputs: [],
+      transactions: [{ Publish: ["0x1", "0x2"] }, { Upgrade: [["0x1"], "0xabc", { Result: 0 }] }],
+    })!;
+    expect(ptb.commands[0]).toMatchObject({ type: "Publish", dependencies: ["0x1", "0x2"] });
+    expect(ptb.commands[1]).toMatchObject({ type: "Upgrade", packageId: "0xabc" });
+  });
+});
+
+describe("describePtbCommand", () => {
+  const ptb = decodePtb(kind, objectTypes)!;
+  const text = (index: number) => describePtbCommand(ptb.commands[index], ptb, coins);
+
+  it("describes amounts in the coin's decimals", () => {
+    expect(text(0)).toBe("split 1.5 SUI from gas coin");
+    expect(text(1)).toBe("merged 1 USDC coin into coin 0x0b1a...9d8c");
+  });
+
+  it("describes split results by their amount", () => {
+    expect(text(2)).toBe("transferred 1.5 SUI (split in command 1), coin 0x0b1a...9d8c to 0x7d20...b58e");
+  });
+
+  it("names the called package when it is unknown", () => {
+    expect(text(3)).toBe("called coin::value in package 0x2");
+  });
+
+  it("describes split amounts that come from an earlier command", () => {
+    const computed = decodePtb({
+      kind: "ProgrammableTransaction",
+      inputs: [{ type: "pure", valueType: "address", value: RECIPIENT }],
+      transactions: [
+        { MoveCall: { package: "0x2", module: "coin", function: "value", arguments: ["GasCoin"] } },
+        { SplitCoins: ["GasCoin", [{ Result: 0 }]] },
+        { TransferObjects: [[{ NestedResult: [1, 0] }], { Input: 0 }] },
+      ],
+    })!;
+    expect(computed.commands[1].amounts).toEqual([null]);
+    expect(describePtbCommand(computed.commands[1], computed, coins)).toBe("split the result of command 1 from gas coin");
+    expect(describePtbCommand(computed.commands[2], computed, coins)).toBe(
+      "transferred the result of command 1 (split in command 2) to 0x7d20...b58e",
+    );
+  });
+
+  it("shortens address arguments", () => {
+    expect(describeArgument(ptb.commands[2].arguments[2])).toBe("0x7d20...b58e");
+  });
+});
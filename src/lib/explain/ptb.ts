@@ -0,0 +1,317 @@
+import type {
+  SuiArgument,
+  SuiCallArg,
+  SuiObjectChange,
+  SuiTransactionBlockKind,
+} from "@mysten/sui/client";
+import { formatCoinAmount, fallbackCoinInfo, type CoinInfo } from "@/lib/sui/coin-metadata";
+import { findPackage, type PackageInfo } from "@/lib/sui/packages";
+import { coinTypeFromObjectType, shortenAddress, shortenPackageId } from "./format";
+import { SUI_COIN_TYPE } from "./transfers";
+
+// Decoder for Programmable Transaction Blocks: resolves the Input/Result/NestedResult/GasCoin
+// wiring between commands and turns each command into a step that can be explained.
+
+export type PtbCommandType =
+  | "MoveCall"
+  | "TransferObjects"
+  | "SplitCoins"
+  | "MergeCoins"
+  | "MakeMoveVec"
+  | "Publish"
+  | "Upgrade";
+
+export type PtbInput =
+  | { index: number; kind: "pure"; value: unknown; valueType: string | null }
+  | {
+      index: number;
+      kind: "object";
+      objectId: string;
+      objectKind: "immOrOwnedObject" | "sharedObject" | "receiving";
+      objectType: string | null;
+    };
+
+export type PtbArgument =
+  | { kind: "GasCoin"; coinType: string }
+  | { kind: "Input"; index: number; input: PtbInput | null; coinType: string | null }
+  | { kind: "Result"; command: number; coinType: string | null }
+  | { kind: "NestedResult"; command: number; result: number; coinType: string | null };
+
+export type PtbCommand = {
+  index: number;
+  type: PtbCommandType;
+  arguments: PtbArgument[];
+  // MoveCall
+  target?: { package: string; module: string; function: string; typeArguments: string[] };
+  // SplitCoins / MergeCoins: the coin type being split or merged, when it can be determined
+  coinType?: string | null;
+  // SplitCoins: raw amounts split off, in base units; null for an amount that is not a pure input
+  // (e.g. the result of an earlier command)
+  amounts?: (string | null)[];
+  // TransferObjects: recipient address
+  recipient?: string | null;
+  // MakeMoveVec: element type, when given
+  elementType?: string | null;
+  // Publish / Upgrade
+  dependencies?: string[];
+  packageId?: string;
+};
+
+export type DecodedPtb = {
+  inputs: PtbInput[];
+  commands: PtbCommand[];
+};
+
+function decodeInput(
+  arg: SuiCallArg,
+  index: number,
+  objectTypes: Map<string, string>,
+): PtbInput {
+  if (arg.type === "pure") {
+    return { index, kind: "pure", value: arg.value, valueType: arg.valueType ?? null };
+  }
+  return {
+    index,
+    kind: "object",
+    objectId: arg.objectId,
+    objectKind: arg.objectType,
+    objectType: objectTypes.get(arg.objectId) ?? null,
+  };
+}
+
+// Object id → type, from the transaction's object changes
+export function collectObjectTypes(
+  objectChanges: SuiObjectChange[] | null | undefined,
+): Map<string, string> {
+  const types = new Map<string, string>();
+  for (const change of objectChanges ?? []) {
+    if ("objectId" in change && "objectType" in change && change.objectType) {
+      types.set(change.objectId, change.objectType);
+    }
+  }
+  return types;
+}
+
+export function decodePtb(
+  kind: SuiTransactionBlockKind | null | undefined,
+  objectTypes: Map<string, string> = new Map(),
+): DecodedPtb | null {
+  if (!kind || kind.kind !== "ProgrammableTransaction") return null;
+
+  const inputs = kind.inputs.map((arg, i) => decodeInput(arg, i, objectTypes));
+  // Coin type produced by each command's result(s), so later commands can refer to it
+  const resultCoinTypes = new Map<number, string | null>();
+
+  const resolve = (arg: SuiArgument): PtbArgument => {
+    if (arg === "GasCoin") return { kind: "GasCoin", coinType: SUI_COIN_TYPE };
+    if ("Input" in arg) {
+      const input = inputs[arg.Input] ?? null;
+      const coinType = input?.kind === "object" ? coinTypeFromObjectType(input.objectType) : null;
+      return { kind: "Input", index: arg.Input, input, coinType };
+    }
+    if ("Result" in arg) {
+      return { kind: "Result", command: arg.Result, coinType: resultCoinTypes.get(arg.Result) ?? null };
+    }
+    const [command, result] = arg.NestedResult;
+    return {
+      kind: "NestedResult",
+      command,
+      result,
+      coinType: resultCoinTypes.get(command) ?? null,
+    };
+  };
+
+  const commands: PtbCommand[] = kind.transactions.map((tx, index) => {
+    if ("MoveCall" in tx) {
+      const call = tx.MoveCall;
+      return {
+        index,
+        type: "MoveCall",
+        arguments: (call.arguments ?? []).map(resolve),
+        target: {
+          package: call.package,
+          module: call.module,
+          function: call.function,
+          typeArguments: call.type_arguments ?? [],
+        },
+      };
+    }
+    if ("SplitCoins" in tx) {
+      const [coin, amounts] = tx.SplitCoins;
+      const source = resolve(coin);
+      const amountArgs = amounts.map(resolve);
+      resultCoinTypes.set(index, source.coinType);
+      return {
+        index,
+        type: "SplitCoins",
+        arguments: [source, ...amountArgs],
+        coinType: source.coinType,
+        amounts: amountArgs.map(pureValueString),
+      };
+    }
+    if ("MergeCoins" in tx) {
+      const [destination, sources] = tx.MergeCoins;
+      const target = resolve(destination);
+      return {
+        index,
+        type: "MergeCoins",
+        arguments: [target, ...sources.map(resolve)],
+        coinType: target.coinType,
+      };
+    }
+    if ("TransferObjects" in tx) {
+      const [objects, address] = tx.TransferObjects;
+      const recipient = resolve(address);
+      return {
+        index,
+        type: "TransferObjects",
+        arguments: [...objects.map(resolve), recipient],
+        recipient: pureValueString(recipient),
+      };
+    }
+    if ("MakeMoveVec" in tx) {
+      const [elementType, elements] = tx.MakeMoveVec;
+      return {
+        index,
+        type: "MakeMoveVec",
+        arguments: elements.map(resolve),
+        elementType,
+      };
+    }
+    if ("Publish" in tx) {
+      return { index, type: "Publish", arguments: [], dependencies: tx.Publish };
+    }
+    const [dependencies, packageId, ticket] = tx.Upgrade;
+    return {
+      index,
+      type: "Upgrade",
+      arguments: [resolve(ticket)],
+      dependencies,
+      packageId,
+    };
+  });
+
+  return { inputs, commands };
+}
+
+// Value of a pure input argument as a string, or null if the argument is not a pure input
+function pureValueString(arg: PtbArgument): string | null {
+  if (arg.kind !== "Input" || arg.input?.kind !== "pure") return null;
+  const { value } = arg.input;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  return null;
+}
+
+// Short human-readable name for an argument, e.g. "gas coin" or "result of command 2"
+export function describeArgument(arg: PtbArgument): string {
+  switch (arg.kind) {
+    case "GasCoin":
+      return "gas coin";
+    case "Input": {
+      const input = arg.input;
+      if (!input) return `input ${arg.index}`;
+      if (input.kind === "pure") {
+        const value = pureValueString(arg);
+        if (value && /^0x[0-9a-fA-F]{40,64}$/.test(value)) return shortenAddress(value);
+        return value ?? `input ${arg.index}`;
+      }
+      return `${arg.coinType ? "coin" : "object"} ${shortenAddress(input.objectId)}`;
+    }
+    case "Result":
+      return `result of command ${arg.command + 1}`;
+    case "NestedResult":
+      return `result ${arg.result + 1} of command ${arg.command + 1}`;
+  }
+}
+
+// Plain-English description of one command, e.g. "split 5 SUI from gas coin". Without
+// withRecipient, TransferObjects leaves out the recipient so the caller can name it.
+export function describePtbCommand(
+  command: PtbCommand,
+  ptb: DecodedPtb,
+  coins: Map<string, CoinInfo>,
+  packages: Map<string, PackageInfo> = new Map(),
+  { withRecipient = true }: { withRecipient?: boolean } = {},
+): string {
+  const coinFor = (coinType: string | null | undefined) =>
+    coinType ? (coins.get(coinType) ?? fallbackCoinInfo(coinType)) : undefined;
+
+  const formatAmount = (raw: string, coin: CoinInfo | undefined) => {
+    if (!coin) return raw;
+    const { amount, symbol } = formatCoinAmount(coin, raw);
+    return `${amount} ${symbol}`;
+  };
+
+  // The i-th amount of a SplitCoins command, or where it came from when it was not a pure input
+  const describeSplitAmount = (split: PtbCommand, i: number) => {
+    const raw = split.amounts?.[i];
+    if (raw != null) return formatAmount(raw, coinFor(split.coinType));
+    const arg = split.arguments[i + 1];
+    return arg && (arg.kind === "Result" || arg.kind === "NestedResult")
+      ? `the ${describeArgument(arg)}`
+      : "an unknown amount";
+  };
+
+  // Objects produced by SplitCoins are described by their amount rather than their position
+  const describeObject = (arg: PtbArgument) => {
+    if (arg.kind === "Result" || arg.kind === "NestedResult") {
+      const producer = ptb.commands[arg.command];
+      if (producer?.type === "SplitCoins" && producer.amounts) {
+        const count = producer.amounts.length;
+        if (arg.kind === "NestedResult") {
+          if (arg.result < count) {
+            return `${describeSplitAmount(producer, arg.result)} (split in command ${arg.command + 1})`;
+          }
+        } else {
+          const amounts = Array.from({ length: count }, (_, i) => describeSplitAmount(producer, i));
+          return `${amounts.join(", ")} (split in command ${arg.command + 1})`;
+        }
+      }
+    }
+    return describeArgument(arg);
+  };
+
+  // Registry name of a package (any version), or its shortened id
+  const describePackage = (packageId: string) => {
+    const pkg = findPackage(packages, packageId);
+    return pkg ? pkg.name : `package ${shortenPackageId(packageId)}`;
+  };
+
+  switch (command.type) {
+    case "MoveCall": {
+      const target = command.target!;
+      return `called ${target.module}::${target.function} in ${describePackage(target.package)}`;
+    }
+    case "SplitCoins": {
+      const source = describeArgument(command.arguments[0]);
+      const amounts = (command.amounts ?? []).map((_, i) => describeSplitAmount(command, i));
+      const what = amounts.length === 1 ? amounts[0] : `${amounts.length} coins (${amounts.join(", ")})`;
+      return `split ${what} from ${source}`;
+    }
+    case "MergeCoins": {
+      const [destination, ...sources] = command.arguments;
+      const coin = coinFor(command.coinType);
+      const noun = coin ? `${coin.symbol} coin` : "coin";
+      return `merged ${sources.length} ${noun}${sources.length === 1 ? "" : "s"} into ${describeArgument(destination)}`;
+    }
+    case "TransferObjects": {
+      const objects = command.arguments.slice(0, -1).map(describeObject);
+      if (!withRecipient) return `transferred ${objects.join(", ")}`;
+      const recipient = command.recipient ? shortenAddress(command.recipient) : "unknown";
+      return `transferred ${objects.join(", ")} to ${recipient}`;
+    }
+    case "MakeMoveVec": {
+      const count = command.arguments.length;
+      const elementType = command.elementType ? `<${command.elementType}>` : "";
+      return `built a vector${elementType} of ${count} element${count === 1 ? "" : "s"}`;
+    }
+    case "Publish": {
+      const count = command.dependencies?.length ?? 0;
+      return `published a package with ${count} dependenc${count === 1 ? "y" : "ies"}`;
+    }
+    case "Upgrade":
+      return command.packageId ? `upgraded ${describePackage(command.packageId)}` : "upgraded package unknown";
+  }
+}
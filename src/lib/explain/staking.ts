@@ -0,0 +1,142 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { SuiEvent, SuiObjectChange } from "@mysten/sui/client";
+import { eventStructType, field, normalizeStructName } from "./adapters/utils";
+import type { PtbArgument, PtbCommand } from "./ptb";
+
+// Native staking through 0x3::sui_system, recognised from the staking events and,
+// when those are missing, from the Move calls themselves.
+
+export type StakingOperation = {
+  kind: "stake" | "unstake";
+  staker: string;
+  validatorAddress: string | null;
+  poolId: string | null;
+  // Principal in MIST
+  amount: string | null;
+  // Reward earned in MIST (unstake only)
+  reward: string | null;
+  stakedSuiId: string | null;
+  epoch: string | null;
+};
+
+const STAKING_REQUEST_EVENT = normalizeStructName("0x3::validator::StakingRequestEvent");
+const UNSTAKING_REQUEST_EVENT = normalizeStructName("0x3::validator::UnstakingRequestEvent");
+const STAKED_SUI_TYPE = normalizeStructName("0x3::staking_pool::StakedSui");
+
+const STAKE_FUNCTIONS = new Set(["request_add_stake", "request_add_stake_mul_coin", "request_add_stake_non_entry"]);
+const UNSTAKE_FUNCTIONS = new Set(["request_withdraw_stake", "request_withdraw_stake_non_entry"]);
+
+function isStakedSui(objectType: string | undefined): boolean {
+  return !!objectType && normalizeStructName(objectType) === STAKED_SUI_TYPE;
+}
+
+// StakedSui object ids created (stakes) or deleted (withdrawals), in object-change order
+function stakedSuiIds(
+  objectChanges: SuiObjectChange[] | null | undefined,
+  changeType: "created" | "deleted",
+): string[] {
+  return (objectChanges ?? []).flatMap((change) =>
+    change.type === changeType && isStakedSui(change.objectType) ? [change.objectId] : [],
+  );
+}
+
+function isSuiSystemCall(command: PtbCommand): boolean {
+  const target = command.target;
+  return (
+    command.type === "MoveCall" &&
+    !!target &&
+    normalizeSuiAddress(target.package) === normalizeSuiAddress("0x3") &&
+    target.module === "sui_system"
+  );
+}
+
+function pureAddress(arg: PtbArgument | undefined): string | null {
+  if (arg?.kind !== "Input" || arg.input?.kind !== "pure") return null;
+  const value = arg.input.value;
+  return typeof value === "string" && value.startsWith("0x") ? value : null;
+}
+
+// Amount staked when the stake coin was split off by a SplitCoins command with a pure amount
+function splitAmount(arg: PtbArgument | undefined, commands: PtbCommand[]): string | null {
+  if (arg?.kind !== "Result" && arg?.kind !== "NestedResult") return null;
+  const producer = commands[arg.command];
+  if (producer?.type !== "SplitCoins" || !producer.amounts) return null;
+  return arg.kind === "NestedResult" ? (producer.amounts[arg.result] ?? null) : (producer.amounts[0] ?? null);
+}
+
+export function detectStakingOperations(
+  sender: string,
+  events: SuiEvent[],
+  commands: PtbCommand[],
+  objectChanges: SuiObjectChange[] | null | undefined,
+): StakingOperation[] {
+  const created = stakedSuiIds(objectChanges, "created");
+  const deleted = stakedSuiIds(objectChanges, "deleted");
+  const operations: StakingOperation[] = [];
+
+  for (const event of events) {
+    const type = eventStructType(event);
+    if (type === STAKING_REQUEST_EVENT) {
+      operations.push({
+        kind: "stake",
+        staker: field(event, "staker_address") ?? sender,
+        validatorAddress: field(event, "validator_address"),
+        poolId: field(event, "pool_id"),
+        amount: field(event, "amount"),
+        reward: null,
+        stakedSuiId: created.shift() ?? null,
+        epoch: field(event, "epoch"),
+      });
+    } else if (type === UNSTAKING_REQUEST_EVENT) {
+      operations.push({
+        kind: "unstake",
+        staker: field(event, "staker_address") ?? sender,
+        validatorAddress: field(event, "validator_address"),
+        poolId: field(event, "pool_id"),
+        amount: field(event, "principal_amount"),
+        reward: field(event, "reward_amount"),
+        stakedSuiId: deleted.shift() ?? null,
+        epoch: field(event, "unstaking_epoch"),
+      });
+    }
+  }
+
+  if (operations.length > 0) return operations;
+
+  // No staking events (e.g. the transaction failed): fall back to the sui_system calls
+  for (const command of commands) {
+    if (!isSuiSystemCall(command)) continue;
+    const fn = command.target!.function;
+
+    if (STAKE_FUNCTIONS.has(fn)) {
+      const args = command.arguments;
+      operations.push({
+        kind: "stake",
+        staker: sender,
+        validatorAddress: pureAddress(args[args.length - 1]),
+        poolId: null,
+        amount: fn === "request_add_stake" ? splitAmount(args[1], commands) : null,
+        reward: null,
+        stakedSuiId: created.shift() ?? null,
+        epoch: null,
+      });
+    } else if (UNSTAKE_FUNCTIONS.has(fn)) {
+      const stakedSui = command.arguments[1];
+      operations.push({
+        kind: "unstake",
+        staker: sender,
+        validatorAddress: null,
+        poolId: null,
+        amount: null,
+        reward: null,
+        stakedSuiId:
+          stakedSui?.kind === "Input" && stakedSui.input?.kind === "object"
+            ? stakedSui.input.objectId
+            : (deleted.shift() ?? null),
+        epoch: null,
+      });
+    }
+  }
+
+  return operations;
+}
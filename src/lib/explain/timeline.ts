@@ -0,0 +1,205 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { mapWithConcurrency } from "@/lib/async";
+import { cacheAnalysis, getCachedAnalysis } from "@/lib/cache/explanations";
+import { getSuiClient, TRANSACTION_BLOCK_OPTIONS } from "@/lib/sui/client";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import {
+  analyzeTransaction,
+  applyPartyNames,
+  explanationHeadline,
+  lookUpPartyNames,
+  transactionParties,
+  type Explanation,
+} from "./index";
+
+// Explained transaction history for an address. Transactions sent by the address and
+// transactions that touched it are queried separately (fullnodes do not index both in one
+// filter) and merged newest-first, with a single opaque cursor tracking both streams.
+
+export type TimelineDirection = "all" | "from" | "to";
+
+export type TimelineEntry = {
+  digest: string;
+  // Whether the address sent the transaction or was only affected by it
+  direction: "sent" | "received";
+  sender: string;
+  status: Explanation["status"];
+  // One-line explanation, e.g. "0xabc...1234 swapped 10 SUI for 32.5 USDC on Cetus (+1 more action)"
+  summary: string;
+  actionTypes: string[];
+  gasUsed: string;
+  checkpointSeq: string | null;
+  timestamp: string | null;
+  timestampMs: string | null;
+};
+
+export type TimelinePage = {
+  address: string;
+  // Primary SuiNS name of the address, if it has one
+  name: string | null;
+  network: SuiNetwork;
+  direction: TimelineDirection;
+  entries: TimelineEntry[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+};
+
+type StreamName = "from" | "to";
+
+// RPC cursor per stream; null starts from the newest transaction, done means exhausted
+type StreamState = { cursor: string | null; done: boolean };
+export type TimelineCursor = Partial<Record<StreamName, StreamState>>;
+
+export const MAX_TIMELINE_LIMIT = 50;
+
+// Transactions of a page analyzed at once
+const EXPLAIN_CONCURRENCY = 4;
+
+function streamsFor(direction: TimelineDirection): StreamName[] {
+  return direction === "all" ? ["from", "to"] : [direction];
+}
+
+function encodeCursor(cursor: TimelineCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Decode a cursor returned by a previous page; null if it is malformed or was
+// issued for a different direction
+export function parseTimelineCursor(raw: string, direction: TimelineDirection): TimelineCursor | null {
+  let parsed;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const cursor: TimelineCursor = {};
+  for (const stream of streamsFor(direction)) {
+    const state = parsed?.[stream];
+    if (
+      !state ||
+      typeof state.done !== "boolean" ||
+      (state.cursor !== null && typeof state.cursor !== "string")
+    ) {
+      return null;
+    }
+    cursor[stream] = { cursor: state.cursor, done: state.done };
+  }
+  return cursor;
+}
+
+// Checkpoint order is execution order (timestamps only repeat it, and are missing on some
+// transactions); a transaction not yet in a checkpoint is newer than any that is
+function checkpointOf(txBlock: SuiTransactionBlockResponse): bigint | null {
+  try {
+    return txBlock.checkpoint ? BigInt(txBlock.checkpoint) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isNewer(a: SuiTransactionBlockResponse, b: SuiTransactionBlockResponse): boolean {
+  const checkpointA = checkpointOf(a);
+  const checkpointB = checkpointOf(b);
+  if (checkpointA === null || checkpointB === null) return checkpointA === null && checkpointB !== null;
+  return checkpointA > checkpointB;
+}
+
+export async function getAddressTimeline(
+  network: SuiNetwork,
+  rawAddress: string,
+  options: { direction: TimelineDirection; cursor?: TimelineCursor | null; limit: number },
+): Promise<TimelinePage> {
+  const address = normalizeSuiAddress(rawAddress);
+  const { direction, limit } = options;
+  const streams = streamsFor(direction);
+  const state: TimelineCursor = options.cursor
+    ? options.cursor
+    : Object.fromEntries(streams.map((s) => [s, { cursor: null, done: false }]));
+
+  const client = getSuiClient(network);
+  const pages = await Promise.all(
+    streams.map(async (stream) => {
+      const current = state[stream]!;
+      if (current.done) return { stream, data: [], hasNextPage: false };
+      const page = await client.queryTransactionBlocks({
+        filter: stream === "from" ? { FromAddress: address } : { ToAddress: address },
+        options: TRANSACTION_BLOCK_OPTIONS,
+        cursor: current.cursor,
+        limit,
+        order: "descending",
+      });
+      return { stream, data: page.data, hasNextPage: page.hasNextPage };
+    }),
+  );
+
+  // Merge the streams newest-first, remembering the last digest taken from each
+  const positions = pages.map(() => 0);
+  const merged: SuiTransactionBlockResponse[] = [];
+  while (merged.length < limit) {
+    let next = -1;
+    pages.forEach((page, i) => {
+      const candidate = page.data[positions[i]];
+      if (!candidate) return;
+      if (next === -1 || isNewer(candidate, pages[next].data[positions[next]])) {
+        next = i;
+      }
+    });
+    if (next === -1) break;
+
+    const txBlock = pages[next].data[positions[next]];
+    merged.push(txBlock);
+    // A transaction the address sent to itself appears in both streams
+    pages.forEach((page, i) => {
+      if (page.data[positions[i]]?.digest === txBlock.digest) positions[i] += 1;
+    });
+  }
+
+  const nextState: TimelineCursor = {};
+  pages.forEach((page, i) => {
+    const consumed = positions[i];
+    nextState[page.stream] = {
+      cursor: consumed > 0 ? page.data[consumed - 1].digest : state[page.stream]!.cursor,
+      done: consumed === page.data.length && !page.hasNextPage,
+    };
+  });
+  const hasNextPage = streams.some((stream) => !nextState[stream]!.done);
+
+  // Analyses come from the cache when they can; names are then looked up once for the whole page
+  const analyses = await mapWithConcurrency(merged, EXPLAIN_CONCURRENCY, async (txBlock) => {
+    const cached = await getCachedAnalysis(network, txBlock.digest);
+    if (cached) return cached.analysis;
+    const analysis = await analyzeTransaction(txBlock, network);
+    await cacheAnalysis(analysis, false);
+    return analysis;
+  });
+  const partyNames = await lookUpPartyNames(network, [address, ...analyses.flatMap(transactionParties)]);
+
+  const entries = analyses.map((analysis): TimelineEntry => {
+    const explanation = applyPartyNames(analysis, partyNames);
+    const sender = explanation.summary.from;
+    return {
+      digest: explanation.txDigest,
+      direction: typeof sender === "string" && normalizeSuiAddress(sender) === address ? "sent" : "received",
+      sender,
+      status: explanation.status,
+      summary: explanationHeadline(explanation),
+      actionTypes: Array.from(new Set(explanation.actions.map((a) => a.type))),
+      gasUsed: explanation.summary.gasUsed.total,
+      checkpointSeq: explanation.checkpointSeq,
+      timestamp: explanation.timestamp,
+      timestampMs: explanation.timestampMs,
+    };
+  });
+
+  return {
+    address,
+    name: partyNames.names.get(address) ?? null,
+    network,
+    direction,
+    entries,
+    nextCursor: hasNextPage ? encodeCursor(nextState) : null,
+    hasNextPage,
+  };
+}
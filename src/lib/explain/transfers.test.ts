@@ -0,0 +1,62 @@
+import type { SuiEvent } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { analyzeCoinTransfers, SUI_COIN_TYPE } from "./transfers";
+
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const ALICE = "0x7cd05ab4ad187a0878785f3c4d9bad5e8ba3eaeff1f72166fe46d845006ae4a6";
+const BOB = "0x7d20dcdb2bca4f508ea9613994683eb4e76e9c4ed371169677c1be02aaf0b58e";
+
+// A Transfer event that would read as 5 SUI from Alice to Bob
+const events = [
+  {
+    id: { txDigest: "d", eventSeq: "0" },
+    packageId: "0x2",
+    transactionModule: "pay",
+    sender: ALICE,
+    type: "0x2::pay::Transfer",
+    parsedJson: { amount: "5000000000", recipient: BOB, sender: ALICE },
+    bcs: "",
+    bcsEncoding: "base64",
+  },
+] as SuiEvent[];
+
+describe("analyzeCoinTransfers", () => {
+  it("pairs senders and receivers of the same coin, leaving out gas", () => {
+    const analysis = analyzeCoinTransfers({
+      balanceChanges: [
+        { owner: { AddressOwner: ALICE }, coinType: SUI_COIN_TYPE, amount: "-2001000" },
+        { owner: { AddressOwner: BOB }, coinType: SUI_COIN_TYPE, amount: "2000000" },
+      ],
+      events,
+      gasOwner: ALICE,
+      gasCost: BigInt(1000),
+    });
+    expect(analysis).toMatchObject({
+      source: "balanceChanges",
+      transfers: [{ coinType: SUI_COIN_TYPE, from: ALICE, to: BOB, amount: "2000000" }],
+    });
+  });
+
+  it("does not fall back to events when balance changes pair into no transfers", () => {
+    // Alice swapped SUI for USDC: nobody else's balance changed
+    const analysis = analyzeCoinTransfers({
+      balanceChanges: [
+        { owner: { AddressOwner: ALICE }, coinType: SUI_COIN_TYPE, amount: "-1000000000" },
+        { owner: { AddressOwner: ALICE }, coinType: USDC, amount: "3500000" },
+      ],
+      events,
+    });
+    expect(analysis.source).toBe("none");
+    expect(analysis.transfers).toEqual([]);
+    expect(analysis.balanceDeltas).toHaveLength(2);
+  });
+
+  it("falls back to events when the node returned no balance changes", () => {
+    const analysis = analyzeCoinTransfers({ balanceChanges: null, events });
+    expect(analysis).toEqual({
+      source: "events",
+      transfers: [{ coinType: SUI_COIN_TYPE, from: ALICE, to: BOB, amount: "5000000000" }],
+      balanceDeltas: [],
+    });
+  });
+});
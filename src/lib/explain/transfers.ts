@@ -0,0 +1,180 @@
+import type { BalanceChange, ObjectOwner, SuiEvent } from "@mysten/sui/client";
+
+export const SUI_COIN_TYPE = "0x2::sui::SUI";
+
+export type CoinTransfer = {
+  coinType: string;
+  from: string;
+  to: string;
+  amount: string;
+};
+
+// Net balance change of one owner for one coin type (signed, in base units)
+export type BalanceDelta = {
+  owner: string;
+  coinType: string;
+  amount: string;
+};
+
+export type CoinTransferAnalysis = {
+  transfers: CoinTransfer[];
+  balanceDeltas: BalanceDelta[];
+  // Where the transfers were derived from
+  source: "balanceChanges" | "events" | "none";
+};
+
+type CoinTransferInput = {
+  balanceChanges?: BalanceChange[] | null;
+  events?: SuiEvent[] | null;
+  // Address that paid for gas and the net gas charged, so gas is not mistaken for a transfer
+  gasOwner?: string | null;
+  gasCost?: bigint;
+};
+
+// Owner of a balance change as a display string
+export function ownerToString(owner: ObjectOwner | null | undefined): string {
+  if (!owner) return "unknown";
+  if (owner === "Immutable") return "immutable";
+  if ("AddressOwner" in owner) return owner.AddressOwner;
+  if ("ObjectOwner" in owner) return owner.ObjectOwner;
+  if ("ConsensusAddressOwner" in owner) return owner.ConsensusAddressOwner.owner;
+  return "shared";
+}
+
+// Collapse balance changes into one net delta per owner and coin type
+export function computeBalanceDeltas(
+  balanceChanges: BalanceChange[] | null | undefined,
+): BalanceDelta[] {
+  const totals = new Map<string, { owner: string; coinType: string; amount: bigint }>();
+
+  for (const change of balanceChanges ?? []) {
+    let amount: bigint;
+    try {
+      amount = BigInt(change.amount);
+    } catch {
+      continue;
+    }
+    const owner = ownerToString(change.owner);
+    const key = `${owner}|${change.coinType}`;
+    const entry = totals.get(key);
+    if (entry) {
+      entry.amount += amount;
+    } else {
+      totals.set(key, { owner, coinType: change.coinType, amount });
+    }
+  }
+
+  return Array.from(totals.values())
+    .filter((d) => d.amount !== BigInt(0))
+    .map((d) => ({ owner: d.owner, coinType: d.coinType, amount: d.amount.toString(10) }));
+}
+
+// Pair senders (negative deltas) with receivers (positive deltas) of the same coin type.
+// Gas is added back to the gas owner's SUI delta first, so paying for gas alone
+// never produces a transfer.
+function pairBalanceDeltas(
+  deltas: BalanceDelta[],
+  gasOwner: string | null | undefined,
+  gasCost: bigint,
+): CoinTransfer[] {
+  const byCoin = new Map<string, Array<{ owner: string; amount: bigint }>>();
+
+  for (const delta of deltas) {
+    let amount = BigInt(delta.amount);
+    if (gasOwner && delta.owner === gasOwner && delta.coinType === SUI_COIN_TYPE) {
+      amount += gasCost;
+    }
+    if (amount === BigInt(0)) continue;
+    const entries = byCoin.get(delta.coinType) ?? [];
+    entries.push({ owner: delta.owner, amount });
+    byCoin.set(delta.coinType, entries);
+  }
+
+  const transfers: CoinTransfer[] = [];
+
+  for (const [coinType, entries] of byCoin) {
+    const senders = entries
+      .filter((e) => e.amount < BigInt(0))
+      .map((e) => ({ owner: e.owner, remaining: -e.amount }));
+    const receivers = entries
+      .filter((e) => e.amount > BigInt(0))
+      .map((e) => ({ owner: e.owner, remaining: e.amount }));
+
+    let r = 0;
+    for (const sender of senders) {
+      while (sender.remaining > BigInt(0) && r < receivers.length) {
+        const receiver = receivers[r];
+        const amount = sender.remaining < receiver.remaining ? sender.remaining : receiver.remaining;
+        transfers.push({
+          coinType,
+          from: sender.owner,
+          to: receiver.owner,
+          amount: amount.toString(10),
+        });
+        sender.remaining -= amount;
+        receiver.remaining -= amount;
+        if (receiver.remaining === BigInt(0)) r++;
+      }
+    }
+  }
+
+  return transfers;
+}
+
+// Parse coin transfers from Sui transaction events
+export function parseCoinTransfersFromEvents(events: SuiEvent[] | null | undefined): CoinTransfer[] {
+  const transfers: CoinTransfer[] = [];
+
+  if (!events) return transfers;
+
+  for (const event of events) {
+    // Coin transfer events
+    if (event.type?.includes("Transfer")) {
+      const parsed = event.parsedJson as {
+        amount?: string;
+        coin_type?: string;
+        recipient?: string;
+        sender?: string;
+      };
+
+      if (parsed?.amount && parsed?.recipient) {
+        transfers.push({
+          coinType: parsed.coin_type || SUI_COIN_TYPE,
+          from: parsed.sender || "unknown",
+          to: parsed.recipient,
+          amount: parsed.amount,
+        });
+      }
+    }
+  }
+
+  return transfers;
+}
+
+// Derive coin transfers from balance changes, falling back to events only when the node
+// did not return balance changes. Balance changes that pair into no transfers (e.g. a swap
+// or a mint) are still authoritative, so events are not consulted for them.
+export function analyzeCoinTransfers({
+  balanceChanges,
+  events,
+  gasOwner,
+  gasCost = BigInt(0),
+}: CoinTransferInput): CoinTransferAnalysis {
+  const balanceDeltas = computeBalanceDeltas(balanceChanges);
+
+  if (balanceChanges != null) {
+    const fromBalances = pairBalanceDeltas(balanceDeltas, gasOwner, gasCost);
+    return {
+      transfers: fromBalances,
+      balanceDeltas,
+      source: fromBalances.length > 0 ? "balanceChanges" : "none",
+    };
+  }
+
+  const fromEvents = parseCoinTransfersFromEvents(events);
+  return {
+    transfers: fromEvents,
+    balanceDeltas,
+    source: fromEvents.length > 0 ? "events" : "none",
+  };
+}
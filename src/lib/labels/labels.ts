@@ -0,0 +1,64 @@
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+
+// Address labels ("Binance hot wallet", "Wormhole bridge", ...) shown instead of hex addresses.
+// Shared by the server registry and the browser address book, so keep this module client-safe.
+
+export const LABEL_CATEGORIES = [
+  "exchange",
+  "bridge",
+  "validator",
+  "protocol",
+  "system",
+  "personal",
+  "other",
+] as const;
+
+export type LabelCategory = (typeof LABEL_CATEGORIES)[number];
+
+export type AddressLabel = {
+  address: string;
+  label: string;
+  category: LabelCategory;
+};
+
+export const MAX_LABEL_LENGTH = 64;
+
+// Normalized address for a 0x-prefixed hex address, or null if it is not one
+export function labelKey(address: string | null | undefined): string | null {
+  if (!address || !/^0x[0-9a-fA-F]{1,64}$/.test(address)) return null;
+  const normalized = normalizeSuiAddress(address);
+  return isValidSuiAddress(normalized) ? normalized : null;
+}
+
+// Validate one label entry; the address is normalized and the category defaults to "other"
+export function parseLabel(value: unknown): AddressLabel | null {
+  if (!value || typeof value !== "object") return null;
+  const { address, label, category } = value as Record<string, unknown>;
+  const key = typeof address === "string" ? labelKey(address.trim()) : null;
+  const text = typeof label === "string" ? label.trim() : "";
+  if (!key || !text || text.length > MAX_LABEL_LENGTH) return null;
+  return {
+    address: key,
+    label: text,
+    category: LABEL_CATEGORIES.includes(category as LabelCategory) ? (category as LabelCategory) : "other",
+  };
+}
+
+// A label set is either { labels: [...] } (the export format) or a bare array.
+// Returns null if the value is not a label set; invalid entries inside one are skipped.
+export function parseLabelSet(value: unknown): AddressLabel[] | null {
+  const entries = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { labels?: unknown }).labels)
+      ? (value as { labels: unknown[] }).labels
+      : null;
+  if (!entries) return null;
+  return entries.flatMap((entry) => {
+    const label = parseLabel(entry);
+    return label ? [label] : [];
+  });
+}
+
+export function serializeLabelSet(labels: Iterable<AddressLabel>): string {
+  return JSON.stringify({ labels: Array.from(labels) }, null, 2);
+}
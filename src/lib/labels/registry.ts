@@ -0,0 +1,42 @@
+import { readFile } from "node:fs/promises";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { getValidators } from "@/lib/sui/validators";
+import defaultLabels from "./default-labels.json";
+import { parseLabelSet, type AddressLabel } from "./labels";
+
+// Server-side label registry: the shipped defaults, overridden by the optional JSON file at
+// LABELS_FILE, on top of the active validator set of each network.
+
+let fileLabels: Promise<Map<string, AddressLabel>> | null = null;
+
+async function loadFileLabels(): Promise<Map<string, AddressLabel>> {
+  const labels = new Map<string, AddressLabel>();
+  for (const label of parseLabelSet(defaultLabels) ?? []) {
+    labels.set(label.address, label);
+  }
+
+  const path = process.env.LABELS_FILE;
+  if (path) {
+    try {
+      const custom = parseLabelSet(JSON.parse(await readFile(path, "utf8")));
+      if (!custom) throw new Error("expected { labels: [...] } or an array of labels");
+      for (const label of custom) labels.set(label.address, label);
+    } catch (error) {
+      console.error(`Error loading labels from ${path}:`, error);
+    }
+  }
+  return labels;
+}
+
+// All labels known to the server for a network, keyed by normalized address
+export async function getLabels(network: SuiNetwork): Promise<Map<string, AddressLabel>> {
+  fileLabels ??= loadFileLabels();
+  const [configured, validators] = await Promise.all([fileLabels, getValidators(network)]);
+
+  const labels = new Map<string, AddressLabel>();
+  for (const [address, validator] of validators) {
+    labels.set(address, { address, label: validator.name, category: "validator" });
+  }
+  for (const [address, label] of configured) labels.set(address, label);
+  return labels;
+}
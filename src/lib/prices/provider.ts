@@ -0,0 +1,155 @@
+import { readFile } from "node:fs/promises";
+import type { SuiNetwork } from "@/lib/sui/networks";
+import { normalizeCoinType } from "@/lib/sui/normalize";
+
+// Historical coin prices for valuing amounts in fiat. Prices come from a pluggable
+// PriceProvider; the built-in one reads a JSON price file (PRICES_FILE), which is meant for
+// development and fixtures. Without a provider, amounts are returned without fiat values.
+
+export type PriceQuote = {
+  coinType: string;
+  // Fiat value of one whole coin (not one base unit)
+  price: number;
+  currency: string;
+  // Name of the provider the price came from
+  source: string;
+  // Time of the price point used; null if the provider does not say
+  timestampMs: string | null;
+};
+
+export type PriceProvider = {
+  name: string;
+  // Price of each coin type at the given time, keyed by normalized coin type.
+  // Coin types the provider has no price for are left out.
+  getPrices(network: SuiNetwork, coinTypes: string[], timestampMs: number): Promise<Map<string, PriceQuote>>;
+};
+
+type PricePoint = { timestampMs: number; price: number };
+
+// Price file layout: { "currency": "USD", "prices": { "<network>": { "<coin type>": [{ "timestampMs": ..., "price": ... }] } } }
+type PriceFile = {
+  currency: string;
+  prices: Partial<Record<SuiNetwork, Map<string, PricePoint[]>>>;
+};
+
+function parsePricePoint(value: unknown): PricePoint | null {
+  if (!value || typeof value !== "object") return null;
+  const { timestampMs, price } = value as Record<string, unknown>;
+  const time = Number(timestampMs);
+  if (!Number.isFinite(time) || typeof price !== "number" || !Number.isFinite(price) || price < 0) return null;
+  return { timestampMs: time, price };
+}
+
+// Parsed price file, or null if it does not have the expected layout. Points are sorted by time.
+export function parsePriceFile(value: unknown): PriceFile | null {
+  if (!value || typeof value !== "object") return null;
+  const { currency, prices } = value as Record<string, unknown>;
+  if (typeof currency !== "string" || !currency || !prices || typeof prices !== "object") return null;
+
+  const parsed: PriceFile = { currency: currency.toUpperCase(), prices: {} };
+  for (const [network, coins] of Object.entries(prices)) {
+    if (!coins || typeof coins !== "object") return null;
+    const byCoin = new Map<string, PricePoint[]>();
+    for (const [coinType, points] of Object.entries(coins)) {
+      if (!Array.isArray(points)) return null;
+      const valid = points.map(parsePricePoint);
+      if (valid.some((point) => point === null)) return null;
+      byCoin.set(
+        normalizeCoinType(coinType),
+        (valid as PricePoint[]).sort((a, b) => a.timestampMs - b.timestampMs),
+      );
+    }
+    parsed.prices[network as SuiNetwork] = byCoin;
+  }
+  return parsed;
+}
+
+// Latest price point at or before the given time; a time before the first point has no price
+function priceAt(points: PricePoint[], timestampMs: number): PricePoint | null {
+  let found: PricePoint | null = null;
+  for (const point of points) {
+    if (point.timestampMs > timestampMs) break;
+    found = point;
+  }
+  return found;
+}
+
+// Provider backed by a JSON price file, read once on first use
+export function createFilePriceProvider(path: string): PriceProvider {
+  let file: Promise<PriceFile | null> | null = null;
+
+  const load = async () => {
+    try {
+      const parsed = parsePriceFile(JSON.parse(await readFile(path, "utf8")));
+      if (!parsed) throw new Error("expected { currency, prices: { <network>: { <coin type>: [...] } } }");
+      return parsed;
+    } catch (error) {
+      console.error(`Error loading prices from ${path}:`, error);
+      return null;
+    }
+  };
+
+  return {
+    name: "file",
+    async getPrices(network, coinTypes, timestampMs) {
+      file ??= load();
+      const loaded = await file;
+      const quotes = new Map<string, PriceQuote>();
+      const coins = loaded?.prices[network];
+      if (!loaded || !coins) return quotes;
+
+      for (const coinType of coinTypes) {
+        const key = normalizeCoinType(coinType);
+        const point = priceAt(coins.get(key) ?? [], timestampMs);
+        if (point) {
+          quotes.set(key, {
+            coinType: key,
+            price: point.price,
+            currency: loaded.currency,
+            source: "file",
+            timestampMs: String(point.timestampMs),
+          });
+        }
+      }
+      return quotes;
+    },
+  };
+}
+
+let provider: PriceProvider | null | undefined;
+
+function getPriceProvider(): PriceProvider | null {
+  if (provider === undefined) {
+    const path = process.env.PRICES_FILE;
+    provider = path ? createFilePriceProvider(path) : null;
+  }
+  return provider;
+}
+
+// Replace the price provider (e.g. with a market data API); null turns fiat valuation off
+export function setPriceProvider(next: PriceProvider | null): void {
+  provider = next;
+}
+
+// Prices of the given coin types at the given time. Provider errors are logged and leave
+// every coin unpriced.
+export async function getPrices(
+  network: SuiNetwork,
+  coinTypes: Iterable<string>,
+  timestampMs: number,
+): Promise<Map<string, PriceQuote>> {
+  const current = getPriceProvider();
+  const unique = [...new Set(Array.from(coinTypes, normalizeCoinType))];
+  if (!current || unique.length === 0) return new Map();
+  try {
+    return await current.getPrices(network, unique, timestampMs);
+  } catch (error) {
+    console.error(`Error fetching prices from ${current.name}:`, error);
+    return new Map();
+  }
+}
+
+export function findPrice(prices: Map<string, PriceQuote>, coinType: string | null | undefined): PriceQuote | null {
+  if (!coinType) return null;
+  return prices.get(normalizeCoinType(coinType)) ?? null;
+}
@@ -0,0 +1,112 @@
+import {
+  SuiClient,
+  getFullnodeUrl,
+  type SuiTransactionBlockResponseOptions,
+  type SuiTransport,
+} from "@mysten/sui/client";
+import { createRecordingTransport, createReplayTransport } from "./fixtures";
+import { DEFAULT_NETWORK, type SuiNetwork } from "./networks";
+import { DEFAULT_RPC_OPTIONS, createResilientTransport, type RpcOptions } from "./rpc";
+
+// Resolve the RPC endpoints for a network, in order of preference.
+// Per-network overrides (SUI_RPC_MAINNET, SUI_RPC_TESTNET, ...) take precedence and may list
+// several comma-separated URLs to fail over between.
+// The legacy SUI_RPC variable is still honoured, but only for mainnet.
+export function getRpcUrls(network: SuiNetwork): string[] {
+  const override =
+    process.env[`SUI_RPC_${network.toUpperCase()}`] ?? (network === "mainnet" ? process.env.SUI_RPC : undefined);
+  const urls = (override ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? urls : [getFullnodeUrl(network)];
+}
+
+// Timeout and retries can be tuned with SUI_RPC_TIMEOUT_MS and SUI_RPC_RETRIES
+function getRpcOptions(): RpcOptions {
+  const timeoutMs = Number(process.env.SUI_RPC_TIMEOUT_MS);
+  const retries = Number(process.env.SUI_RPC_RETRIES);
+  return {
+    ...DEFAULT_RPC_OPTIONS,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_RPC_OPTIONS.timeoutMs,
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RPC_OPTIONS.retries,
+  };
+}
+
+// Where Sui data comes from: a transport per network that every SuiClient call goes through
+export type SuiDataSource = {
+  name: string;
+  createTransport(network: SuiNetwork): SuiTransport;
+};
+
+const DEFAULT_FIXTURES_DIR = "./fixtures";
+
+// Live fullnodes, through a transport that retries and fails over between the network's
+// endpoints (see rpc.ts)
+export function createLiveDataSource(): SuiDataSource {
+  return {
+    name: "live",
+    createTransport: (network) => createResilientTransport(network, getRpcUrls(network), getRpcOptions()),
+  };
+}
+
+// Live fullnodes, saving every answer as a fixture in directory (see fixtures.ts)
+export function createRecordingDataSource(directory: string): SuiDataSource {
+  const live = createLiveDataSource();
+  return {
+    name: "record",
+    createTransport: (network) => createRecordingTransport(network, directory, live.createTransport(network)),
+  };
+}
+
+// Recorded fixtures only; a call without a fixture fails
+export function createReplayDataSource(directory: string): SuiDataSource {
+  return {
+    name: "replay",
+    createTransport: (network) => createReplayTransport(network, directory),
+  };
+}
+
+// SUI_DATA_SOURCE=live (default), record or replay; fixtures live in SUI_FIXTURES_DIR
+function createDefaultDataSource(): SuiDataSource {
+  const mode = process.env.SUI_DATA_SOURCE?.trim().toLowerCase() || "live";
+  const directory = process.env.SUI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  if (mode === "record") return createRecordingDataSource(directory);
+  if (mode === "replay") return createReplayDataSource(directory);
+  if (mode !== "live") console.error(`Unknown SUI_DATA_SOURCE "${mode}", using live fullnodes`);
+  return createLiveDataSource();
+}
+
+let dataSource: SuiDataSource | null = null;
+const clients = new Map<SuiNetwork, SuiClient>();
+
+export function getDataSource(): SuiDataSource {
+  dataSource ??= createDefaultDataSource();
+  return dataSource;
+}
+
+// Replace the data source (e.g. with fixtures in tests); clients are rebuilt on next use.
+// Results already cached by other modules (coin metadata, packages, ...) are kept.
+export function setDataSource(source: SuiDataSource): void {
+  dataSource = source;
+  clients.clear();
+}
+
+// Initialize (or reuse) a Sui client for the given network, reading from the data source
+export function getSuiClient(network: SuiNetwork = DEFAULT_NETWORK): SuiClient {
+  let client = clients.get(network);
+  if (!client) {
+    client = new SuiClient({ transport: getDataSource().createTransport(network), network });
+    clients.set(network, client);
+  }
+  return client;
+}
+
+// Everything the explanation pipeline reads from a transaction block
+export const TRANSACTION_BLOCK_OPTIONS: SuiTransactionBlockResponseOptions = {
+  showInput: true,
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+  showBalanceChanges: true,
+};
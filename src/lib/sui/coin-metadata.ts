@@ -0,0 +1,105 @@
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+import { normalizeCoinType } from "./normalize";
+
+// Display metadata for a coin type, returned by the API next to every amount
+export type CoinInfo = {
+  coinType: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  iconUrl: string | null;
+  // "fallback" means no CoinMetadata object was found and amounts are shown in base units
+  source: "chain" | "fallback";
+};
+
+// SUI itself, for amounts known to be in SUI such as gas
+export const SUI_COIN_INFO: CoinInfo = {
+  coinType: "0x2::sui::SUI",
+  symbol: "SUI",
+  name: "Sui",
+  decimals: 9,
+  iconUrl: null,
+  source: "chain",
+};
+
+// Coin metadata is effectively immutable, so results are cached for the lifetime of the server
+const metadataCache = createLookupCache<CoinInfo>({ name: "coin metadata", maxEntries: 5000 });
+
+// Metadata used when the chain has no CoinMetadata for the type
+export function fallbackCoinInfo(coinType: string): CoinInfo {
+  const parts = coinType.split("::");
+  const symbol = parts.length >= 3 ? parts[parts.length - 1].replace(/<.*$/, "") : "coins";
+  return {
+    coinType,
+    symbol: symbol || "coins",
+    name: symbol || coinType,
+    decimals: 0,
+    iconUrl: null,
+    source: "fallback",
+  };
+}
+
+async function fetchCoinInfo(network: SuiNetwork, coinType: string): Promise<CoinInfo> {
+  const metadata = await getSuiClient(network).getCoinMetadata({ coinType });
+  if (!metadata) return fallbackCoinInfo(coinType);
+  return {
+    coinType,
+    symbol: metadata.symbol,
+    name: metadata.name,
+    decimals: metadata.decimals,
+    iconUrl: metadata.iconUrl || null,
+    source: "chain",
+  };
+}
+
+export async function getCoinInfo(network: SuiNetwork, coinType: string): Promise<CoinInfo> {
+  const key = `${network}:${normalizeCoinType(coinType)}`;
+  const info = await metadataCache.get(key, () => fetchCoinInfo(network, coinType));
+  if (!info) return fallbackCoinInfo(coinType);
+  // Cached entries may have been created for an equivalent but differently formatted type
+  return info.coinType === coinType ? info : { ...info, coinType };
+}
+
+// Resolve metadata for a set of coin types, keyed by the coin type strings passed in
+export async function resolveCoinInfos(
+  network: SuiNetwork,
+  coinTypes: Iterable<string>,
+): Promise<Map<string, CoinInfo>> {
+  const unique = Array.from(new Set(coinTypes));
+  const infos = await Promise.all(unique.map((coinType) => getCoinInfo(network, coinType)));
+  return new Map(unique.map((coinType, i) => [coinType, infos[i]]));
+}
+
+// Format a raw base-unit amount using the coin's decimals
+export function formatCoinAmount(
+  coin: CoinInfo | undefined,
+  rawAmount: string | undefined,
+): { amount: string; symbol: string } {
+  const symbol = coin?.symbol ?? "coins";
+  if (!rawAmount) {
+    return { amount: "0", symbol };
+  }
+
+  const decimals = coin?.decimals ?? 0;
+
+  try {
+    const raw = BigInt(rawAmount);
+    const negative = raw < BigInt(0);
+    const abs = negative ? -raw : raw;
+    const base = BigInt("1" + "0".repeat(decimals));
+    const whole = abs / base;
+    const frac = abs % base;
+    const sign = negative ? "-" : "";
+
+    if (frac === BigInt(0)) {
+      return { amount: `${sign}${whole.toString(10)}`, symbol };
+    }
+
+    const fracStr = frac.toString(10).padStart(decimals, "0").replace(/0+$/, "");
+    return { amount: `${sign}${whole.toString(10)}.${fracStr}`, symbol };
+  } catch {
+    return { amount: rawAmount, symbol };
+  }
+}
@@ -0,0 +1,20 @@
+import { fromHex, isValidTransactionDigest, toBase58 } from "@mysten/sui/utils";
+
+// Parse a transaction digest given as base58 (e.g. "GX67hXSgrpKY3u9YoTkRbMG6Zvov4zJzeWdqAhPGnEbo")
+// or as 64 hex characters (with or without 0x prefix). Hex digests are converted to base58,
+// the only form the RPC accepts. Returns null when the input is not a digest.
+export function parseTransactionDigest(raw: string): string | null {
+  const trimmed = raw.trim();
+
+  const hexMatch = trimmed.match(/(?:0x)?([0-9a-fA-F]{64})/i);
+  if (hexMatch) {
+    return toBase58(fromHex(hexMatch[1]));
+  }
+
+  // Base58: 32-44 characters using 1-9A-HJ-NP-Za-km-z (no 0, O, I, l)
+  if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(trimmed) && isValidTransactionDigest(trimmed)) {
+    return trimmed;
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { JsonRpcError, type SuiTransport } from "@mysten/sui/client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createRecordingTransport, createReplayTransport, FixtureNotFoundError } from "./fixtures";
+
+const DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+const UNKNOWN = "9Yvkz6UWw4kJ1oQ2Ek2Ue6qWmF3bJcWJ3vN4Hq1xKpTg";
+
+// A fullnode that knows one transaction and is down for checkpoints
+const fullnode: SuiTransport = {
+  async request<T>({ method, params }: { method: string; params: unknown[] }): Promise<T> {
+    if (method === "sui_getCheckpoint") throw new Error("fetch failed");
+    if (params[0] === DIGEST) return { digest: DIGEST, checkpoint: "100" } as T;
+    throw new JsonRpcError(`Could not find the referenced transaction [TransactionDigest(${params[0]})]`, -32602);
+  },
+  async subscribe() {
+    throw new Error("Not supported");
+  },
+};
+
+describe("fixtures", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "fixtures-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("replays recorded answers and JSON-RPC errors", async () => {
+    const recording = createRecordingTransport("testnet", root, fullnode);
+    const options = { showEffects: true };
+    await recording.request({ method: "sui_getTransactionBlock", params: [DIGEST, options] });
+    await expect(recording.request({ method: "sui_getTransactionBlock", params: [UNKNOWN, options] })).rejects.toThrow(
+      JsonRpcError,
+    );
+
+    const files = await readdir(path.join(root, "testnet", "sui_getTransactionBlock"));
+    // Files are named after the digest, so a transaction's fixtures are easy to find
+    expect(files.map((file) => file.replace(/-[0-9a-f]{16}\.json$/, "")).sort()).toEqual([DIGEST, UNKNOWN].sort());
+
+    const replay = createReplayTransport("testnet", root);
+    expect(await replay.request({ method: "sui_getTransactionBlock", params: [DIGEST, options] })).toEqual({
+      digest: DIGEST,
+      checkpoint: "100",
+    });
+    const error = await replay.request({ method: "sui_getTransactionBlock", params: [UNKNOWN, options] }).catch((e) => e);
+    expect(error).toBeInstanceOf(JsonRpcError);
+    expect(error).toMatchObject({ code: -32602, message: expect.stringContaining(UNKNOWN) });
+  });
+
+  it("does not record outages, and replays nothing for unrecorded calls", async () => {
+    const recording = createRecordingTransport("testnet", root, fullnode);
+    await expect(recording.request({ method: "sui_getCheckpoint", params: [{ id: "100" }] })).rejects.toThrow(
+      "fetch failed",
+    );
+
+    const replay = createReplayTransport("testnet", root);
+    await expect(replay.request({ method: "sui_getCheckpoint", params: [{ id: "100" }] })).rejects.toThrow(
+      FixtureNotFoundError,
+    );
+    // Params other than the first are part of the fixture's identity
+    await recording.request({ method: "sui_getTransactionBlock", params: [DIGEST, { showEffects: true }] });
+    await expect(
+      replay.request({ method: "sui_getTransactionBlock", params: [DIGEST, { showEvents: true }] }),
+    ).rejects.toThrow(FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  JsonRpcError,
+  type SuiTransport,
+  type SuiTransportRequestOptions,
+  type SuiTransportSubscribeOptions,
+} from "@mysten/sui/client";
+import { NETWORK_LABELS, type SuiNetwork } from "./networks";
+
+// Recorded JSON-RPC answers, so the app can run without a fullnode: the recording transport
+// saves every answer it gets from a real node, the replay transport serves them back.
+// Fixtures are one JSON file per call, at <directory>/<network>/<method>/<first param>-<hash>.json,
+// where the hash covers the method and all params. JSON-RPC errors (an unknown digest) are
+// answers too and are recorded; outages are not.
+
+type Fixture = {
+  method: string;
+  params: unknown[];
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+// No fixture for a call in replay mode
+export class FixtureNotFoundError extends Error {
+  readonly file: string;
+
+  constructor(network: SuiNetwork, method: string, params: unknown[], file: string) {
+    super(
+      `No ${NETWORK_LABELS[network]} fixture for ${method}(${JSON.stringify(params)}); expected ${file}. Record it with SUI_DATA_SOURCE=record.`,
+    );
+    this.name = "FixtureNotFoundError";
+    this.file = file;
+  }
+}
+
+function fixtureFile(directory: string, network: SuiNetwork, method: string, params: unknown[]): string {
+  const hash = createHash("sha256").update(JSON.stringify([method, params])).digest("hex").slice(0, 16);
+  // Digests and object ids make the files of a transaction easy to find
+  const first = typeof params[0] === "string" ? `${params[0].replace(/[^A-Za-z0-9_-]/g, "_").slice(0, 80)}-` : "";
+  return path.join(directory, network, method, `${first}${hash}.json`);
+}
+
+async function writeFixture(file: string, fixture: Fixture): Promise<void> {
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  } catch (error) {
+    console.error("Error writing fixture:", error);
+  }
+}
+
+// Passes every call to the inner transport and records its answer
+export function createRecordingTransport(network: SuiNetwork, directory: string, inner: SuiTransport): SuiTransport {
+  return {
+    async request<T>(input: SuiTransportRequestOptions): Promise<T> {
+      const file = fixtureFile(directory, network, input.method, input.params);
+      try {
+        const result = await inner.request<T>(input);
+        await writeFixture(file, { method: input.method, params: input.params, result });
+        return result;
+      } catch (error) {
+        if (error instanceof JsonRpcError) {
+          await writeFixture(file, {
+            method: input.method,
+            params: input.params,
+            error: { code: error.code, message: error.message },
+          });
+        }
+        throw error;
+      }
+    },
+
+    // Subscriptions are live by nature and are not recorded
+    subscribe<T>(input: SuiTransportSubscribeOptions<T>) {
+      return inner.subscribe(input);
+    },
+  };
+}
+
+// Answers every call from the fixtures and never touches the network
+export function createReplayTransport(network: SuiNetwork, directory: string): SuiTransport {
+  return {
+    async request<T>(input: SuiTransportRequestOptions): Promise<T> {
+      const file = fixtureFile(directory, network, input.method, input.params);
+      let fixture: Fixture;
+      try {
+        fixture = JSON.parse(await readFile(file, "utf8")) as Fixture;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new FixtureNotFoundError(network, input.method, input.params, file);
+        }
+        throw error;
+      }
+      if (fixture.error) throw new JsonRpcError(fixture.error.message, fixture.error.code);
+      return fixture.result as T;
+    },
+
+    async subscribe() {
+      throw new Error("Subscriptions cannot be replayed from fixtures");
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// Reference gas price of an epoch, for comparing the price a transaction paid against it.
+// The price is fixed for the whole epoch, so lookups are cached for the life of the process.
+
+// Keyed by "<network>:<epoch>"; null records an epoch the RPC reports no price for
+const referenceGasPriceCache = createLookupCache<string | null>({ name: "reference gas price", maxEntries: 1000 });
+
+async function fetchReferenceGasPrice(network: SuiNetwork, epoch: string): Promise<string | null> {
+  // Epoch pages start after the cursor, so the epoch before is the cursor for this one
+  const { data } = await getSuiClient(network).getEpochs({
+    cursor: BigInt(epoch) > BigInt(0) ? (BigInt(epoch) - BigInt(1)).toString() : null,
+    limit: 1,
+  });
+  const info = data.find((item) => item.epoch === epoch);
+  return info?.referenceGasPrice != null ? String(info.referenceGasPrice) : null;
+}
+
+export function getReferenceGasPrice(network: SuiNetwork, epoch: string): Promise<string | null> {
+  return referenceGasPriceCache.get(`${network}:${epoch}`, () => fetchReferenceGasPrice(network, epoch));
+}
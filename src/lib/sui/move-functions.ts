@@ -0,0 +1,29 @@
+import type { SuiMoveNormalizedFunction } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// Normalized Move function signatures, used to pair Move call arguments with parameter types.
+// A package version can never change, so signatures are cached for the life of the process.
+
+// Keyed by "<network>:<package id>::<module>::<function>"
+const signatureCache = createLookupCache<SuiMoveNormalizedFunction>({
+  name: "Move function signature",
+  maxEntries: 10000,
+});
+
+// Signature of a Move function; null if it does not exist (or could not be normalized)
+export function getMoveFunction(
+  network: SuiNetwork,
+  target: { package: string; module: string; function: string },
+): Promise<SuiMoveNormalizedFunction | null> {
+  const key = `${network}:${normalizeSuiAddress(target.package)}::${target.module}::${target.function}`;
+  return signatureCache.get(key, () =>
+    getSuiClient(network).getNormalizedMoveFunction({
+      package: target.package,
+      module: target.module,
+      function: target.function,
+    }),
+  );
+}
@@ -0,0 +1,29 @@
+// Sui networks supported by the explainer. Shared by the API routes and the UI,
+// so this module must stay free of server-only imports.
+
+export const SUI_NETWORKS = ["mainnet", "testnet", "devnet", "localnet"] as const;
+
+export type SuiNetwork = (typeof SUI_NETWORKS)[number];
+
+export const DEFAULT_NETWORK: SuiNetwork = "mainnet";
+
+export const NETWORK_LABELS: Record<SuiNetwork, string> = {
+  mainnet: "Sui Mainnet",
+  testnet: "Sui Testnet",
+  devnet: "Sui Devnet",
+  localnet: "Sui Localnet",
+};
+
+export function isSuiNetwork(value: unknown): value is SuiNetwork {
+  return typeof value === "string" && (SUI_NETWORKS as readonly string[]).includes(value);
+}
+
+// Parse a network name from a query parameter.
+// Missing/empty values fall back to the default network; unknown values return null.
+export function parseNetwork(value: string | null | undefined): SuiNetwork | null {
+  if (value === null || value === undefined || value.trim() === "") {
+    return DEFAULT_NETWORK;
+  }
+  const normalized = value.trim().toLowerCase();
+  return isSuiNetwork(normalized) ? normalized : null;
+}
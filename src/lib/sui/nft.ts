@@ -0,0 +1,141 @@
+import type { SuiObjectChange } from "@mysten/sui/client";
+import { createLruMap } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// NFT detection based on the Display standard: an object is treated as an NFT when its
+// type has a Display object, and the Display fields provide its name, image and collection.
+
+export type NftInfo = {
+  objectId: string;
+  objectType: string;
+  name: string | null;
+  imageUrl: string | null;
+  description: string | null;
+  collection: string | null;
+  link: string | null;
+};
+
+export type NftTransfer = {
+  from: string;
+  to: string;
+  objectId: string;
+  objectType: string;
+  nft: NftInfo;
+};
+
+type TransferredObject = Omit<NftTransfer, "nft">;
+
+// Types that can never be NFTs, so they are not looked up
+const EXCLUDED_TYPES = [/^0x0*2::coin::Coin</, /^0x0*3::staking_pool::StakedSui$/, /::dynamic_field::Field</];
+
+// Whether a type has Display, keyed by "<network>:<type>". Types without Display are not
+// looked up again.
+const displayTypeCache = createLruMap<boolean>(10000);
+
+// Objects whose owner moved to another address in this transaction (transfers and mints to others)
+export function findTransferredObjects(
+  objectChanges: SuiObjectChange[] | null | undefined,
+  sender: string,
+): TransferredObject[] {
+  const transferred: TransferredObject[] = [];
+
+  for (const change of objectChanges ?? []) {
+    if (change.type === "transferred") {
+      const recipient = change.recipient;
+      transferred.push({
+        from: change.sender,
+        to: typeof recipient === "object" && "AddressOwner" in recipient ? recipient.AddressOwner : "unknown",
+        objectId: change.objectId,
+        objectType: change.objectType,
+      });
+    } else if (change.type === "created" || change.type === "mutated") {
+      const owner = change.owner;
+      if (owner && typeof owner === "object" && "AddressOwner" in owner && owner.AddressOwner !== sender) {
+        transferred.push({
+          from: change.sender,
+          to: owner.AddressOwner,
+          objectId: change.objectId,
+          objectType: change.objectType,
+        });
+      }
+    }
+  }
+
+  return transferred.filter((t) => !EXCLUDED_TYPES.some((pattern) => pattern.test(t.objectType)));
+}
+
+// ipfs:// links are rewritten to a public gateway so browsers can load them
+function normalizeImageUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  if (url.startsWith("ipfs://")) return `https://ipfs.io/ipfs/${url.slice("ipfs://".length)}`;
+  return url;
+}
+
+// Struct name of a type, used as the collection when Display does not name one
+function structName(objectType: string): string {
+  const withoutParams = objectType.replace(/<.*$/, "");
+  return withoutParams.split("::").pop() || objectType;
+}
+
+// Keep only the transferred objects whose type has Display, attaching their metadata
+export async function resolveNftTransfers(
+  network: SuiNetwork,
+  candidates: TransferredObject[],
+): Promise<NftTransfer[]> {
+  const lookups = candidates.filter(
+    (c) => displayTypeCache.get(`${network}:${c.objectType}`) !== false,
+  );
+  if (lookups.length === 0) return [];
+
+  // multiGetObjects accepts at most 50 ids per call
+  const ids = Array.from(new Set(lookups.map((c) => c.objectId)));
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += 50) chunks.push(ids.slice(i, i + 50));
+
+  let objects;
+  try {
+    const client = getSuiClient(network);
+    const results = await Promise.all(
+      chunks.map((chunk) =>
+        client.multiGetObjects({ ids: chunk, options: { showDisplay: true, showType: true } }),
+      ),
+    );
+    objects = results.flat();
+  } catch (error) {
+    console.error("Error fetching NFT display data:", error);
+    return [];
+  }
+
+  const displays = new Map<string, Record<string, string>>();
+  for (const object of objects) {
+    const data = object.data;
+    if (!data) continue;
+    const fields = data.display?.data;
+    if (fields && Object.keys(fields).length > 0) {
+      displays.set(data.objectId, fields);
+    }
+    if (data.type) {
+      displayTypeCache.set(`${network}:${data.type}`, displays.has(data.objectId));
+    }
+  }
+
+  return lookups.flatMap((candidate) => {
+    const display = displays.get(candidate.objectId);
+    if (!display) return [];
+    return [
+      {
+        ...candidate,
+        nft: {
+          objectId: candidate.objectId,
+          objectType: candidate.objectType,
+          name: display.name ?? null,
+          imageUrl: normalizeImageUrl(display.image_url ?? display.img_url),
+          description: display.description ?? null,
+          collection: display.collection ?? display.project_name ?? structName(candidate.objectType),
+          link: display.link ?? display.project_url ?? null,
+        },
+      },
+    ];
+  });
+}
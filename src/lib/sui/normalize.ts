@@ -0,0 +1,23 @@
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+
+// Comparison keys for addresses and coin types, which the RPC and events format inconsistently
+// (short "0x2" vs. 64 hex digits, with or without leading zeros)
+
+// Whether two addresses are the same; a missing address matches nothing
+export function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  try {
+    return normalizeSuiAddress(a) === normalizeSuiAddress(b);
+  } catch {
+    return a === b;
+  }
+}
+
+// Coin type with its addresses normalized, or the type as given if it cannot be parsed
+export function normalizeCoinType(coinType: string): string {
+  try {
+    return normalizeStructTag(coinType);
+  } catch {
+    return coinType;
+  }
+}
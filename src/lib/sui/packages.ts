@@ -0,0 +1,141 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// Registry of well-known Move packages. Entries are keyed by the package's original id;
+// calls into any upgraded version are traced back to it through the address its modules keep.
+
+export type PackageInfo = {
+  // The package that was called, and the id of its first version
+  packageId: string;
+  originalId: string;
+  name: string;
+  logoUrl: string | null;
+  website: string | null;
+};
+
+type KnownPackage = Omit<PackageInfo, "packageId"> & {
+  // Networks the original id is valid on; omitted for packages that exist on every network
+  networks?: SuiNetwork[];
+};
+
+export const KNOWN_PACKAGES: KnownPackage[] = [
+  { originalId: "0x1", name: "Move Stdlib", logoUrl: "https://docs.sui.io/img/favicon.ico", website: "https://docs.sui.io" },
+  { originalId: "0x2", name: "Sui Framework", logoUrl: "https://docs.sui.io/img/favicon.ico", website: "https://docs.sui.io" },
+  { originalId: "0x3", name: "Sui System", logoUrl: "https://docs.sui.io/img/favicon.ico", website: "https://docs.sui.io" },
+  {
+    originalId: "0xdee9",
+    name: "DeepBook v2",
+    logoUrl: "https://deepbook.tech/favicon.ico",
+    website: "https://deepbook.tech",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0x2c8d603bc51326b8c13cef9dd07031a408a48dddb541963357661df5d3204809",
+    name: "DeepBook v3",
+    logoUrl: "https://deepbook.tech/favicon.ico",
+    website: "https://deepbook.tech",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0x1eabed72c53feb3805120a081dc15963c204dc8d091542592abaf7a35689b2fb",
+    name: "Cetus CLMM",
+    logoUrl: "https://www.cetus.zone/favicon.ico",
+    website: "https://www.cetus.zone",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0x91bfbc386a41afcfd9b2533058d7e915a1d3829089cc268ff4333d54d6339ca1",
+    name: "Turbos",
+    logoUrl: "https://turbos.finance/favicon.ico",
+    website: "https://turbos.finance",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0xefe170ec0be4d762196bedecd7a065816576198a6527c99282a2551aaa7da38c",
+    name: "Aftermath AMM",
+    logoUrl: "https://aftermath.finance/favicon.ico",
+    website: "https://aftermath.finance",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0xba153169476e8c3114962261d1edc70de5ad9781b83cc617ecc8c1923191cae0",
+    name: "FlowX AMM",
+    logoUrl: "https://flowx.finance/favicon.ico",
+    website: "https://flowx.finance",
+    networks: ["mainnet"],
+  },
+  {
+    originalId: "0x25929e7f29e0a30eb4e692952ba1b5b65a3a4d65ab5f2a32e1ba3edcb587f26d",
+    name: "FlowX CLMM",
+    logoUrl: "https://flowx.finance/favicon.ico",
+    website: "https://flowx.finance",
+    networks: ["mainnet"],
+  },
+];
+
+// Keyed by normalized original id
+const knownPackages = new Map(
+  KNOWN_PACKAGES.map((pkg) => [normalizeSuiAddress(pkg.originalId), pkg] as const),
+);
+
+function findKnownPackage(network: SuiNetwork, originalId: string): KnownPackage | null {
+  const pkg = knownPackages.get(originalId);
+  return pkg && (!pkg.networks || pkg.networks.includes(network)) ? pkg : null;
+}
+
+// A package's original id never changes, so lookups are cached for the life of the process.
+// Keyed by "<network>:<package id>".
+const originalIdCache = createLookupCache<string>({ name: "package original id", maxEntries: 10000 });
+
+// Every module of an upgraded package keeps the address of the package's first version
+async function fetchOriginalId(network: SuiNetwork, packageId: string): Promise<string> {
+  const modules = await getSuiClient(network).getNormalizedMoveModulesByPackage({ package: packageId });
+  const [first] = Object.values(modules);
+  return first ? normalizeSuiAddress(first.address) : packageId;
+}
+
+// Original (first version) id of a package; the id itself if it cannot be looked up
+export async function getOriginalPackageId(network: SuiNetwork, packageId: string): Promise<string> {
+  const normalized = normalizeSuiAddress(packageId);
+  // Known packages need no lookup; framework packages are upgraded in place
+  if (findKnownPackage(network, normalized)) return normalized;
+  return (
+    (await originalIdCache.get(`${network}:${normalized}`, () => fetchOriginalId(network, normalized))) ?? normalized
+  );
+}
+
+// Registry entries for the given package ids (any version), keyed by normalized package id.
+// Unknown packages are left out.
+export async function resolvePackages(
+  network: SuiNetwork,
+  packageIds: Iterable<string>,
+): Promise<Map<string, PackageInfo>> {
+  const unique = new Set(Array.from(packageIds, (id) => normalizeSuiAddress(id)));
+  const packages = new Map<string, PackageInfo>();
+  await Promise.all(
+    Array.from(unique, async (packageId) => {
+      const originalId = await getOriginalPackageId(network, packageId);
+      const pkg = findKnownPackage(network, originalId);
+      if (pkg) {
+        packages.set(packageId, {
+          packageId,
+          originalId,
+          name: pkg.name,
+          logoUrl: pkg.logoUrl,
+          website: pkg.website,
+        });
+      }
+    }),
+  );
+  return packages;
+}
+
+export function findPackage(
+  packages: Map<string, PackageInfo>,
+  packageId: string | null | undefined,
+): PackageInfo | null {
+  if (!packageId) return null;
+  return packages.get(normalizeSuiAddress(packageId)) ?? null;
+}
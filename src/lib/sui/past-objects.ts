@@ -0,0 +1,38 @@
+import type { ObjectOwner } from "@mysten/sui/client";
+import { mapWithConcurrency } from "@/lib/async";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// Owners of objects at earlier versions, for showing who owned an object before a transaction
+
+// Lookups in flight at once; the RPC has no batched past-object lookup
+const LOOKUP_CONCURRENCY = 8;
+// Objects looked up per transaction; owners of any beyond this are reported as unknown
+export const MAX_PAST_OBJECT_LOOKUPS = 50;
+
+async function fetchPastOwner(network: SuiNetwork, objectId: string, version: string): Promise<ObjectOwner | null> {
+  const read = await getSuiClient(network).tryGetPastObject({
+    id: objectId,
+    version: Number(version),
+    options: { showOwner: true },
+  });
+  return read.status === "VersionFound" ? (read.details.owner ?? null) : null;
+}
+
+// Owner of each object at the given version, keyed by object id. Objects whose version has been
+// pruned by the fullnode (or whose lookup fails) are left out.
+export async function getPastOwners(
+  network: SuiNetwork,
+  refs: Array<{ objectId: string; version: string }>,
+): Promise<Map<string, ObjectOwner>> {
+  const owners = new Map<string, ObjectOwner>();
+  await mapWithConcurrency(refs.slice(0, MAX_PAST_OBJECT_LOOKUPS), LOOKUP_CONCURRENCY, async (ref) => {
+    try {
+      const owner = await fetchPastOwner(network, ref.objectId, ref.version);
+      if (owner) owners.set(ref.objectId, owner);
+    } catch (error) {
+      console.error(`Error fetching object ${ref.objectId} at version ${ref.version}:`, error);
+    }
+  });
+  return owners;
+}
@@ -0,0 +1,181 @@
+import {
+  JsonRpcError,
+  SuiHTTPStatusError,
+  SuiHTTPTransport,
+  type SuiTransport,
+  type SuiTransportRequestOptions,
+  type SuiTransportSubscribeOptions,
+} from "@mysten/sui/client";
+import { sleep } from "@/lib/async";
+import { NETWORK_LABELS, type SuiNetwork } from "./networks";
+
+// JSON-RPC transport over several fullnode endpoints. Every call gets a timeout; calls that fail
+// for reasons an RPC node can recover from (timeouts, network errors, 408/429/5xx) are retried
+// with exponential backoff and jitter, moving on to the next endpoint each time. An endpoint
+// that keeps failing is skipped for a cooldown (a circuit breaker) before it is tried again.
+// JSON-RPC errors, such as an unknown digest, are answers rather than outages and are passed on.
+
+export type RpcOptions = {
+  // Per-call timeout
+  timeoutMs: number;
+  // Retries after the first attempt; each retry goes to the next healthy endpoint
+  retries: number;
+  // Backoff before retry n is up to baseDelayMs * 2^(n-1), capped at maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failures that open an endpoint's circuit, and how long it then stays open
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export const DEFAULT_RPC_OPTIONS: RpcOptions = {
+  timeoutMs: 10_000,
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 4_000,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+// Retry-After sent with 503 responses: by then an endpoint skipped as unhealthy is tried again
+export const RPC_RETRY_AFTER_SECONDS = Math.ceil(DEFAULT_RPC_OPTIONS.cooldownMs / 1000);
+
+// Every endpoint of a network failed, timed out or was skipped as unhealthy. Unlike a JSON-RPC
+// error, this says nothing about the requested data: a digest may well exist.
+export class RpcUnavailableError extends Error {
+  readonly network: SuiNetwork;
+
+  constructor(network: SuiNetwork, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${NETWORK_LABELS[network]} RPC is unavailable: ${reason}`, { cause });
+    this.name = "RpcUnavailableError";
+    this.network = network;
+  }
+}
+
+const NO_HEALTHY_ENDPOINT = "every endpoint is failing and skipped for now";
+
+type Endpoint = {
+  url: string;
+  transport: SuiTransport;
+  consecutiveFailures: number;
+  // While set and in the future, the endpoint is skipped
+  openUntil: number | null;
+};
+
+// Statuses worth retrying: request timeout, too early, rate limited and server errors
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+// Whether an error says the endpoint is unhealthy, as opposed to an answer to the call
+function isTransient(error: unknown): boolean {
+  if (error instanceof JsonRpcError) return false;
+  if (error instanceof SuiHTTPStatusError) return isRetryableStatus(error.status);
+  // Timeouts, refused connections, DNS failures and unparseable responses
+  return true;
+}
+
+function backoffDelay(retry: number, options: RpcOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  // "Equal jitter": at least half the ceiling, so retries never come back to back
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Signal that aborts when the caller's signal does or when the timeout expires
+function withTimeout(signal: AbortSignal | undefined, timeoutMs: number): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`RPC call timed out after ${timeoutMs} ms`)),
+    timeoutMs,
+  );
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+export function createResilientTransport(
+  network: SuiNetwork,
+  urls: string[],
+  options: RpcOptions = DEFAULT_RPC_OPTIONS,
+): SuiTransport {
+  const endpoints: Endpoint[] = urls.map((url) => ({
+    url,
+    transport: new SuiHTTPTransport({ url }),
+    consecutiveFailures: 0,
+    openUntil: null,
+  }));
+
+  // Endpoints to try, in configured order, starting after the one that failed last;
+  // endpoints with an open circuit are left out until their cooldown has passed
+  const healthy = (start: number) => {
+    const now = Date.now();
+    return Array.from({ length: endpoints.length }, (_, i) => endpoints[(start + i) % endpoints.length]).filter(
+      (endpoint) => endpoint.openUntil === null || endpoint.openUntil <= now,
+    );
+  };
+
+  const recordSuccess = (endpoint: Endpoint) => {
+    endpoint.consecutiveFailures = 0;
+    endpoint.openUntil = null;
+  };
+
+  const recordFailure = (endpoint: Endpoint, error: unknown) => {
+    endpoint.consecutiveFailures++;
+    // A half-open endpoint (cooldown over) that fails again is closed off straight away
+    if (endpoint.consecutiveFailures >= options.failureThreshold) {
+      if (endpoint.openUntil === null) {
+        console.error(`${NETWORK_LABELS[network]} RPC endpoint ${endpoint.url} is unhealthy, skipping it:`, error);
+      }
+      endpoint.openUntil = Date.now() + options.cooldownMs;
+    }
+  };
+
+  return {
+    async request<T>(input: SuiTransportRequestOptions): Promise<T> {
+      let lastError: unknown = new Error(NO_HEALTHY_ENDPOINT);
+      let start = 0;
+
+      for (let attempt = 0; attempt <= options.retries; attempt++) {
+        const endpoint = healthy(start)[0];
+        if (!endpoint) break;
+        if (attempt > 0) await sleep(backoffDelay(attempt, options), input.signal);
+
+        const call = withTimeout(input.signal, options.timeoutMs);
+        try {
+          const result = await endpoint.transport.request<T>({ ...input, signal: call.signal });
+          recordSuccess(endpoint);
+          return result;
+        } catch (error) {
+          // Cancelled by the caller: not the endpoint's fault, and not worth retrying
+          if (input.signal?.aborted) throw error;
+          if (!isTransient(error)) {
+            recordSuccess(endpoint);
+            throw error;
+          }
+          recordFailure(endpoint, error);
+          lastError = error;
+          start = endpoints.indexOf(endpoint) + 1;
+        } finally {
+          call.clear();
+        }
+      }
+
+      throw new RpcUnavailableError(network, lastError);
+    },
+
+    // Subscriptions are long-lived, so they only get failover to the first healthy endpoint
+    async subscribe<T>(input: SuiTransportSubscribeOptions<T>) {
+      const endpoint = healthy(0)[0];
+      if (!endpoint) throw new RpcUnavailableError(network, new Error(NO_HEALTHY_ENDPOINT));
+      return endpoint.transport.subscribe(input);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { isValidSuiNSName, normalizeSuiAddress, normalizeSuiNSName } from "@mysten/sui/utils";
+import { mapWithConcurrency } from "@/lib/async";
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+// SuiNS names: reverse resolution (address -> primary name) for explanations, and
+// forward resolution (name -> address) for the address views.
+
+// Names can be bought, transferred or changed at any time, so cache them only briefly
+const NAME_CACHE_TTL_MS = 10 * 60 * 1000;
+// Reverse lookups in flight at once; the RPC has no batched reverse lookup
+const LOOKUP_CONCURRENCY = 8;
+
+// Keyed by "<network>:<address>"; null records an address without a name
+const nameCache = createLookupCache<string | null>({
+  name: "SuiNS name",
+  maxEntries: 10000,
+  ttlMs: NAME_CACHE_TTL_MS,
+});
+
+async function fetchName(network: SuiNetwork, address: string): Promise<string | null> {
+  const { data } = await getSuiClient(network).resolveNameServiceNames({ address, limit: 1 });
+  return data[0] ?? null;
+}
+
+function getName(network: SuiNetwork, address: string): Promise<string | null> {
+  return nameCache.get(`${network}:${address}`, () => fetchName(network, address));
+}
+
+// Primary SuiNS names for the given addresses, keyed by normalized address.
+// Addresses without a name (or whose lookup fails) are left out.
+export async function resolveNames(
+  network: SuiNetwork,
+  addresses: Iterable<string | null | undefined>,
+): Promise<Map<string, string>> {
+  const unique = new Set<string>();
+  for (const address of addresses) {
+    if (address && /^0x[0-9a-fA-F]{1,64}$/.test(address)) unique.add(normalizeSuiAddress(address));
+  }
+
+  const addressList = Array.from(unique);
+  const found = await mapWithConcurrency(addressList, LOOKUP_CONCURRENCY, (address) => getName(network, address));
+  const names = new Map<string, string>();
+  addressList.forEach((address, i) => {
+    if (found[i]) names.set(address, found[i]);
+  });
+  return names;
+}
+
+// Address a SuiNS name (e.g. "example.sui" or "@example") points to, or null if the
+// name is invalid or not registered
+export async function resolveNameToAddress(network: SuiNetwork, name: string): Promise<string | null> {
+  if (!isValidSuiNSName(name)) return null;
+  const address = await getSuiClient(network).resolveNameServiceAddress({
+    name: normalizeSuiNSName(name, "dot"),
+  });
+  return address ? normalizeSuiAddress(address) : null;
+}
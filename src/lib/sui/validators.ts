@@ -0,0 +1,48 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { createLookupCache } from "@/lib/cache/lookup";
+import { getSuiClient } from "./client";
+import type { SuiNetwork } from "./networks";
+
+export type ValidatorInfo = {
+  address: string;
+  name: string;
+  imageUrl: string | null;
+  stakingPoolId: string;
+};
+
+// The validator set only changes at epoch boundaries, so a few minutes of staleness is fine
+const VALIDATOR_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Keyed by network
+const validatorCache = createLookupCache<Map<string, ValidatorInfo>>({
+  name: "validator set",
+  maxEntries: 10,
+  ttlMs: VALIDATOR_CACHE_TTL_MS,
+});
+
+async function fetchValidators(network: SuiNetwork): Promise<Map<string, ValidatorInfo>> {
+  const state = await getSuiClient(network).getLatestSuiSystemState();
+  const validators = new Map<string, ValidatorInfo>();
+  for (const v of state.activeValidators) {
+    validators.set(normalizeSuiAddress(v.suiAddress), {
+      address: v.suiAddress,
+      name: v.name,
+      imageUrl: v.imageUrl || null,
+      stakingPoolId: v.stakingPoolId,
+    });
+  }
+  return validators;
+}
+
+// Active validators keyed by normalized address. Returns an empty map if the lookup fails.
+export async function getValidators(network: SuiNetwork): Promise<Map<string, ValidatorInfo>> {
+  return (await validatorCache.get(network, () => fetchValidators(network))) ?? new Map();
+}
+
+export function findValidator(
+  validators: Map<string, ValidatorInfo>,
+  address: string | null | undefined,
+): ValidatorInfo | null {
+  if (!address) return null;
+  return validators.get(normalizeSuiAddress(address)) ?? null;
+}